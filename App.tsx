@@ -1,51 +1,215 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { analyzeMedia, generateAudio } from './services/geminiService';
-import { fileToBase64 } from './utils/fileUtils';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { analysisModelId, createProviders, loadProviderSettings, providerNeedsApiKey, saveProviderSettings } from './services/providerSettings';
+import { analysisCacheKey, getCachedAnalysis, hashPreparedMedia, putCachedAnalysis, updateCachedAudio, updateCachedResult } from './services/analysisCache';
+import { createThumbnail, fetchMediaFromUrl, formatBytes, hashFile } from './utils/fileUtils';
+import { cropRegions, dataUrlToMedia, prepareMedia } from './utils/mediaPreparation';
+import {
+  InvalidApiKeyError,
+  LocalizedError,
+  UnparseableResponseError,
+  describeError,
+  isAbortError,
+  isTransientError,
+  recoveryActionsFor,
+  retryAfterOf,
+} from './services/errors';
+import { withBackoff } from './utils/retry';
+import type { AnalyzeMediaRequest } from './services/providers';
+import { analyzeVideoTimeline } from './services/videoTimeline';
+import { hasGps, readMediaMetadata, resultFromMetadata } from './utils/mediaMetadata';
 import { useGeolocation } from './hooks/useGeolocation';
 import useIsMobile from './hooks/useIsMobile';
+import { useAnalysisHistory } from './hooks/useAnalysisHistory';
+import { useClipboardPaste } from './hooks/useClipboardPaste';
+import { useI18n } from './hooks/useI18n';
+import { UI_LOCALES, UiLocale } from './i18n';
 import FileUpload from './components/FileUpload';
 import ResultCard from './components/ResultCard';
 import Loader from './components/Loader';
 import ApiKeyModal from './components/ApiKeyModal';
-import { AnalysisResult, GeolocationCoordinates, Language } from './types';
-import { Languages, ArrowLeft, KeyRound } from 'lucide-react';
+import HistorySidebar from './components/HistorySidebar';
+import BatchPanel from './components/BatchPanel';
+import ComparePanel from './components/ComparePanel';
+import ModePicker from './components/ModePicker';
+import ChatPanel from './components/ChatPanel';
+import SettingsModal from './components/SettingsModal';
+import LanguagePicker from './components/LanguagePicker';
+import LocationControl from './components/LocationControl';
+import { DEFAULT_RESULT_LANGUAGES, LOCALES, describedLanguages, isLanguage } from './services/locales';
+import { DEFAULT_ANALYSIS_OPTIONS, DETAIL_LEVELS, isAnalysisModeId } from './services/analysisModes';
+import { AnalysisOptions, AnalysisProgress, AnalysisResult, ChatMessage, DetailLevel, GeolocationCoordinates, HistoryEntry, Language, LocationSettings, MediaMetadata, MediaPreparationInfo, PreparedMedia, ProviderSettings, RegionOfInterest } from './types';
+import { Languages, ArrowLeft, KeyRound, Crosshair, History, Settings, RotateCw, Minimize2, FileText, GitCompare, SlidersHorizontal } from 'lucide-react';
 
 const API_KEY_STORAGE_KEY = 'gemini-api-key';
+const SKIP_MODEL_WITH_GPS_STORAGE_KEY = 'skip-model-with-gps';
+const VIDEO_TIMELINE_STORAGE_KEY = 'video-timeline';
+const RESULT_LANGUAGES_STORAGE_KEY = 'result-languages';
+const LOCATION_SETTINGS_STORAGE_KEY = 'location-settings';
+const ANALYSIS_OPTIONS_STORAGE_KEY = 'analysis-options';
+// Nothing about the user's position is shared until they choose to.
+const DEFAULT_LOCATION_SETTINGS: LocationSettings = { mode: 'off', manual: null };
+
+const loadResultLanguages = (): Language[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RESULT_LANGUAGES_STORAGE_KEY) ?? 'null');
+    const languages = Array.isArray(saved) ? saved.filter(isLanguage) : [];
+    return languages.length > 0 ? languages : DEFAULT_RESULT_LANGUAGES;
+  } catch {
+    return DEFAULT_RESULT_LANGUAGES;
+  }
+};
+
+// The hint describes one particular photo, so only the mode and detail level are remembered.
+const loadAnalysisOptions = (): AnalysisOptions => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ANALYSIS_OPTIONS_STORAGE_KEY) ?? 'null') as Partial<AnalysisOptions> | null;
+    return {
+      ...DEFAULT_ANALYSIS_OPTIONS,
+      mode: isAnalysisModeId(saved?.mode) ? saved.mode : DEFAULT_ANALYSIS_OPTIONS.mode,
+      detail: DETAIL_LEVELS.includes(saved?.detail as DetailLevel) ? saved!.detail! : DEFAULT_ANALYSIS_OPTIONS.detail,
+    };
+  } catch {
+    return DEFAULT_ANALYSIS_OPTIONS;
+  }
+};
+
+const loadLocationSettings = (): LocationSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LOCATION_SETTINGS_STORAGE_KEY) ?? 'null') as Partial<LocationSettings> | null;
+    return { ...DEFAULT_LOCATION_SETTINGS, ...saved };
+  } catch {
+    return DEFAULT_LOCATION_SETTINGS;
+  }
+};
+
+// Typical length of a complete answer, used to turn streamed characters into a percentage.
+const EXPECTED_RESPONSE_CHARS = 2500;
+// Automatic resends for rate limits and dropped connections before the error is shown.
+const TRANSIENT_RETRIES = 3;
+// Used when the user asks to compress a file the server refused as too large.
+const COMPRESSED_MEDIA = { maxDimension: 1280, quality: 0.7 };
+
+const stagePercent = ({ stage, partialText, upload }: AnalysisProgress): number => {
+  switch (stage) {
+    case 'sampling': return 0;
+    case 'uploading': return upload ? Math.round(12 * upload.sentBytes / Math.max(1, upload.totalBytes)) : 5;
+    case 'reasoning': return 15 + Math.round(65 * Math.min(1, (partialText?.length ?? 0) / EXPECTED_RESPONSE_CHARS));
+    case 'grounding': return 85;
+    case 'parsing': return 95;
+  }
+};
+
+const progressPercent = (progress: AnalysisProgress): number => {
+  if (progress.stage === 'sampling') return 2;
+  if (!progress.frame) return stagePercent(progress);
+  // Frame sampling takes the first 5%, each analyzed frame an equal share of the rest.
+  const { index, total } = progress.frame;
+  return 5 + Math.round(95 * (index + stagePercent(progress) / 100) / total);
+};
 
 const App: React.FC = () => {
+  const { t, locale, setLocale } = useI18n();
   const [apiKey, setApiKey] = useState<string | null>(null);
   const [showApiKeyModal, setShowApiKeyModal] = useState<boolean>(false);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const providers = useMemo(() => createProviders(providerSettings, apiKey), [providerSettings, apiKey]);
+  const needsApiKey = providerNeedsApiKey(providerSettings);
   const [file, setFile] = useState<File | null>(null);
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
+  const [compareMode, setCompareMode] = useState<boolean>(false);
+  const [historyFileName, setHistoryFileName] = useState<string | null>(null);
   const [filePreview, setFilePreview] = useState<string | null>(null);
-  const [ttsLanguage, setTtsLanguage] = useState<Language>('en');
+  const [mediaMetadata, setMediaMetadata] = useState<MediaMetadata | null>(null);
+  const [mediaInfo, setMediaInfo] = useState<MediaPreparationInfo | null>(null);
+  const [regions, setRegions] = useState<RegionOfInterest[]>([]);
+  const [isLoadingUrl, setIsLoadingUrl] = useState<boolean>(false);
+  const [inputError, setInputError] = useState<Error | null>(null);
+  const [skipModelWithGps, setSkipModelWithGps] = useState<boolean>(() => localStorage.getItem(SKIP_MODEL_WITH_GPS_STORAGE_KEY) === 'true');
+  const [useVideoTimeline, setUseVideoTimeline] = useState<boolean>(() => localStorage.getItem(VIDEO_TIMELINE_STORAGE_KEY) !== 'false');
+  const [resultLanguages, setResultLanguages] = useState<Language[]>(loadResultLanguages);
+  const [historyEntryId, setHistoryEntryId] = useState<string | null>(null);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
-  const [audioData, setAudioData] = useState<string | null>(null);
+  // Cache entry the shown result belongs to; cachedAt is only set when it was served from the cache.
+  const [cacheKey, setCacheKey] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const [audioClips, setAudioClips] = useState<Partial<Record<Language, string>>>({});
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [analysisProgress, setAnalysisProgress] = useState(0);
-  const [loadingMessage, setLoadingMessage] = useState<string>('');
-  const [error, setError] = useState<string | null>(null);
-  const [isGeneratingAudio, setIsGeneratingAudio] = useState<boolean>(false);
-  const [audioError, setAudioError] = useState<string | null>(null);
-  
-  const { coordinates, error: geoError } = useGeolocation();
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress>({ stage: 'uploading' });
+  const [error, setError] = useState<Error | null>(null);
+  const [generatingAudioFor, setGeneratingAudioFor] = useState<Language | null>(null);
+  const [audioError, setAudioError] = useState<Error | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [showRawText, setShowRawText] = useState<boolean>(false);
+  const [locationSettings, setLocationSettings] = useState<LocationSettings>(loadLocationSettings);
+  const [analysisOptions, setAnalysisOptions] = useState<AnalysisOptions>(loadAnalysisOptions);
+
+  const { coordinates, status: locationStatus, error: locationError } = useGeolocation(locationSettings);
   const isMobile = useIsMobile();
+  const { entries: historyEntries, error: historyError, addEntry: addHistoryEntry, removeEntry: removeHistoryEntry } = useAnalysisHistory();
+  const [showHistory, setShowHistory] = useState<boolean>(false);
   const [mobileView, setMobileView] = useState<'upload' | 'result'>('upload');
-  const progressIntervalRef = useRef<number | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Speech has its own controller so switching language tabs never cancels an analysis.
+  const audioAbortRef = useRef<AbortController | null>(null);
+  const urlAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     const savedKey = localStorage.getItem(API_KEY_STORAGE_KEY);
     if (savedKey) {
       setApiKey(savedKey);
-    } else {
+    } else if (providerNeedsApiKey(loadProviderSettings())) {
       setShowApiKeyModal(true);
     }
   }, []);
 
   useEffect(() => {
-    if (geoError) {
-      console.warn("Geolocation error:", geoError);
+    if (!file) {
+      setMediaMetadata(null);
+      return;
+    }
+    let cancelled = false;
+    readMediaMetadata(file).then(metadata => {
+      if (!cancelled) setMediaMetadata(metadata);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const handleSkipModelWithGpsChange = (value: boolean) => {
+    setSkipModelWithGps(value);
+    localStorage.setItem(SKIP_MODEL_WITH_GPS_STORAGE_KEY, String(value));
+  };
+
+  const handleUseVideoTimelineChange = (value: boolean) => {
+    setUseVideoTimeline(value);
+    localStorage.setItem(VIDEO_TIMELINE_STORAGE_KEY, String(value));
+  };
+
+  const handleResultLanguagesChange = (languages: Language[]) => {
+    setResultLanguages(languages);
+    localStorage.setItem(RESULT_LANGUAGES_STORAGE_KEY, JSON.stringify(languages));
+  };
+
+  const handleAnalysisOptionsChange = (options: AnalysisOptions) => {
+    setAnalysisOptions(options);
+    localStorage.setItem(ANALYSIS_OPTIONS_STORAGE_KEY, JSON.stringify({ mode: options.mode, detail: options.detail }));
+  };
+
+  const handleLocationSettingsChange = (settings: LocationSettings) => {
+    setLocationSettings(settings);
+    localStorage.setItem(LOCATION_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  };
+
+  const handleSaveSettings = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+    setShowSettings(false);
+    if (providerNeedsApiKey(settings) && !apiKey) {
+      setShowApiKeyModal(true);
     }
-  }, [geoError]);
+  };
 
   const handleSaveApiKey = (key: string) => {
     setApiKey(key);
@@ -56,16 +220,29 @@ const App: React.FC = () => {
   const resetState = () => {
     setFile(null);
     setFilePreview(null);
+    setHistoryFileName(null);
     setAnalysisResult(null);
-    setAudioData(null);
+    setCacheKey(null);
+    setCachedAt(null);
+    setAudioClips({});
+    setChatMessages([]);
     setError(null);
+    setShowRawText(false);
     setAudioError(null);
     setIsLoading(false);
-    setIsGeneratingAudio(false);
-    setAnalysisProgress(0);
-    if (progressIntervalRef.current) {
-      clearInterval(progressIntervalRef.current);
-    }
+    setGeneratingAudioFor(null);
+    setAnalysisProgress({ stage: 'uploading' });
+    setMediaInfo(null);
+    setRegions([]);
+    setHistoryEntryId(null);
+    setInputError(null);
+    setIsLoadingUrl(false);
+    urlAbortRef.current?.abort();
+    urlAbortRef.current = null;
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    audioAbortRef.current?.abort();
+    audioAbortRef.current = null;
   }
 
   const handleStartNewAnalysis = () => {
@@ -83,91 +260,446 @@ const App: React.FC = () => {
     }
   };
 
-  const handleAnalyzeClick = useCallback(async () => {
-    if (!apiKey) {
+  // Camera shots, pasted images and downloaded links all end up here, just like a picked file.
+  const handleInputFile = (selectedFile: File) => {
+    handleFileChange(selectedFile);
+    if (isMobile) {
+      setMobileView('upload');
+    }
+  };
+
+  const handleUrlSubmit = async (url: string) => {
+    urlAbortRef.current?.abort();
+    const controller = new AbortController();
+    urlAbortRef.current = controller;
+    setIsLoadingUrl(true);
+    setInputError(null);
+    // Progress and errors are shown next to the upload box.
+    if (isMobile) {
+      setMobileView('upload');
+    }
+    try {
+      const downloaded = await fetchMediaFromUrl(url, controller.signal);
+      if (!controller.signal.aborted) handleInputFile(downloaded);
+    } catch (urlErr) {
+      console.error("Failed to load media from a link:", urlErr);
+      if (!isAbortError(urlErr) && !controller.signal.aborted) {
+        setInputError(urlErr instanceof Error ? urlErr : new LocalizedError('errors.urlFetchFailed'));
+      }
+    } finally {
+      if (urlAbortRef.current === controller) {
+        urlAbortRef.current = null;
+        setIsLoadingUrl(false);
+      }
+    }
+  };
+
+  useClipboardPaste({
+    // A paste must not throw away a running analysis or batch.
+    enabled: !isLoading && !batchFiles && !compareMode,
+    onFile: handleInputFile,
+    onUrl: handleUrlSubmit,
+  });
+
+  const handleFilesChange = (selectedFiles: File[]) => {
+    if (selectedFiles.length === 0) return;
+    if (selectedFiles.length === 1) {
+      handleFileChange(selectedFiles[0]);
+      return;
+    }
+    resetState();
+    setBatchFiles(selectedFiles);
+  };
+
+  const saveToHistory = useCallback(async (sourceFile: File, result: AnalysisResult, cacheKey?: string) => {
+    try {
+      const [fileHash, thumbnail] = await Promise.all([
+        hashFile(sourceFile),
+        createThumbnail(sourceFile).catch(() => null),
+      ]);
+      const id = crypto.randomUUID();
+      setHistoryEntryId(id);
+      await addHistoryEntry({
+        id,
+        createdAt: Date.now(),
+        fileName: sourceFile.name,
+        mimeType: sourceFile.type,
+        fileHash,
+        thumbnail,
+        result,
+        audioClips: {},
+        chat: [],
+        cacheKey,
+      });
+    } catch (err) {
+      console.error("Failed to save analysis to history:", err);
+    }
+  }, [addHistoryEntry]);
+
+  const handleSelectHistoryEntry = (entry: HistoryEntry) => {
+    resetState();
+    setFilePreview(entry.thumbnail);
+    setHistoryFileName(entry.fileName);
+    setAnalysisResult(entry.result);
+    setAudioClips(entry.audioClips);
+    setChatMessages(entry.chat);
+    setHistoryEntryId(entry.id);
+    setShowHistory(false);
+    if (isMobile) setMobileView('result');
+  };
+
+  const runAnalysis = useCallback(async ({ compress = false, bypassCache = false }: { compress?: boolean, bypassCache?: boolean } = {}) => {
+    // The file already carries its position, so there is nothing to pay the model for.
+    const useEmbeddedGps = skipModelWithGps && hasGps(mediaMetadata);
+    if (!useEmbeddedGps && needsApiKey && !apiKey) {
       setShowApiKeyModal(true);
-      setError('Please set your Gemini API key first.');
+      setError(new InvalidApiKeyError(true));
       return;
     }
     if (!file) {
-      setError('Please upload a file first.');
+      setError(new LocalizedError('errors.uploadFirst'));
       return;
     }
     
     // Clear previous results and errors before starting a new analysis
     setAnalysisResult(null);
-    setAudioData(null);
+    setCacheKey(null);
+    setCachedAt(null);
+    setAudioClips({});
+    setChatMessages([]);
     setError(null);
+    setShowRawText(false);
     setAudioError(null);
-    setAnalysisProgress(0);
-    if (progressIntervalRef.current) {
-      clearInterval(progressIntervalRef.current);
-    }
+    setAnalysisProgress({ stage: 'uploading' });
+    setMediaInfo(null);
+    audioAbortRef.current?.abort();
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     setIsLoading(true);
-    setLoadingMessage('Analyzing media...');
     if(isMobile) setMobileView('result');
 
-    progressIntervalRef.current = window.setInterval(() => {
-        setAnalysisProgress(prev => Math.min(prev + 5, 90));
-    }, 500);
+    const backoff = {
+      retries: TRANSIENT_RETRIES,
+      signal: controller.signal,
+      shouldRetry: isTransientError,
+      retryAfterMs: retryAfterOf,
+      onRetry: (attempt: number, delayMs: number) => setAnalysisProgress(prev => ({ ...prev, retry: { attempt, inSeconds: Math.ceil(delayMs / 1000) } })),
+    };
+    // Timeline frames go through here too, so every request carries the chosen mode.
+    const analyze = (request: AnalyzeMediaRequest) =>
+      withBackoff<AnalysisResult>(() => providers.location.analyzeMedia({ ...request, options: analysisOptions }), backoff);
+
+    const isVideo = file.type.startsWith('video/');
+    const useTimeline = isVideo && useVideoTimeline && !!filePreview;
+    const cacheKeyFor = (mediaHash: string) => analysisCacheKey({
+      mediaHash,
+      model: analysisModelId(providerSettings, isVideo, analysisOptions.mode),
+      languages: resultLanguages,
+      regions: file.type.startsWith('image/') ? regions : [],
+      timeline: useTimeline,
+      options: analysisOptions,
+    });
+    // Shows a cached answer, speech included, and reports whether there was one.
+    const showCached = async (key: string): Promise<boolean> => {
+      if (bypassCache) return false;
+      const cached = await getCachedAnalysis(key).catch(cacheErr => {
+        console.error("Failed to read the result cache:", cacheErr);
+        return null;
+      });
+      if (!cached || controller.signal.aborted) return false;
+      setAnalysisResult(cached.result);
+      setCacheKey(key);
+      setCachedAt(cached.createdAt);
+      setIsLoading(false);
+      const existing = historyEntries.find(entry => entry.cacheKey === key);
+      if (existing) {
+        // Reopen the entry with its chat and speech, moved to the top, rather than adding a copy.
+        setAudioClips({ ...cached.audioClips, ...existing.audioClips });
+        setChatMessages(existing.chat);
+        setHistoryEntryId(existing.id);
+        await addHistoryEntry({ ...existing, createdAt: Date.now() });
+      } else {
+        setAudioClips(cached.audioClips);
+        await saveToHistory(file, cached.result, key);
+      }
+      return true;
+    };
 
     try {
-      const { base64, mimeType } = await fileToBase64(file);
-      const result = await analyzeMedia(apiKey, base64, mimeType, coordinates as GeolocationCoordinates);
+      if (useEmbeddedGps && hasGps(mediaMetadata)) {
+        const result = await withBackoff(() => resultFromMetadata(mediaMetadata, resultLanguages, controller.signal), backoff);
+        setAnalysisResult(result);
+        setIsLoading(false);
+        await saveToHistory(file, result);
+        return;
+      }
+
+      let result: AnalysisResult;
+      let key: string;
+      if (useTimeline) {
+        // The timeline sends frames rather than the file, so the file itself is what gets hashed.
+        key = await cacheKeyFor(await hashFile(file));
+        if (await showCached(key)) return;
+        result = await analyzeVideoTimeline({
+          provider: { ...providers.location, analyzeMedia: analyze },
+          src: filePreview,
+          languages: resultLanguages,
+          coordinates,
+          metadata: mediaMetadata,
+          signal: controller.signal,
+          onProgress: setAnalysisProgress,
+        });
+      } else {
+        const [{ media, info }, markedRegions] = await Promise.all([
+          prepareMedia(file, mediaMetadata, compress ? COMPRESSED_MEDIA : undefined),
+          regions.length > 0 && file.type.startsWith('image/') ? cropRegions(file, regions) : undefined,
+        ]);
+        setMediaInfo(info);
+        key = await cacheKeyFor(await hashPreparedMedia(media));
+        if (await showCached(key)) return;
+        result = await analyze({
+          media,
+          languages: resultLanguages,
+          regions: markedRegions,
+          coordinates: coordinates as GeolocationCoordinates,
+          metadata: mediaMetadata,
+          signal: controller.signal,
+          onProgress: setAnalysisProgress,
+        });
+      }
       
-      if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
-      setAnalysisProgress(100);
       setAnalysisResult(result);
       setIsLoading(false);
 
-      setIsGeneratingAudio(true);
-      try {
-        const textToSpeak = ttsLanguage === 'en' ? result.en : result.ru;
-        const audio = await generateAudio(apiKey, textToSpeak);
-        setAudioData(audio);
-      } catch (audioErr) {
-        console.error("Audio generation failed:", audioErr);
-        setAudioError(audioErr instanceof Error ? audioErr.message : 'Failed to generate audio.');
-      } finally {
-        setIsGeneratingAudio(false);
-      }
+      await putCachedAnalysis(key, result).catch(cacheErr => console.error("Failed to cache the analysis:", cacheErr));
+      if (!controller.signal.aborted) setCacheKey(key);
+      await saveToHistory(file, result, key);
 
     } catch (analysisErr) {
-      if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
       console.error("Analysis failed:", analysisErr);
-      setError(analysisErr instanceof Error ? analysisErr.message : 'An unknown error occurred during analysis.');
+      // Cancelling is not a failure: resetState has already put the UI back.
+      if (isAbortError(analysisErr) || controller.signal.aborted) return;
+      setError(analysisErr instanceof Error ? analysisErr : new LocalizedError('errors.unknown'));
       setIsLoading(false);
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
+  }, [file, apiKey, needsApiKey, providers, coordinates, isMobile, mediaMetadata, skipModelWithGps, useVideoTimeline, filePreview, resultLanguages, regions, saveToHistory, historyEntries, addHistoryEntry, providerSettings, analysisOptions]);
+
+  const handleAnalyzeClick = () => {
+    runAnalysis();
+  };
+
+  const handleTranslate = useCallback(async (language: Language) => {
+    if (!analysisResult) return;
+    // Translate from English when we have it; it is what the model writes most reliably.
+    const sourceOf = (descriptions: AnalysisResult['descriptions']) =>
+      descriptions.en !== undefined ? 'en' : describedLanguages(descriptions)[0];
+    const translateDescriptions = async (descriptions: AnalysisResult['descriptions']) => {
+      const from = sourceOf(descriptions);
+      if (!from) return descriptions;
+      const text = await providers.translation.translate({ text: descriptions[from] ?? '', from, to: language });
+      return { ...descriptions, [language]: text };
+    };
+
+    const [descriptions, timeline] = await Promise.all([
+      translateDescriptions(analysisResult.descriptions),
+      analysisResult.timeline && Promise.all(analysisResult.timeline.map(async segment => ({
+        ...segment,
+        descriptions: await translateDescriptions(segment.descriptions),
+      }))),
+    ]);
+    const updated: AnalysisResult = { ...analysisResult, descriptions, ...(timeline && { timeline }) };
+    setAnalysisResult(updated);
+
+    const entry = historyEntries.find(e => e.id === historyEntryId);
+    if (entry) {
+      await addHistoryEntry({ ...entry, result: updated });
+    }
+    if (cacheKey) {
+      await updateCachedResult(cacheKey, updated).catch(err => console.error("Failed to cache the translation:", err));
+    }
+  }, [analysisResult, providers, historyEntries, historyEntryId, addHistoryEntry, cacheKey]);
+
+  const handleRequestAudio = useCallback(async (language: Language) => {
+    const text = analysisResult?.descriptions[language];
+    if (!text || !LOCALES[language].speech) return;
+    audioAbortRef.current?.abort();
+    const controller = new AbortController();
+    audioAbortRef.current = controller;
+    setGeneratingAudioFor(language);
+    setAudioError(null);
+    try {
+      const audio = await providers.speech.generateAudio({ text, language, signal: controller.signal });
+      if (!controller.signal.aborted) {
+        setAudioClips(prev => ({ ...prev, [language]: audio }));
+      }
+    } catch (audioErr) {
+      console.error("Audio generation failed:", audioErr);
+      if (!isAbortError(audioErr) && !controller.signal.aborted) {
+        setAudioError(audioErr instanceof Error ? audioErr : new LocalizedError('errors.audioFailed'));
+      }
+    } finally {
+      if (audioAbortRef.current === controller) {
+        audioAbortRef.current = null;
+        setGeneratingAudioFor(null);
+      }
+    }
+  }, [analysisResult, providers]);
+
+  // Clips and chat turns arrive after the entry is first saved, so keep the stored entry in step with them.
+  useEffect(() => {
+    const entry = historyEntries.find(e => e.id === historyEntryId);
+    if (!entry) return;
+    const languages = Object.keys(audioClips) as Language[];
+    const clipsSaved = languages.every(code => entry.audioClips[code] === audioClips[code]);
+    const chatSaved = entry.chat.length === chatMessages.length && entry.chat.every((message, i) => message.id === chatMessages[i].id);
+    if (clipsSaved && chatSaved) return;
+    addHistoryEntry({ ...entry, audioClips: { ...entry.audioClips, ...audioClips }, chat: chatMessages });
+  }, [audioClips, chatMessages, historyEntries, historyEntryId, addHistoryEntry]);
+
+  useEffect(() => {
+    if (!cacheKey || Object.keys(audioClips).length === 0) return;
+    updateCachedAudio(cacheKey, audioClips).catch(err => console.error("Failed to cache generated speech:", err));
+  }, [cacheKey, audioClips]);
+
+  // History entries keep only a thumbnail, which is still enough for questions about what is visible.
+  const loadChatMedia = useCallback(async (): Promise<PreparedMedia | null> => {
+    if (file) {
+      const { media } = await prepareMedia(file, mediaMetadata);
+      return media;
     }
-  }, [file, apiKey, coordinates, ttsLanguage, isMobile]);
+    return filePreview ? dataUrlToMedia(filePreview) : null;
+  }, [file, mediaMetadata, filePreview]);
+
+  const handleCancelAnalysis = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setIsLoading(false);
+    setAnalysisProgress({ stage: 'uploading' });
+    if (isMobile) setMobileView('upload');
+  };
+
+  const handleCancelAudio = () => {
+    audioAbortRef.current?.abort();
+    audioAbortRef.current = null;
+    setGeneratingAudioFor(null);
+  };
+
+  // Retrying and compressing need the original file, which entries opened from history do not have.
+  const errorActions = recoveryActionsFor(error).filter(action =>
+    (action !== 'retry' || file !== null) && (action !== 'compress' || file?.type.startsWith('image/'))
+  );
+
+  const languagePicker = (
+    <div>
+      <p className="flex items-center gap-2 text-md font-medium text-gray-300 mb-2">
+        <Languages size={20} className="text-blue-400" />
+        {t('app.resultLanguages')}
+      </p>
+      <LanguagePicker selected={resultLanguages} onChange={handleResultLanguagesChange} disabled={isLoading} />
+    </div>
+  );
+
+  const locationControl = (
+    <LocationControl
+      settings={locationSettings}
+      onChange={handleLocationSettingsChange}
+      coordinates={coordinates}
+      status={locationStatus}
+      error={locationError}
+      disabled={isLoading}
+    />
+  );
 
   const uploadSection = (
       <div className="flex flex-col gap-6">
-        <FileUpload onFileChange={handleFileChange} filePreview={filePreview} fileType={file?.type} />
+        <FileUpload
+          onFileChange={handleFileChange}
+          onFilesChange={handleFilesChange}
+          filePreview={filePreview}
+          fileType={file?.type}
+          regions={regions}
+          onRegionsChange={file && !isLoading ? setRegions : undefined}
+          onUrlSubmit={handleUrlSubmit}
+          isLoadingUrl={isLoadingUrl}
+          inputError={inputError}
+        />
+
+        <button
+          onClick={() => setCompareMode(true)}
+          disabled={isLoading}
+          className="self-start flex items-center gap-2 text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50"
+        >
+          <GitCompare size={16} />
+          {t('compare.open')}
+        </button>
+
+        {hasGps(mediaMetadata) && (
+          <div className="bg-green-900/20 border border-green-500/40 rounded-lg p-3 text-sm space-y-2">
+            <p className="flex items-center gap-2 text-green-300">
+              <Crosshair size={16} />
+              {t('app.gpsFound', { latitude: mediaMetadata.gps.latitude.toFixed(5), longitude: mediaMetadata.gps.longitude.toFixed(5) })}
+            </p>
+            <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={skipModelWithGps}
+                onChange={(e) => handleSkipModelWithGpsChange(e.target.checked)}
+                disabled={isLoading}
+                className="accent-blue-500"
+              />
+              {t('app.useEmbeddedGps')}
+            </label>
+            {skipModelWithGps && <p className="text-xs text-gray-400">{t('app.useEmbeddedGpsHint')}</p>}
+          </div>
+        )}
+
+        {mediaInfo && (
+          <p className="text-xs text-gray-400">
+            {mediaInfo.path === 'downscaled'
+              ? t('app.media.downscaled', { width: mediaInfo.width, height: mediaInfo.height, size: formatBytes(mediaInfo.uploadBytes), original: formatBytes(mediaInfo.originalBytes) })
+              : mediaInfo.path === 'file-upload'
+                ? t('app.media.fileUpload', { size: formatBytes(mediaInfo.uploadBytes) })
+                : t('app.media.original', { size: formatBytes(mediaInfo.uploadBytes) })}
+          </p>
+        )}
+
+        {file?.type.startsWith('video/') && (
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={useVideoTimeline}
+              onChange={(e) => handleUseVideoTimelineChange(e.target.checked)}
+              disabled={isLoading}
+              className="accent-blue-500"
+            />
+            {t('app.videoTimeline')}
+          </label>
+        )}
         
         <div>
-          <label htmlFor="tts-lang" className="flex items-center gap-2 text-md font-medium text-gray-300 mb-2">
-            <Languages size={20} className="text-blue-400" />
-            Select Audio Language
-          </label>
-          <select
-            id="tts-lang"
-            value={ttsLanguage}
-            onChange={(e) => setTtsLanguage(e.target.value as Language)}
-            disabled={isLoading || isGeneratingAudio}
-            className="w-full bg-gray-700 border border-gray-600 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-200"
-          >
-            <option value="en">English</option>
-            <option value="ru">Русский (Russian)</option>
-          </select>
+          <p className="flex items-center gap-2 text-md font-medium text-gray-300 mb-2">
+            <SlidersHorizontal size={20} className="text-blue-400" />
+            {t('mode.title')}
+          </p>
+          <ModePicker options={analysisOptions} onChange={handleAnalysisOptionsChange} disabled={isLoading} />
         </div>
 
+        {languagePicker}
+
+        {locationControl}
+
         <button
           onClick={handleAnalyzeClick}
-          disabled={!file || isLoading || isGeneratingAudio}
+          disabled={!file || isLoading}
           className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-bold py-3 px-4 rounded-lg shadow-lg transform transition-transform duration-200 hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:scale-100"
         >
-          {isLoading ? 'Analyzing...' : isGeneratingAudio ? 'Generating Audio...' : 'Discover Location'}
+          {isLoading ? t('app.analyzing') : t('app.discover')}
         </button>
       </div>
   );
@@ -180,35 +712,96 @@ const App: React.FC = () => {
                 className="flex items-center gap-2 mb-4 text-blue-400 hover:text-blue-300"
             >
                 <ArrowLeft size={18} />
-                Start New Analysis
+                {t('app.startNew')}
             </button>
         )}
         <div className="flex-grow">
           {isLoading ? (
-            <Loader message={loadingMessage} progress={analysisProgress} />
+            <Loader
+              stage={analysisProgress.stage}
+              progress={progressPercent(analysisProgress)}
+              partialText={analysisProgress.partialText}
+              language={resultLanguages[0]}
+              frame={analysisProgress.frame}
+              upload={analysisProgress.upload}
+              retry={analysisProgress.retry}
+              onCancel={handleCancelAnalysis}
+            />
           ) : error ? (
             <div className="flex flex-col items-center justify-center h-full bg-red-900/20 border border-red-500/50 rounded-lg p-4 text-center">
-              <p className="text-red-400">{error}</p>
-              {(error.includes("API key") || error.includes("API Key")) && (
-                 <button 
-                    onClick={() => setShowApiKeyModal(true)} 
-                    className="mt-4 bg-yellow-500 text-black font-bold py-2 px-4 rounded-lg flex items-center gap-2 hover:bg-yellow-600"
-                >
+              <p className="text-red-400">{describeError(error, t)}</p>
+              <div className="flex flex-wrap justify-center gap-2 mt-4">
+                {errorActions.includes('changeKey') && (
+                  <button
+                    onClick={() => setShowApiKeyModal(true)}
+                    className="bg-yellow-500 text-black font-bold py-2 px-4 rounded-lg flex items-center gap-2 hover:bg-yellow-600"
+                  >
                     <KeyRound size={18} />
-                    Update API Key
-                </button>
+                    {t('app.updateApiKey')}
+                  </button>
+                )}
+                {errorActions.includes('compress') && (
+                  <button
+                    onClick={() => runAnalysis({ compress: true })}
+                    className="bg-blue-500 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2 hover:bg-blue-600"
+                  >
+                    <Minimize2 size={18} />
+                    {t('app.recovery.compress')}
+                  </button>
+                )}
+                {errorActions.includes('retry') && (
+                  <button
+                    onClick={handleAnalyzeClick}
+                    className="bg-gray-700 text-gray-200 py-2 px-4 rounded-lg flex items-center gap-2 hover:bg-gray-600"
+                  >
+                    <RotateCw size={18} />
+                    {t('app.recovery.retry')}
+                  </button>
+                )}
+                {errorActions.includes('showRawText') && (
+                  <button
+                    onClick={() => setShowRawText(prev => !prev)}
+                    className="bg-gray-700 text-gray-200 py-2 px-4 rounded-lg flex items-center gap-2 hover:bg-gray-600"
+                    aria-expanded={showRawText}
+                  >
+                    <FileText size={18} />
+                    {showRawText ? t('app.recovery.hideRawText') : t('app.recovery.showRawText')}
+                  </button>
+                )}
+              </div>
+              {showRawText && error instanceof UnparseableResponseError && (
+                <pre className="mt-4 w-full max-h-48 overflow-auto text-left text-xs text-gray-300 bg-gray-900 rounded-lg p-3 whitespace-pre-wrap">{error.rawText}</pre>
               )}
             </div>
           ) : analysisResult ? (
-            <ResultCard
-              result={analysisResult}
-              audioData={audioData}
-              isGeneratingAudio={isGeneratingAudio}
-              audioError={audioError}
-            />
+            <div className="flex flex-col gap-4 h-full">
+              <ResultCard
+                result={analysisResult}
+                audioClips={audioClips}
+                generatingAudioFor={generatingAudioFor}
+                audioError={audioError}
+                // Results read from file metadata never went through a model, so they get no paid speech either.
+                onRequestAudio={analysisResult.fromMetadata ? undefined : handleRequestAudio}
+                onCancelAudio={handleCancelAudio}
+                userCoordinates={coordinates}
+                fileName={file?.name ?? historyFileName ?? undefined}
+                previewSrc={file?.type.startsWith('video/') ? undefined : filePreview ?? undefined}
+                onTranslate={handleTranslate}
+                cachedAt={cachedAt}
+                onRerun={file && !isLoading ? () => runAnalysis({ bypassCache: true }) : undefined}
+              />
+              <ChatPanel
+                provider={providers.chat}
+                result={analysisResult}
+                loadMedia={loadChatMedia}
+                coordinates={coordinates}
+                messages={chatMessages}
+                onMessagesChange={setChatMessages}
+              />
+            </div>
           ) : (
               <div className="flex items-center justify-center h-full bg-gray-700/30 border-2 border-dashed border-gray-600 rounded-lg p-4">
-              <p className="text-center text-gray-400">Your analysis results will appear here.</p>
+              <p className="text-center text-gray-400">{t('app.placeholder')}</p>
             </div>
           )}
         </div>
@@ -218,28 +811,94 @@ const App: React.FC = () => {
   return (
     <>
       <ApiKeyModal isOpen={showApiKeyModal} onSave={handleSaveApiKey} />
+      <SettingsModal
+        isOpen={showSettings}
+        settings={providerSettings}
+        onSave={handleSaveSettings}
+        onClose={() => setShowSettings(false)}
+      />
+      <HistorySidebar
+        isOpen={showHistory}
+        entries={historyEntries}
+        error={historyError}
+        onClose={() => setShowHistory(false)}
+        onSelect={handleSelectHistoryEntry}
+        onDelete={removeHistoryEntry}
+      />
       <div className={`min-h-screen bg-gray-900 text-gray-100 flex flex-col items-center p-4 sm:p-6 lg:p-8 transition-filter duration-300 ${showApiKeyModal ? 'blur-sm' : ''}`}>
         <div className="w-full max-w-4xl mx-auto">
           <header className="flex justify-between items-center mb-8">
             <div className="text-left">
               <h1 className="text-4xl sm:text-5xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-500">
-                Geo-Locator AI
+                {t('app.title')}
               </h1>
               <p className="mt-2 text-lg text-gray-400">
-                Upload a photo or video to discover its location and story.
+                {t('app.subtitle')}
               </p>
             </div>
-             <button
+            <div className="flex items-center gap-2">
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as UiLocale)}
+                className="bg-gray-700 border border-gray-600 rounded-full py-2 px-3 text-sm text-gray-300 hover:bg-gray-600 transition"
+                aria-label={t('app.uiLanguage')}
+              >
+                {(Object.keys(UI_LOCALES) as UiLocale[]).map(code => (
+                  <option key={code} value={code}>{UI_LOCALES[code].nativeName}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setShowHistory(true)}
+                className="p-2 bg-gray-700 rounded-full text-gray-300 hover:bg-gray-600 hover:text-white transition"
+                aria-label={t('app.openHistory')}
+              >
+                <History size={20} />
+              </button>
+              <button
+                onClick={() => setShowSettings(true)}
+                className="p-2 bg-gray-700 rounded-full text-gray-300 hover:bg-gray-600 hover:text-white transition"
+                aria-label={t('app.openSettings')}
+              >
+                <Settings size={20} />
+              </button>
+              <button
                 onClick={() => setShowApiKeyModal(true)}
                 className="p-2 bg-gray-700 rounded-full text-gray-300 hover:bg-gray-600 hover:text-white transition"
-                aria-label="Update API Key"
+                aria-label={t('app.updateApiKey')}
               >
                 <KeyRound size={20} />
               </button>
+            </div>
           </header>
 
           <main className="bg-gray-800/50 rounded-2xl shadow-2xl p-6 backdrop-blur-sm border border-gray-700">
-            {isMobile ? (
+            {batchFiles ? (
+              <div className="flex flex-col gap-6">
+                {languagePicker}
+                {locationControl}
+                <BatchPanel
+                  initialFiles={batchFiles}
+                  locationProvider={providers.location}
+                  coordinates={coordinates}
+                  languages={resultLanguages}
+                  analysisOptions={analysisOptions}
+                  skipModelWithGps={skipModelWithGps}
+                  onExit={() => setBatchFiles(null)}
+                />
+              </div>
+            ) : compareMode ? (
+              <div className="flex flex-col gap-6">
+                {languagePicker}
+                {locationControl}
+                <ComparePanel
+                  provider={providers.comparison}
+                  coordinates={coordinates}
+                  languages={resultLanguages}
+                  mode={analysisOptions.mode}
+                  onExit={() => setCompareMode(false)}
+                />
+              </div>
+            ) : isMobile ? (
               mobileView === 'upload' ? uploadSection : resultSection
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
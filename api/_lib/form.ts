@@ -0,0 +1,40 @@
+import type { GeolocationCoordinates, Language } from '../../types';
+import { isLanguage } from '../../services/locales';
+import { HttpError } from './http';
+
+export const ALLOWED_TYPES = [
+    'image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif', 'image/gif',
+    'video/mp4', 'video/quicktime', 'video/webm',
+];
+
+/** Reads an uploaded media field, rejecting a missing file or a type the model cannot take. */
+export const readMediaFile = (form: FormData, field: string): Blob => {
+    const file = form.get(field);
+    if (!(file instanceof Blob)) {
+        throw new HttpError(400, 'bad_request', `The upload must contain a "${field}" field.`);
+    }
+    if (!ALLOWED_TYPES.includes(file.type)) {
+        throw new HttpError(415, 'unsupported_media_type', `Files of type "${file.type || 'unknown'}" are not supported.`);
+    }
+    return file;
+};
+
+export const readCoordinates = (form: FormData): GeolocationCoordinates | null => {
+    const latitude = Number(form.get('latitude'));
+    const longitude = Number(form.get('longitude'));
+    if (!form.has('latitude') || !form.has('longitude') || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+        return null;
+    }
+    return { latitude, longitude };
+};
+
+export const readLanguages = (form: FormData): Language[] | undefined => {
+    const value = form.get('languages');
+    if (typeof value !== 'string' || !value) return undefined;
+    const codes = value.split(',').map(code => code.trim());
+    const unknown = codes.filter(code => !isLanguage(code));
+    if (unknown.length > 0) {
+        throw new HttpError(400, 'bad_request', `Unsupported languages: ${unknown.join(', ')}.`);
+    }
+    return codes as Language[];
+};
@@ -0,0 +1,146 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { ProxyErrorBody, ProxyErrorCode } from '../../types';
+import { LocationSchemaError } from '../../services/locationSchema';
+import {
+    InvalidApiKeyError,
+    LocalizedError,
+    NoLocationError,
+    PayloadTooLargeError,
+    RateLimitError,
+    SafetyBlockError,
+    UnparseableResponseError,
+    UnsupportedMediaError,
+} from '../../services/errors';
+
+// Gemini does not say how long to wait after a 429; this keeps clients from retrying straight away.
+const UPSTREAM_RETRY_AFTER_SECONDS = 10;
+
+export class HttpError extends Error {
+    readonly status: number;
+    readonly code: ProxyErrorCode;
+    readonly details?: string[];
+    readonly rawText?: string;
+    // Sent as the Retry-After header, so clients can back off for as long as the server asks.
+    readonly retryAfterSeconds?: number;
+
+    constructor(status: number, code: ProxyErrorCode, message: string, details?: string[], rawText?: string, retryAfterSeconds?: number) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+        this.code = code;
+        this.details = details;
+        this.rawText = rawText;
+        this.retryAfterSeconds = retryAfterSeconds;
+    }
+}
+
+export const sendError = (res: VercelResponse, error: HttpError) => {
+    const body: ProxyErrorBody = {
+        error: {
+            code: error.code,
+            message: error.message,
+            ...(error.details && { details: error.details }),
+            ...(error.rawText !== undefined && { rawText: error.rawText }),
+        },
+    };
+    if (error.retryAfterSeconds !== undefined) {
+        res.setHeader('Retry-After', String(error.retryAfterSeconds));
+    }
+    res.status(error.status).json(body);
+};
+
+/**
+ * Sends the response for anything a route throws. Typed provider errors get
+ * the status and code the proxy provider turns back into the same error;
+ * anything else is logged and answered with `failure`, so internal messages
+ * stay on the server.
+ */
+export const sendRouteError = (res: VercelResponse, error: unknown, failure: string) => {
+    if (error instanceof HttpError) {
+        sendError(res, error);
+    } else if (error instanceof RateLimitError) {
+        const retryAfterSeconds = error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : UPSTREAM_RETRY_AFTER_SECONDS;
+        sendError(res, new HttpError(429, 'rate_limited', error.message, undefined, undefined, retryAfterSeconds));
+    } else if (error instanceof UnparseableResponseError) {
+        const issues = error instanceof LocationSchemaError ? error.issues : undefined;
+        sendError(res, new HttpError(502, 'invalid_model_response', error.message, issues, error.rawText));
+    } else if (error instanceof NoLocationError) {
+        sendError(res, new HttpError(422, 'no_location', error.message));
+    } else if (error instanceof SafetyBlockError) {
+        sendError(res, new HttpError(422, 'safety_blocked', error.message));
+    } else if (error instanceof PayloadTooLargeError) {
+        sendError(res, new HttpError(413, 'payload_too_large', error.message));
+    } else if (error instanceof UnsupportedMediaError) {
+        sendError(res, new HttpError(415, 'unsupported_media_type', error.message));
+    } else if (error instanceof InvalidApiKeyError) {
+        // The key is the server's, so this is for the operator to fix, not the user.
+        console.error("Gemini rejected the server's API key:", error);
+        sendError(res, new HttpError(500, 'server_misconfigured', 'The server has an invalid Gemini API key configured.'));
+    } else {
+        console.error(`${failure}:`, error);
+        // Catalog errors are written for users; anything else may describe the server's internals.
+        sendError(res, new HttpError(502, 'upstream_error', error instanceof LocalizedError ? error.message : `${failure}.`));
+    }
+};
+
+export const assertMethod = (req: VercelRequest, method: string) => {
+    if (req.method !== method) {
+        throw new HttpError(405, 'method_not_allowed', `Only ${method} requests are supported.`);
+    }
+};
+
+/** Identifies the caller for rate limiting; behind Vercel the first forwarded address is the client. */
+export const getClientId = (req: VercelRequest): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+    return first || req.socket.remoteAddress || 'unknown';
+};
+
+/** Reads the raw request body, failing as soon as it grows past `maxBytes`. */
+export const readRawBody = (req: VercelRequest, maxBytes: number): Promise<Buffer> => {
+    const declared = Number(req.headers['content-length']);
+    if (declared > maxBytes) {
+        return Promise.reject(new HttpError(413, 'payload_too_large', `Uploads are limited to ${Math.floor(maxBytes / (1024 * 1024))} MB.`));
+    }
+
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+                req.destroy();
+                reject(new HttpError(413, 'payload_too_large', `Uploads are limited to ${Math.floor(maxBytes / (1024 * 1024))} MB.`));
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+};
+
+/** Parses a multipart/form-data body with the platform's built-in Fetch API parser. */
+export const parseMultipart = async (req: VercelRequest, body: Buffer): Promise<FormData> => {
+    const contentType = req.headers['content-type'] ?? '';
+    if (!contentType.startsWith('multipart/form-data')) {
+        throw new HttpError(400, 'bad_request', 'Expected a multipart/form-data upload.');
+    }
+    try {
+        return await new Request('http://localhost', {
+            method: 'POST',
+            headers: { 'content-type': contentType },
+            body,
+        }).formData();
+    } catch {
+        throw new HttpError(400, 'bad_request', 'The multipart body could not be parsed.');
+    }
+};
+
+export const getApiKey = (): string => {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+        throw new HttpError(500, 'server_misconfigured', 'The server has no Gemini API key configured.');
+    }
+    return apiKey;
+};
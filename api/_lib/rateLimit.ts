@@ -0,0 +1,39 @@
+import { HttpError } from './http';
+
+interface RateLimiterOptions {
+    windowMs: number;
+    max: number;
+}
+
+/**
+ * Fixed-window request counter per client. State lives in the function instance,
+ * so the limit applies per warm instance rather than globally.
+ */
+export const createRateLimiter = ({ windowMs, max }: RateLimiterOptions) => {
+    const windows = new Map<string, { start: number, count: number }>();
+    let lastSweep = Date.now();
+
+    // Forgets clients whose window has ended, at most once per window, so the map only holds recent callers.
+    const sweep = (now: number) => {
+        if (now - lastSweep < windowMs) return;
+        lastSweep = now;
+        for (const [clientId, window] of windows) {
+            if (now - window.start >= windowMs) windows.delete(clientId);
+        }
+    };
+
+    return (clientId: string) => {
+        const now = Date.now();
+        sweep(now);
+        const current = windows.get(clientId);
+        if (!current || now - current.start >= windowMs) {
+            windows.set(clientId, { start: now, count: 1 });
+            return;
+        }
+        current.count++;
+        if (current.count > max) {
+            const retryAfterSeconds = Math.ceil((current.start + windowMs - now) / 1000);
+            throw new HttpError(429, 'rate_limited', `Too many requests. Try again in ${retryAfterSeconds} seconds.`, undefined, undefined, retryAfterSeconds);
+        }
+    };
+};
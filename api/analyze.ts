@@ -0,0 +1,129 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { AnalysisOptions, MediaMetadata, RegionOfInterest } from '../types';
+import type { MarkedRegion } from '../services/providers';
+import { createGeminiProvider } from '../services/geminiService';
+import { HttpError, assertMethod, getApiKey, getClientId, parseMultipart, readRawBody, sendRouteError } from './_lib/http';
+import { DETAIL_LEVELS, MAX_HINT_LENGTH, isAnalysisModeId } from '../services/analysisModes';
+import { readCoordinates, readLanguages, readMediaFile } from './_lib/form';
+import { createRateLimiter } from './_lib/rateLimit';
+
+// Vercel rejects request bodies above 4.5 MB, so the default stays below that.
+const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_MB || 4) * 1024 * 1024;
+
+const checkRateLimit = createRateLimiter({
+    windowMs: 60_000,
+    max: Number(process.env.ANALYZE_RATE_LIMIT_PER_MINUTE || 10),
+});
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOptional = <T>(value: unknown, check: (value: unknown) => value is T): boolean => value === undefined || check(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// The prompt formats these fields directly, so anything the EXIF reader could not have produced is rejected.
+const readMetadata = (form: FormData): MediaMetadata | null => {
+    const value = form.get('metadata');
+    if (typeof value !== 'string' || !value) return null;
+    let metadata: MediaMetadata;
+    try {
+        metadata = JSON.parse(value);
+    } catch {
+        throw new HttpError(400, 'bad_request', 'The "metadata" field must be JSON.');
+    }
+    const gps = metadata?.gps;
+    const valid = typeof metadata === 'object' && metadata !== null && !Array.isArray(metadata)
+        && (gps === undefined || (
+            isFiniteNumber(gps?.latitude) && Math.abs(gps.latitude) <= 90
+            && isFiniteNumber(gps.longitude) && Math.abs(gps.longitude) <= 180
+            && isOptional(gps.altitude, isFiniteNumber)
+        ))
+        && isOptional(metadata.heading, isFiniteNumber) && isOptional(metadata.orientation, isFiniteNumber)
+        && isOptional(metadata.capturedAt, isString) && isOptional(metadata.make, isString) && isOptional(metadata.model, isString);
+    if (!valid) {
+        throw new HttpError(400, 'bad_request', '"metadata" must hold a numeric GPS position and heading and text capture time and camera fields.');
+    }
+    const { capturedAt, make, model, orientation, heading } = metadata;
+    return {
+        ...(gps && { gps: { latitude: gps.latitude, longitude: gps.longitude, ...(gps.altitude !== undefined && { altitude: gps.altitude }) } }),
+        ...(capturedAt !== undefined && { capturedAt }),
+        ...(make !== undefined && { make }),
+        ...(model !== undefined && { model }),
+        ...(orientation !== undefined && { orientation }),
+        ...(heading !== undefined && { heading }),
+    };
+};
+
+const readOptions = (form: FormData): AnalysisOptions | undefined => {
+    const value = form.get('options');
+    if (typeof value !== 'string' || !value) return undefined;
+    let options: AnalysisOptions;
+    try {
+        options = JSON.parse(value);
+    } catch {
+        throw new HttpError(400, 'bad_request', 'The "options" field must be JSON.');
+    }
+    if (!isAnalysisModeId(options?.mode) || !DETAIL_LEVELS.includes(options.detail) || typeof options.hint !== 'string' || options.hint.length > MAX_HINT_LENGTH) {
+        throw new HttpError(400, 'bad_request', `"options" must name a known mode and detail level, with a hint of up to ${MAX_HINT_LENGTH} characters.`);
+    }
+    return { mode: options.mode, detail: options.detail, hint: options.hint };
+};
+
+const MAX_REGIONS = 8;
+
+const isFraction = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+const readRegions = async (form: FormData): Promise<MarkedRegion[] | undefined> => {
+    const value = form.get('regions');
+    if (typeof value !== 'string' || !value) return undefined;
+    let regions: RegionOfInterest[];
+    try {
+        regions = JSON.parse(value);
+    } catch {
+        throw new HttpError(400, 'bad_request', 'The "regions" field must be JSON.');
+    }
+    const valid = Array.isArray(regions) && regions.length <= MAX_REGIONS && regions.every(region =>
+        typeof region?.id === 'string' && typeof region.note === 'string'
+        && isFraction(region.box?.x) && isFraction(region.box?.y) && isFraction(region.box?.width) && isFraction(region.box?.height)
+    );
+    if (!valid) {
+        throw new HttpError(400, 'bad_request', `"regions" must be an array of up to ${MAX_REGIONS} regions with fractional boxes.`);
+    }
+    return Promise.all(regions.map(async ({ id, box, note }, index) => {
+        const crop = form.get(`region-${index}`);
+        return {
+            id,
+            box,
+            note,
+            crop: crop instanceof Blob ? Buffer.from(await crop.arrayBuffer()).toString('base64') : null,
+        };
+    }));
+};
+
+/**
+ * POST /api/analyze — multipart form with a `file` field and optional
+ * `latitude`, `longitude`, `metadata` (JSON), `languages` (comma-separated
+ * codes), `regions` (JSON) and `options` (JSON: mode, detail, hint) fields,
+ * plus a `region-<n>` JPEG close-up per region. Responds with an AnalysisResult.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    try {
+        assertMethod(req, 'POST');
+        checkRateLimit(getClientId(req));
+        const apiKey = getApiKey();
+
+        const form = await parseMultipart(req, await readRawBody(req, MAX_UPLOAD_BYTES));
+        const file = readMediaFile(form, 'file');
+
+        const base64Data = Buffer.from(await file.arrayBuffer()).toString('base64');
+        const result = await createGeminiProvider(apiKey).analyzeMedia({
+            media: { kind: 'inline', base64Data, mimeType: file.type },
+            coordinates: readCoordinates(form),
+            metadata: readMetadata(form),
+            languages: readLanguages(form),
+            regions: await readRegions(form),
+            options: readOptions(form),
+        });
+        res.status(200).json(result);
+    } catch (error) {
+        sendRouteError(res, error, 'Analysis failed');
+    }
+}
@@ -0,0 +1,92 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { AnalysisResult, ChatMessage, GeolocationCoordinates, PreparedMedia } from '../types';
+import { createGeminiProvider } from '../services/geminiService';
+import { LocationSchemaError, parseLocationDetails } from '../services/locationSchema';
+import { HttpError, assertMethod, getApiKey, getClientId, parseMultipart, readRawBody, sendRouteError } from './_lib/http';
+import { readMediaFile } from './_lib/form';
+import { createRateLimiter } from './_lib/rateLimit';
+
+const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_MB || 4) * 1024 * 1024;
+const MAX_QUESTION_LENGTH = 2000;
+// Older turns add cost without changing the answer much.
+const MAX_HISTORY_MESSAGES = 40;
+
+const checkRateLimit = createRateLimiter({
+    windowMs: 60_000,
+    max: Number(process.env.CHAT_RATE_LIMIT_PER_MINUTE || 20),
+});
+
+interface ChatPayload {
+    result: AnalysisResult;
+    history: ChatMessage[];
+    question: string;
+    coordinates: GeolocationCoordinates | null;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCoordinates = (value: unknown): value is GeolocationCoordinates =>
+    isRecord(value)
+    && typeof value.latitude === 'number' && Number.isFinite(value.latitude) && Math.abs(value.latitude) <= 90
+    && typeof value.longitude === 'number' && Number.isFinite(value.longitude) && Math.abs(value.longitude) <= 180;
+
+const readPayload = (form: FormData): ChatPayload => {
+    const value = form.get('payload');
+    let payload: Partial<ChatPayload>;
+    try {
+        payload = JSON.parse(typeof value === 'string' ? value : '');
+    } catch {
+        throw new HttpError(400, 'bad_request', 'The "payload" field must be JSON.');
+    }
+    const { result, history = [], question, coordinates = null } = payload;
+    if (typeof question !== 'string' || !question.trim()) {
+        throw new HttpError(400, 'bad_request', 'The payload must contain a non-empty "question".');
+    }
+    if (question.length > MAX_QUESTION_LENGTH) {
+        throw new HttpError(413, 'payload_too_large', `Questions are limited to ${MAX_QUESTION_LENGTH} characters.`);
+    }
+    if (!isRecord(result) || !isRecord(result.descriptions) || Object.values(result.descriptions).some(text => typeof text !== 'string')) {
+        throw new HttpError(400, 'bad_request', 'The payload must contain the analysis "result" with text "descriptions".');
+    }
+    let location: AnalysisResult['location'];
+    try {
+        location = parseLocationDetails(result.location);
+    } catch (error) {
+        if (!(error instanceof LocationSchemaError)) throw error;
+        throw new HttpError(400, 'bad_request', 'The analysis "result" has an invalid "location".', error.issues);
+    }
+    if (!Array.isArray(history) || history.some(message => !isRecord(message) || (message.role !== 'user' && message.role !== 'model') || typeof message.text !== 'string')) {
+        throw new HttpError(400, 'bad_request', '"history" must be an array of chat messages.');
+    }
+    if (coordinates !== null && !isCoordinates(coordinates)) {
+        throw new HttpError(400, 'bad_request', '"coordinates" must hold a numeric latitude and longitude.');
+    }
+    return { result: { ...result, location }, history: history.slice(-MAX_HISTORY_MESSAGES), question, coordinates };
+};
+
+/**
+ * POST /api/chat — multipart form with a `payload` field (JSON with `result`,
+ * `history`, `question` and optional `coordinates`) and an optional `file`
+ * field holding the analyzed media. Responds with `{ "text": string, "sources": GroundingChunk[] }`.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    try {
+        assertMethod(req, 'POST');
+        checkRateLimit(getClientId(req));
+        const apiKey = getApiKey();
+
+        const form = await parseMultipart(req, await readRawBody(req, MAX_UPLOAD_BYTES));
+        const { result, history, question, coordinates } = readPayload(form);
+        // The file is optional: without it the model answers from the earlier analysis alone.
+        const file = form.has('file') ? readMediaFile(form, 'file') : null;
+        const media: PreparedMedia | null = file
+            ? { kind: 'inline', base64Data: Buffer.from(await file.arrayBuffer()).toString('base64'), mimeType: file.type }
+            : null;
+
+        const reply = await createGeminiProvider(apiKey).sendMessage({ media, result, history, question, coordinates });
+        res.status(200).json(reply);
+    } catch (error) {
+        sendRouteError(res, error, 'Chat failed');
+    }
+}
@@ -0,0 +1,57 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { AnalysisModeId, PreparedMedia } from '../types';
+import { createGeminiProvider } from '../services/geminiService';
+import { isAnalysisModeId } from '../services/analysisModes';
+import { HttpError, assertMethod, getApiKey, getClientId, parseMultipart, readRawBody, sendRouteError } from './_lib/http';
+import { readCoordinates, readLanguages, readMediaFile } from './_lib/form';
+import { createRateLimiter } from './_lib/rateLimit';
+
+// Both files share one request body, so the limit is the same as for a single analysis.
+const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_MB || 4) * 1024 * 1024;
+
+const checkRateLimit = createRateLimiter({
+    windowMs: 60_000,
+    max: Number(process.env.COMPARE_RATE_LIMIT_PER_MINUTE || 10),
+});
+
+const readMode = (form: FormData): AnalysisModeId | undefined => {
+    const value = form.get('mode');
+    if (value === null || value === '') return undefined;
+    if (!isAnalysisModeId(value)) {
+        throw new HttpError(400, 'bad_request', '"mode" must name a known analysis mode.');
+    }
+    return value;
+};
+
+const toInlineMedia = async (file: Blob): Promise<PreparedMedia> => ({
+    kind: 'inline',
+    base64Data: Buffer.from(await file.arrayBuffer()).toString('base64'),
+    mimeType: file.type,
+});
+
+/**
+ * POST /api/compare — multipart form with `file-a` and `file-b` fields and
+ * optional `latitude`, `longitude`, `languages` (comma-separated codes) and
+ * `mode` (an analysis mode id, choosing the model and tools) fields.
+ * Responds with a ComparisonResult.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    try {
+        assertMethod(req, 'POST');
+        checkRateLimit(getClientId(req));
+        const apiKey = getApiKey();
+
+        const form = await parseMultipart(req, await readRawBody(req, MAX_UPLOAD_BYTES));
+        const files = [readMediaFile(form, 'file-a'), readMediaFile(form, 'file-b')];
+
+        const result = await createGeminiProvider(apiKey).compareMedia({
+            media: [await toInlineMedia(files[0]), await toInlineMedia(files[1])],
+            coordinates: readCoordinates(form),
+            languages: readLanguages(form),
+            mode: readMode(form),
+        });
+        res.status(200).json(result);
+    } catch (error) {
+        sendRouteError(res, error, 'Comparison failed');
+    }
+}
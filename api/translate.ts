@@ -0,0 +1,40 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createGeminiProvider } from '../services/geminiService';
+import { isLanguage } from '../services/locales';
+import { HttpError, assertMethod, getApiKey, getClientId, sendRouteError } from './_lib/http';
+import { createRateLimiter } from './_lib/rateLimit';
+
+const MAX_TEXT_LENGTH = 5000;
+
+const checkRateLimit = createRateLimiter({
+    windowMs: 60_000,
+    max: Number(process.env.TRANSLATE_RATE_LIMIT_PER_MINUTE || 20),
+});
+
+/**
+ * POST /api/translate — JSON body `{ "text": string, "from": string, "to": string }`
+ * with registry language codes. Responds with `{ "text": string }`.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    try {
+        assertMethod(req, 'POST');
+        checkRateLimit(getClientId(req));
+        const apiKey = getApiKey();
+
+        const { text, from, to } = req.body ?? {};
+        if (typeof text !== 'string' || !text.trim()) {
+            throw new HttpError(400, 'bad_request', 'The request body must be JSON with a non-empty "text" field.');
+        }
+        if (!isLanguage(from) || !isLanguage(to)) {
+            throw new HttpError(400, 'bad_request', '"from" and "to" must be supported language codes.');
+        }
+        if (text.length > MAX_TEXT_LENGTH) {
+            throw new HttpError(413, 'payload_too_large', `Text is limited to ${MAX_TEXT_LENGTH} characters.`);
+        }
+
+        const translated = await createGeminiProvider(apiKey).translate({ text, from, to });
+        res.status(200).json({ text: translated });
+    } catch (error) {
+        sendRouteError(res, error, 'Translation failed');
+    }
+}
@@ -0,0 +1,42 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createGeminiProvider } from '../services/geminiService';
+import { isLanguage } from '../services/locales';
+import { HttpError, assertMethod, getApiKey, getClientId, sendRouteError } from './_lib/http';
+import { createRateLimiter } from './_lib/rateLimit';
+
+const MAX_TEXT_LENGTH = 5000;
+
+const checkRateLimit = createRateLimiter({
+    windowMs: 60_000,
+    max: Number(process.env.TTS_RATE_LIMIT_PER_MINUTE || 10),
+});
+
+/**
+ * POST /api/tts — JSON body `{ "text": string, "language"?: string }`. Responds with
+ * `{ "audio": string }`, base64-encoded 16-bit mono PCM at 24kHz.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    try {
+        assertMethod(req, 'POST');
+        checkRateLimit(getClientId(req));
+        const apiKey = getApiKey();
+
+        const text = req.body?.text;
+        if (typeof text !== 'string' || !text.trim()) {
+            throw new HttpError(400, 'bad_request', 'The request body must be JSON with a non-empty "text" field.');
+        }
+        if (text.length > MAX_TEXT_LENGTH) {
+            throw new HttpError(413, 'payload_too_large', `Text is limited to ${MAX_TEXT_LENGTH} characters.`);
+        }
+
+        const language = req.body?.language ?? 'en';
+        if (!isLanguage(language)) {
+            throw new HttpError(400, 'bad_request', `Unsupported language "${language}".`);
+        }
+
+        const audio = await createGeminiProvider(apiKey).generateAudio({ text, language });
+        res.status(200).json({ audio });
+    } catch (error) {
+        sendRouteError(res, error, 'Speech generation failed');
+    }
+}
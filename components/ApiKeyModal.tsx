@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { KeyRound, ExternalLink } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
 
 interface ApiKeyModalProps {
   isOpen: boolean;
@@ -7,6 +8,7 @@ interface ApiKeyModalProps {
 }
 
 const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onSave }) => {
+  const { t } = useI18n();
   const [key, setKey] = useState('');
 
   const handleSave = () => {
@@ -26,19 +28,19 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onSave }) => {
             <div className="p-2 bg-blue-500/20 rounded-full">
                 <KeyRound size={24} className="text-blue-400" />
             </div>
-            <h2 className="text-2xl font-bold text-white">Enter your Gemini API Key</h2>
+            <h2 className="text-2xl font-bold text-white">{t('apiKey.title')}</h2>
         </div>
         <p className="text-gray-400 mb-6">
-          To use this application, you need to provide your own Gemini API key. Your key is stored only in your browser.
+          {t('apiKey.description')}
         </p>
         <div className="mb-4">
           <input
             type="password"
             value={key}
             onChange={(e) => setKey(e.target.value)}
-            placeholder="Enter your API key here"
+            placeholder={t('apiKey.placeholder')}
             className="w-full bg-gray-900 border border-gray-600 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-200"
-            aria-label="Gemini API Key"
+            aria-label={t('apiKey.label')}
           />
         </div>
          <a
@@ -47,7 +49,7 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onSave }) => {
           rel="noopener noreferrer"
           className="inline-flex items-center gap-2 text-sm text-blue-400 hover:text-blue-300 hover:underline mb-6"
         >
-          Get your API key from Google AI Studio
+          {t('apiKey.getKey')}
           <ExternalLink size={14} />
         </a>
         <button
@@ -55,7 +57,7 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onSave }) => {
           disabled={!key.trim()}
           className="w-full mt-2 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-bold py-3 px-4 rounded-lg shadow-lg transform transition-transform duration-200 hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed"
         >
-          Save and Continue
+          {t('apiKey.save')}
         </button>
       </div>
     </div>
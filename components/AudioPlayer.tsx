@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Play, Pause, Square, Download, RotateCw, Volume2 } from 'lucide-react';
+import ProgressBar from './ProgressBar';
+import { formatTimestamp } from './VideoTimeline';
+import { base64ToBytes, pcmDurationSeconds, pcmToWavBlob } from '../utils/audio';
+import { describeError } from '../services/errors';
+import { useI18n } from '../hooks/useI18n';
+
+interface AudioPlayerProps {
+  // Base64 PCM as returned by the speech provider; null until a clip exists.
+  audioData: string | null;
+  isGenerating: boolean;
+  error: Error | null;
+  // Download file name, without the .wav extension.
+  downloadName: string;
+  onCancel?: () => void;
+  // Starts synthesis again after a failure or cancellation.
+  onGenerate?: () => void;
+}
+
+const SPEEDS = [0.75, 1, 1.25, 1.5, 2];
+
+const AudioPlayer: React.FC<AudioPlayerProps> = ({ audioData, isGenerating, error, downloadName, onCancel, onGenerate }) => {
+  const { t } = useI18n();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [speed, setSpeed] = useState(1);
+
+  // The WAV doubles as the <audio> source and the download, so seeking and speed come from the browser.
+  const clip = useMemo(() => {
+    if (!audioData) return null;
+    const pcm = base64ToBytes(audioData);
+    return { wav: pcmToWavBlob(pcm), duration: pcmDurationSeconds(pcm) };
+  }, [audioData]);
+  const [clipUrl, setClipUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsPlaying(false);
+    setCurrentTime(0);
+    if (!clip) {
+      setClipUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(clip.wav);
+    setClipUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [clip]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (audio) {
+      // A new src resets playbackRate to the default, so set both.
+      audio.defaultPlaybackRate = speed;
+      audio.playbackRate = speed;
+    }
+  }, [speed, clipUrl]);
+
+  const handlePlayPause = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(err => console.error("Audio playback failed:", err));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const handleStop = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.pause();
+    audio.currentTime = 0;
+    setCurrentTime(0);
+  };
+
+  const handleSeek = (time: number) => {
+    if (audioRef.current) audioRef.current.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  if (isGenerating) {
+    return (
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-400">{t('result.synthesizing')}</span>
+          {onCancel && (
+            <button onClick={onCancel} className="text-gray-400 hover:text-white">{t('common.cancel')}</button>
+          )}
+        </div>
+        <ProgressBar indeterminate />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <p className="text-red-400">{t('result.audioError', { reason: describeError(error, t) })}</p>
+        {onGenerate && (
+          <button onClick={onGenerate} className="flex items-center gap-1 shrink-0 text-gray-400 hover:text-white">
+            <RotateCw size={14} />
+            {t('audio.retry')}
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (!clip) {
+    return onGenerate ? (
+      <button onClick={onGenerate} className="flex items-center gap-2 text-sm text-blue-400 hover:text-blue-300">
+        <Volume2 size={16} />
+        {t('audio.generate')}
+      </button>
+    ) : null;
+  }
+
+  if (!clipUrl) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2 bg-gray-700/50 rounded-lg p-2 text-sm">
+      <audio
+        ref={audioRef}
+        src={clipUrl}
+        preload="auto"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+      />
+      <button
+        onClick={handlePlayPause}
+        className="p-2 bg-blue-500 rounded-full text-white hover:bg-blue-600 transition"
+        aria-label={isPlaying ? t('audio.pause') : t('audio.play')}
+      >
+        {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+      </button>
+      <button
+        onClick={handleStop}
+        className="p-2 rounded-full text-gray-300 hover:bg-gray-600 hover:text-white transition"
+        aria-label={t('audio.stop')}
+      >
+        <Square size={16} />
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={clip.duration}
+        step={0.01}
+        value={Math.min(currentTime, clip.duration)}
+        onChange={(e) => handleSeek(Number(e.target.value))}
+        className="flex-grow min-w-0 accent-blue-500"
+        aria-label={t('audio.seek')}
+      />
+      <span className="shrink-0 text-xs text-gray-400 tabular-nums">
+        {formatTimestamp(currentTime)} / {formatTimestamp(clip.duration)}
+      </span>
+      <select
+        value={speed}
+        onChange={(e) => setSpeed(Number(e.target.value))}
+        className="bg-gray-700 border border-gray-600 rounded-lg p-1 text-xs text-white"
+        aria-label={t('audio.speed')}
+      >
+        {SPEEDS.map(value => <option key={value} value={value}>{value}×</option>)}
+      </select>
+      <a
+        href={clipUrl}
+        download={`${downloadName}.wav`}
+        className="p-2 rounded-full text-gray-300 hover:bg-gray-600 hover:text-white transition"
+        aria-label={t('audio.download')}
+        title={t('audio.download')}
+      >
+        <Download size={16} />
+      </a>
+    </div>
+  );
+};
+
+export default AudioPlayer;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import type { AnalysisOptions, BatchItem, GeolocationCoordinates, Language } from '../types';
+import type { LocationProvider } from '../services/providers';
+import { ArrowLeft, Plus, X } from 'lucide-react';
+import { useBatchQueue } from '../hooks/useBatchQueue';
+import { isSupportedMedia } from '../utils/fileUtils';
+import BatchResultsTable from './BatchResultsTable';
+import ResultCard from './ResultCard';
+import ProgressBar from './ProgressBar';
+import ExportMenu from './ExportMenu';
+import { useI18n } from '../hooks/useI18n';
+
+interface BatchPanelProps {
+  initialFiles: File[];
+  locationProvider: LocationProvider;
+  coordinates: GeolocationCoordinates | null;
+  languages: Language[];
+  analysisOptions?: AnalysisOptions;
+  skipModelWithGps: boolean;
+  onExit: () => void;
+}
+
+const CONCURRENCY_STORAGE_KEY = 'batch-concurrency';
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8];
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ initialFiles, locationProvider, coordinates, languages, analysisOptions, skipModelWithGps, onExit }) => {
+  const { t } = useI18n();
+  const [concurrency, setConcurrency] = useState<number>(() => Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY)) || 3);
+  const { items, addFiles, retry, cancel, cancelAll } = useBatchQueue(initialFiles, { locationProvider, coordinates, languages, analysisOptions, skipModelWithGps, concurrency });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const finished = items.filter(item => item.status === 'done' || item.status === 'error' || item.status === 'cancelled').length;
+  const failed = items.filter(item => item.status === 'error').length;
+  const selected = items.find(item => item.id === selectedId && item.result);
+  const exportRecords = items.flatMap(item => (item.result ? [{ fileName: item.file.name, result: item.result }] : []));
+
+  const handleConcurrencyChange = (value: number) => {
+    setConcurrency(value);
+    localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(value));
+  };
+
+  const handleAddFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      addFiles(Array.from(e.target.files).filter(isSupportedMedia));
+    }
+    e.target.value = '';
+  };
+
+  const handleExit = () => {
+    cancelAll();
+    onExit();
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <button onClick={handleExit} className="flex items-center gap-2 text-blue-400 hover:text-blue-300">
+          <ArrowLeft size={18} />
+          {t('batch.back')}
+        </button>
+        <div className="flex items-center gap-3 text-sm">
+          <label className="flex items-center gap-2 text-gray-300">
+            {t('batch.concurrency')}
+            <select
+              value={concurrency}
+              onChange={(e) => handleConcurrencyChange(Number(e.target.value))}
+              className="bg-gray-700 border border-gray-600 rounded-lg p-1.5 text-white"
+            >
+              {CONCURRENCY_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1 px-3 py-1.5 bg-gray-700 rounded-lg text-gray-200 hover:bg-gray-600 cursor-pointer">
+            <Plus size={16} />
+            {t('batch.addFiles')}
+            <input type="file" className="hidden" accept="image/*,video/*" multiple onChange={handleAddFiles} />
+          </label>
+          <button onClick={cancelAll} className="px-3 py-1.5 bg-gray-700 rounded-lg text-gray-200 hover:bg-gray-600">
+            {t('batch.cancelAll')}
+          </button>
+          <ExportMenu records={exportRecords} baseName="geo-locator-batch" label={t('export.label')} />
+        </div>
+      </div>
+
+      <div>
+        <div className="flex justify-between text-sm mb-1 text-gray-300">
+          <span>
+            {t('batch.finished', { count: items.length, finished })}
+            {failed > 0 && t('batch.failed', { failed })}
+          </span>
+          <span>{items.length ? Math.round((finished / items.length) * 100) : 0}%</span>
+        </div>
+        <ProgressBar progress={items.length ? (finished / items.length) * 100 : 0} />
+      </div>
+
+      <BatchResultsTable
+        items={items}
+        onRetry={retry}
+        onCancel={cancel}
+        onSelect={(item: BatchItem) => setSelectedId(item.id)}
+      />
+
+      {selected?.result && (
+        <div className="space-y-2">
+          <div className="flex justify-between items-center text-sm text-gray-300">
+            <span className="truncate">{selected.file.name}</span>
+            <button onClick={() => setSelectedId(null)} className="p-1 text-gray-400 hover:text-white" aria-label={t('batch.closeResult')}>
+              <X size={18} />
+            </button>
+          </div>
+          <ResultCard
+            result={selected.result}
+            userCoordinates={coordinates}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import type { BatchItem, BatchStatus } from '../types';
+import { ArrowUp, ArrowDown, RotateCw, X, Loader2, CheckCircle2, AlertCircle, Clock, Ban } from 'lucide-react';
+import { formatPlaceName } from './LocationSummary';
+import { describeError } from '../services/errors';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../i18n';
+
+interface BatchResultsTableProps {
+  items: BatchItem[];
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onSelect: (item: BatchItem) => void;
+}
+
+type SortKey = 'file' | 'place' | 'country' | 'coordinates' | 'confidence' | 'status';
+
+const statusOrder: Record<BatchStatus, number> = { running: 0, queued: 1, error: 2, cancelled: 3, done: 4 };
+
+const sortValue = (item: BatchItem, key: SortKey): string | number => {
+  const location = item.result?.location;
+  switch (key) {
+    case 'file': return item.file.name.toLowerCase();
+    case 'place': return location ? formatPlaceName({ ...location, country: '' }).toLowerCase() : '';
+    case 'country': return location?.country.toLowerCase() ?? '';
+    case 'coordinates': return location ? location.latitude : -Infinity;
+    case 'confidence': return location ? location.confidence : -Infinity;
+    case 'status': return statusOrder[item.status];
+  }
+};
+
+const StatusBadge: React.FC<{ item: BatchItem }> = ({ item }) => {
+  const { t } = useI18n();
+  switch (item.status) {
+    case 'queued': return <span className="flex items-center gap-1 text-gray-400"><Clock size={14} /> {t('batch.status.queued')}</span>;
+    case 'running': return <span className="flex items-center gap-1 text-blue-300"><Loader2 size={14} className="animate-spin" /> {item.retry ? t('batch.status.retrying', { attempt: item.retry.attempt, count: item.retry.inSeconds }) : t('batch.status.running')}</span>;
+    case 'done': return <span className="flex items-center gap-1 text-green-400"><CheckCircle2 size={14} /> {t('batch.status.done')}</span>;
+    case 'cancelled': return <span className="flex items-center gap-1 text-gray-500"><Ban size={14} /> {t('batch.status.cancelled')}</span>;
+    case 'error': return <span className="flex items-center gap-1 text-red-400" title={describeError(item.error, t)}><AlertCircle size={14} /> {t('batch.status.error')}</span>;
+  }
+};
+
+const columns: { key: SortKey, label: MessageKey }[] = [
+  { key: 'file', label: 'batch.column.file' },
+  { key: 'place', label: 'batch.column.place' },
+  { key: 'country', label: 'batch.column.country' },
+  { key: 'coordinates', label: 'batch.column.coordinates' },
+  { key: 'confidence', label: 'batch.column.confidence' },
+  { key: 'status', label: 'batch.column.status' },
+];
+
+const BatchResultsTable: React.FC<BatchResultsTableProps> = ({ items, onRetry, onCancel, onSelect }) => {
+  const { t } = useI18n();
+  const [sortKey, setSortKey] = useState<SortKey>('file');
+  const [ascending, setAscending] = useState(true);
+
+  const sorted = useMemo(() => {
+    return [...items].sort((a, b) => {
+      const left = sortValue(a, sortKey);
+      const right = sortValue(b, sortKey);
+      const order = left < right ? -1 : left > right ? 1 : 0;
+      return ascending ? order : -order;
+    });
+  }, [items, sortKey, ascending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(prev => !prev);
+    } else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-left">
+        <thead className="text-gray-400 border-b border-gray-700">
+          <tr>
+            {columns.map(column => (
+              <th key={column.key} className="py-2 pr-3 font-medium">
+                <button onClick={() => handleSort(column.key)} className="flex items-center gap-1 hover:text-white">
+                  {t(column.label)}
+                  {sortKey === column.key && (ascending ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+                </button>
+              </th>
+            ))}
+            <th className="py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map(item => {
+            const location = item.result?.location;
+            return (
+              <tr key={item.id} className="border-b border-gray-700/50 hover:bg-gray-700/30">
+                <td className="py-2 pr-3 max-w-[10rem] truncate" title={item.file.name}>
+                  {item.result ? (
+                    <button onClick={() => onSelect(item)} className="text-blue-400 hover:underline truncate max-w-full">
+                      {item.file.name}
+                    </button>
+                  ) : item.file.name}
+                </td>
+                <td className="py-2 pr-3 text-gray-200">{location ? formatPlaceName({ ...location, country: '' }) || '—' : '—'}</td>
+                <td className="py-2 pr-3 text-gray-200">{location?.country || '—'}</td>
+                <td className="py-2 pr-3 text-gray-400 whitespace-nowrap">
+                  {location ? `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}` : '—'}
+                </td>
+                <td className="py-2 pr-3 text-gray-200">{location ? `${Math.round(location.confidence * 100)}%` : '—'}</td>
+                <td className="py-2 pr-3 whitespace-nowrap"><StatusBadge item={item} /></td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  {(item.status === 'error' || item.status === 'cancelled') && (
+                    <button onClick={() => onRetry(item.id)} className="p-1 text-gray-400 hover:text-white" aria-label={t('batch.retry')}>
+                      <RotateCw size={14} />
+                    </button>
+                  )}
+                  {(item.status === 'queued' || item.status === 'running') && (
+                    <button onClick={() => onCancel(item.id)} className="p-1 text-gray-400 hover:text-red-400" aria-label={t('common.cancel')}>
+                      <X size={14} />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default BatchResultsTable;
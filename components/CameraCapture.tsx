@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, SwitchCamera, X } from 'lucide-react';
+import { LocalizedError, describeError } from '../services/errors';
+import { useI18n } from '../hooks/useI18n';
+
+interface CameraCaptureProps {
+  isOpen: boolean;
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+type FacingMode = 'environment' | 'user';
+
+const JPEG_QUALITY = 0.92;
+
+export const isCameraSupported = (): boolean =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+const cameraError = (err: unknown): Error => {
+  const name = err instanceof DOMException ? err.name : '';
+  return new LocalizedError(name === 'NotAllowedError' || name === 'SecurityError' ? 'errors.cameraDenied' : 'errors.cameraUnavailable');
+};
+
+const captureFileName = () => `camera-${new Date().toISOString().replace(/[:.]/g, '-')}.jpg`;
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ isOpen, onCapture, onClose }) => {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [facingMode, setFacingMode] = useState<FacingMode>('environment');
+  const [canSwitch, setCanSwitch] = useState(false);
+  const [isReady, setIsReady] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (!isCameraSupported()) {
+      setError(new LocalizedError('errors.cameraUnavailable'));
+      return;
+    }
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    setIsReady(false);
+    setError(null);
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: { ideal: facingMode } }, audio: false })
+      .then(async opened => {
+        if (cancelled) {
+          opened.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = opened;
+        if (videoRef.current) videoRef.current.srcObject = opened;
+        // Labels and the full device list are only available once permission has been granted.
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) setCanSwitch(devices.filter(device => device.kind === 'videoinput').length > 1);
+      })
+      .catch(err => {
+        console.error("Failed to open the camera:", err);
+        if (!cancelled) setError(cameraError(err));
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+      if (videoRef.current) videoRef.current.srcObject = null;
+    };
+  }, [isOpen, facingMode]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    // The selfie preview is mirrored for comfort, but the photo keeps the true orientation so text stays readable.
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    setIsCapturing(true);
+    canvas.toBlob(blob => {
+      setIsCapturing(false);
+      if (!blob) {
+        setError(new LocalizedError('errors.cameraUnavailable'));
+        return;
+      }
+      onCapture(new File([blob], captureFileName(), { type: 'image/jpeg', lastModified: Date.now() }));
+    }, 'image/jpeg', JPEG_QUALITY);
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl shadow-2xl p-4 w-full max-w-2xl m-4 space-y-4 animate-fade-in">
+        <div className="flex items-center justify-between">
+          <h2 className="flex items-center gap-2 text-lg font-bold text-white">
+            <Camera size={20} className="text-blue-400" />
+            {t('camera.title')}
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white" aria-label={t('camera.close')}>
+            <X size={20} />
+          </button>
+        </div>
+        <div className="relative bg-black rounded-lg overflow-hidden aspect-video flex items-center justify-center">
+          {error ? (
+            <p className="p-6 text-center text-red-400">{describeError(error, t)}</p>
+          ) : (
+            <>
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                onLoadedData={() => setIsReady(true)}
+                className={`w-full h-full object-contain ${facingMode === 'user' ? '-scale-x-100' : ''}`}
+              />
+              {!isReady && <p className="absolute text-gray-400 animate-pulse">{t('camera.starting')}</p>}
+            </>
+          )}
+        </div>
+        <div className="flex items-center justify-center gap-6">
+          {canSwitch && (
+            <button
+              onClick={() => setFacingMode(prev => (prev === 'user' ? 'environment' : 'user'))}
+              disabled={!!error}
+              className="p-3 bg-gray-700 rounded-full text-gray-300 hover:bg-gray-600 hover:text-white transition disabled:opacity-50"
+              aria-label={t('camera.switch')}
+            >
+              <SwitchCamera size={20} />
+            </button>
+          )}
+          <button
+            onClick={handleCapture}
+            disabled={!isReady || isCapturing || !!error}
+            className="w-16 h-16 rounded-full border-4 border-white bg-white/20 hover:bg-white/40 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label={t('camera.capture')}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,102 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { AnalysisResult, ChatMessage, GeolocationCoordinates, PreparedMedia } from '../types';
+import type { ChatProvider } from '../services/providers';
+import { MessageCircle, Send } from 'lucide-react';
+import SourceLinks from './SourceLinks';
+import { describeError } from '../services/errors';
+import { useFollowUpChat } from '../hooks/useFollowUpChat';
+import { useI18n } from '../hooks/useI18n';
+
+interface ChatPanelProps {
+  provider: ChatProvider;
+  result: AnalysisResult;
+  loadMedia: () => Promise<PreparedMedia | null>;
+  coordinates: GeolocationCoordinates | null;
+  messages: ChatMessage[];
+  onMessagesChange: (messages: ChatMessage[]) => void;
+}
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ provider, result, loadMedia, coordinates, messages, onMessagesChange }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState('');
+  const { pendingText, isSending, error, send, cancel } = useFollowUpChat({
+    provider, result, loadMedia, coordinates, messages, onMessagesChange,
+  });
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [messages, pendingText]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const question = draft.trim();
+    if (!question || isSending) return;
+    setDraft('');
+    const answered = await send(question);
+    if (!answered) {
+      setDraft(prev => prev || question);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-3">
+      <h3 className="flex items-center gap-2 text-md font-semibold text-gray-200">
+        <MessageCircle size={18} className="text-blue-400" />
+        {t('chat.title')}
+      </h3>
+      {(messages.length > 0 || isSending) && (
+        <div ref={listRef} className="space-y-3 max-h-80 overflow-y-auto pr-1">
+          {messages.map(message => (
+            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${message.role === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-200'}`}>
+                <p className="whitespace-pre-wrap">{message.text}</p>
+                {message.sources.length > 0 && (
+                  <div className="mt-2 pt-2 border-t border-gray-600">
+                    <p className="text-xs text-gray-400 mb-1">{t('result.sources')}</p>
+                    <SourceLinks sources={message.sources} className="text-xs" />
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+          {isSending && (
+            <div className="flex justify-start">
+              <div className="max-w-[85%] rounded-lg px-3 py-2 text-sm bg-gray-700 text-gray-300">
+                {pendingText ? <p className="whitespace-pre-wrap">{pendingText}</p> : <p className="animate-pulse">{t('chat.thinking')}</p>}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+      {error && <p className="text-sm text-red-400">{t('chat.error', { reason: describeError(error, t) })}</p>}
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={t('chat.placeholder')}
+          className="flex-grow min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          aria-label={t('chat.placeholder')}
+        />
+        {isSending ? (
+          <button type="button" onClick={cancel} className="px-3 py-2 text-sm text-gray-300 hover:text-white">
+            {t('common.cancel')}
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!draft.trim()}
+            className="p-2 bg-blue-500 rounded-lg text-white hover:bg-blue-600 transition disabled:bg-gray-600 disabled:cursor-not-allowed"
+            aria-label={t('chat.send')}
+          >
+            <Send size={18} />
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default ChatPanel;
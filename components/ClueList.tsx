@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import type { ClueCategory, VisualClue } from '../types';
+import type { MessageKey } from '../i18n';
+import { boxStyle } from './RegionSelector';
+import { useI18n } from '../hooks/useI18n';
+
+interface ClueListProps {
+  clues: VisualClue[];
+  // Image the clue boxes are drawn on; without it only the checklist is shown.
+  previewSrc?: string;
+}
+
+const CATEGORY_LABELS: Record<ClueCategory, MessageKey> = {
+  script: 'clues.category.script',
+  drivingSide: 'clues.category.drivingSide',
+  vegetation: 'clues.category.vegetation',
+  architecture: 'clues.category.architecture',
+  licensePlate: 'clues.category.licensePlate',
+  landmark: 'clues.category.landmark',
+  terrain: 'clues.category.terrain',
+  infrastructure: 'clues.category.infrastructure',
+  other: 'clues.category.other',
+};
+
+const ClueList: React.FC<ClueListProps> = ({ clues, previewSrc }) => {
+  const { t } = useI18n();
+  // Ticked clues have their boxes drawn on the preview.
+  const [shown, setShown] = useState<boolean[]>(() => clues.map(() => true));
+  const [hovered, setHovered] = useState<number | null>(null);
+  const hasBoxes = !!previewSrc && clues.some(clue => clue.boxes.length > 0);
+
+  useEffect(() => {
+    setShown(clues.map(() => true));
+    setHovered(null);
+  }, [clues]);
+
+  const toggle = (index: number) => {
+    setShown(prev => prev.map((value, i) => (i === index ? !value : value)));
+  };
+
+  return (
+    <div className="border border-gray-700 rounded-lg p-3 space-y-3 text-sm text-gray-300">
+      <p className="text-xs font-semibold uppercase tracking-wide text-gray-400">{t('clues.title')}</p>
+      {hasBoxes && (
+        <div className="flex justify-center bg-gray-900 rounded-lg overflow-hidden">
+          <div className="relative">
+            <img src={previewSrc} alt={t('clues.previewAlt')} className="block max-w-full max-h-64 object-contain" />
+            {clues.map((clue, index) => (shown[index] || hovered === index) && clue.boxes.map((box, boxIndex) => (
+              <div
+                key={`${index}-${boxIndex}`}
+                style={boxStyle(box)}
+                className={`absolute border-2 transition-colors ${hovered === index ? 'border-yellow-300 bg-yellow-300/20' : 'border-blue-400 bg-blue-400/10'}`}
+              >
+                <span className="absolute -top-0.5 -left-0.5 bg-blue-400 text-black text-xs font-bold px-1 rounded-br">{index + 1}</span>
+              </div>
+            )))}
+          </div>
+        </div>
+      )}
+      <ul className="space-y-2">
+        {clues.map((clue: VisualClue, index: number) => (
+          <li
+            key={index}
+            onMouseEnter={() => setHovered(index)}
+            onMouseLeave={() => setHovered(null)}
+            className="flex items-start gap-2"
+          >
+            <input
+              type="checkbox"
+              checked={shown[index] ?? true}
+              onChange={() => toggle(index)}
+              disabled={clue.boxes.length === 0}
+              className="mt-1 accent-blue-500"
+              aria-label={t('clues.showBoxes', { index: index + 1 })}
+            />
+            <div className="min-w-0 flex-grow">
+              <p>
+                <span className="text-gray-500 mr-1">{index + 1}.</span>
+                <span className="text-xs font-semibold uppercase text-blue-300 mr-2">{t(CATEGORY_LABELS[clue.category])}</span>
+                {clue.description}
+              </p>
+              <div className="flex items-center gap-2 mt-1" title={t('clues.weight', { percent: Math.round(clue.weight * 100) })}>
+                <div className="w-24 h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-400" style={{ width: `${Math.round(clue.weight * 100)}%` }} />
+                </div>
+                <span className="text-xs text-gray-500">{t('clues.weight', { percent: Math.round(clue.weight * 100) })}</span>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ClueList;
@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft } from 'lucide-react';
+import type { AnalysisModeId, AnalysisProgress, AnalysisStage, ComparisonResult, GeolocationCoordinates, Language } from '../types';
+import type { ComparisonProvider } from '../services/providers';
+import FileUpload from './FileUpload';
+import ComparisonCard from './ComparisonCard';
+import Loader from './Loader';
+import { comparisonLabel } from '../services/comparisonPrompt';
+import { LocalizedError, describeError, isAbortError } from '../services/errors';
+import { prepareMedia } from '../utils/mediaPreparation';
+import { useI18n } from '../hooks/useI18n';
+
+interface ComparePanelProps {
+  provider: ComparisonProvider;
+  coordinates: GeolocationCoordinates | null;
+  languages: Language[];
+  // Analysis mode picked in the upload section; its model and tool settings apply here too.
+  mode: AnalysisModeId;
+  onExit: () => void;
+}
+
+type Pair<T> = [T, T];
+
+// A comparison is a single request without frame sampling, so each stage gets a fixed share.
+const STAGE_PERCENT: Record<AnalysisStage, number> = {
+  sampling: 0,
+  uploading: 10,
+  reasoning: 40,
+  grounding: 80,
+  parsing: 95,
+};
+
+const ComparePanel: React.FC<ComparePanelProps> = ({ provider, coordinates, languages, mode, onExit }) => {
+  const { t } = useI18n();
+  const [files, setFiles] = useState<Pair<File | null>>([null, null]);
+  const [previews, setPreviews] = useState<Pair<string | null>>([null, null]);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [result, setResult] = useState<ComparisonResult | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Created in an effect so each URL is revoked exactly when its file is replaced.
+  useEffect(() => {
+    const urls = files.map(file => (file ? URL.createObjectURL(file) : null)) as Pair<string | null>;
+    setPreviews(urls);
+    return () => urls.forEach(url => url && URL.revokeObjectURL(url));
+  }, [files]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleFileChange = (index: number, file: File | null) => {
+    if (!file) return;
+    abortRef.current?.abort();
+    setFiles(prev => (index === 0 ? [file, prev[1]] : [prev[0], file]));
+    setResult(null);
+    setError(null);
+  };
+
+  const handleCompare = async () => {
+    const [a, b] = files;
+    if (!a || !b) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ stage: 'uploading' });
+    setResult(null);
+    setError(null);
+    try {
+      const [first, second] = await Promise.all([prepareMedia(a), prepareMedia(b)]);
+      const comparison = await provider.compareMedia({
+        media: [first.media, second.media],
+        coordinates,
+        languages,
+        mode,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+      if (!controller.signal.aborted) setResult(comparison);
+    } catch (err) {
+      console.error("Comparison failed:", err);
+      if (!isAbortError(err) && !controller.signal.aborted) {
+        setError(err instanceof Error ? err : new LocalizedError('errors.comparisonFailed'));
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  const handleExit = () => {
+    abortRef.current?.abort();
+    onExit();
+  };
+
+  const isComparing = progress !== null;
+  const [previewA, previewB] = previews;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <button onClick={handleExit} className="self-start flex items-center gap-2 text-blue-400 hover:text-blue-300">
+        <ArrowLeft size={18} />
+        {t('compare.back')}
+      </button>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {files.map((file, index) => (
+          <div key={index} className="space-y-2">
+            <p className="text-md font-medium text-gray-300">{t('compare.slot', { label: comparisonLabel(index) })}</p>
+            <FileUpload
+              onFileChange={(selected: File | null) => handleFileChange(index, selected)}
+              filePreview={previews[index]}
+              fileType={file?.type}
+            />
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={handleCompare}
+        disabled={!files[0] || !files[1] || isComparing}
+        className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-bold py-3 px-4 rounded-lg shadow-lg transform transition-transform duration-200 hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:scale-100"
+      >
+        {isComparing ? t('compare.running') : t('compare.run')}
+      </button>
+
+      {isComparing ? (
+        <div className="relative min-h-[300px]">
+          <Loader
+            stage={progress.stage}
+            progress={STAGE_PERCENT[progress.stage]}
+            partialText={progress.partialText}
+            language={languages[0]}
+            upload={progress.upload}
+            onCancel={handleCancel}
+          />
+        </div>
+      ) : error ? (
+        <div className="bg-red-900/20 border border-red-500/50 rounded-lg p-4 text-center">
+          <p className="text-red-400">{describeError(error, t)}</p>
+        </div>
+      ) : result && files[0] && files[1] && previewA && previewB ? (
+        <ComparisonCard result={result} previews={[previewA, previewB]} fileTypes={[files[0].type, files[1].type]} />
+      ) : null}
+    </div>
+  );
+};
+
+export default ComparePanel;
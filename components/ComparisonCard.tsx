@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Check, Equal, Ruler, X } from 'lucide-react';
+import type { ComparisonResult, ComparisonVerdict, Language } from '../types';
+import type { MessageKey } from '../i18n';
+import MapView, { MapMarker } from './MapView';
+import LocationSummary, { formatPlaceName } from './LocationSummary';
+import SourceLinks from './SourceLinks';
+import { comparisonLabel } from '../services/comparisonPrompt';
+import { LOCALES, describedLanguages } from '../services/locales';
+import { distanceKm, formatDistance } from '../utils/geo';
+import { useI18n } from '../hooks/useI18n';
+
+interface ComparisonCardProps {
+  result: ComparisonResult;
+  // Object URLs of the two compared files, in the order they were sent.
+  previews: [string, string];
+  fileTypes: [string, string];
+}
+
+const VERDICTS: Record<ComparisonVerdict, { label: MessageKey, className: string }> = {
+  same: { label: 'compare.verdict.same', className: 'bg-green-500/20 text-green-300 border-green-500/40' },
+  nearby: { label: 'compare.verdict.nearby', className: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/40' },
+  different: { label: 'compare.verdict.different', className: 'bg-red-500/20 text-red-300 border-red-500/40' },
+};
+
+const ComparisonCard: React.FC<ComparisonCardProps> = ({ result, previews, fileTypes }) => {
+  const { t } = useI18n();
+  const languages = describedLanguages(result.descriptions);
+  const [selectedLang, setSelectedLang] = useState<Language>(languages[0] ?? 'en');
+
+  useEffect(() => {
+    setSelectedLang(prev => (result.descriptions[prev] !== undefined ? prev : describedLanguages(result.descriptions)[0] ?? 'en'));
+  }, [result]);
+
+  const [a, b] = result.locations;
+  const apart = distanceKm(a.latitude, a.longitude, b.latitude, b.longitude);
+  const verdict = VERDICTS[result.verdict];
+
+  const markers = useMemo<MapMarker[]>(() => result.locations.map((location, index) => ({
+    latitude: location.latitude,
+    longitude: location.longitude,
+    label: `${comparisonLabel(index)}: ${formatPlaceName(location)}`,
+    kind: index === 0 ? 'primary' : 'alternate',
+  })), [result]);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 animate-fade-in space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h2 className="text-xl font-bold text-white">{t('compare.resultTitle')}</h2>
+        {languages.length > 1 && (
+          <div className="flex items-center flex-wrap bg-gray-700 rounded-full p-1">
+            {languages.map(code => (
+              <button
+                key={code}
+                onClick={() => setSelectedLang(code)}
+                title={LOCALES[code].nativeName}
+                className={`px-3 py-1 text-sm rounded-full ${selectedLang === code ? 'bg-blue-500 text-white' : 'text-gray-300'}`}
+              >
+                {code.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className={`flex flex-wrap items-center justify-between gap-2 border rounded-lg px-4 py-3 ${verdict.className}`}>
+        <span className="flex items-center gap-2 text-lg font-semibold">
+          <Equal size={20} />
+          {t(verdict.label)}
+        </span>
+        <span className="text-sm">{t('compare.confidence', { percent: Math.round(result.confidence * 100) })}</span>
+      </div>
+      <p className="text-gray-300">{result.descriptions[selectedLang] ?? ''}</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {result.locations.map((location, index) => (
+          <div key={index} className="space-y-2">
+            <div className="relative h-40 bg-gray-900 rounded-lg overflow-hidden">
+              {fileTypes[index].startsWith('video/')
+                ? <video src={previews[index]} controls className="w-full h-full object-cover" />
+                : <img src={previews[index]} alt={t('compare.previewAlt', { label: comparisonLabel(index) })} className="w-full h-full object-cover" />}
+              <span className="absolute top-2 left-2 bg-blue-500 text-white text-xs font-bold px-2 py-0.5 rounded">{comparisonLabel(index)}</span>
+            </div>
+            <LocationSummary location={location} />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <MapView markers={markers} height={240} />
+        <p className="flex items-center gap-1 text-sm text-gray-400">
+          <Ruler size={14} className="text-blue-400" />
+          {t('compare.distance', { distance: formatDistance(apart) })}
+        </p>
+      </div>
+
+      {(result.matches.length > 0 || result.differences.length > 0) && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+          {result.matches.length > 0 && (
+            <div>
+              <h3 className="font-semibold text-gray-200 mb-2">{t('compare.matches')}</h3>
+              <ul className="space-y-1">
+                {result.matches.map((feature, index) => (
+                  <li key={index} className="flex items-start gap-2 text-gray-300">
+                    <Check size={16} className="text-green-400 mt-0.5 shrink-0" />
+                    {feature}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {result.differences.length > 0 && (
+            <div>
+              <h3 className="font-semibold text-gray-200 mb-2">{t('compare.differences')}</h3>
+              <ul className="space-y-1">
+                {result.differences.map((feature, index) => (
+                  <li key={index} className="flex items-start gap-2 text-gray-300">
+                    <X size={16} className="text-red-400 mt-0.5 shrink-0" />
+                    {feature}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {result.sources.length > 0 && (
+        <div className="pt-4 border-t border-gray-700">
+          <h3 className="text-md font-semibold text-gray-200 mb-2">{t('result.sources')}</h3>
+          <SourceLinks sources={result.sources} className="max-h-24 overflow-y-auto" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonCard;
@@ -0,0 +1,63 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { EXPORT_FORMATS, ExportFormat, ExportRecord, downloadExport } from '../utils/exportFormats';
+import { useI18n } from '../hooks/useI18n';
+
+interface ExportMenuProps {
+  records: ExportRecord[];
+  baseName: string;
+  label?: string;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ records, baseName, label }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleExport = (format: ExportFormat) => {
+    downloadExport(records, format, baseName);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={records.length === 0}
+        className={`flex items-center justify-center gap-1 bg-gray-700 text-gray-200 hover:bg-gray-600 transition disabled:opacity-50 disabled:cursor-not-allowed ${label ? 'px-3 py-1.5 rounded-lg text-sm' : 'p-2 rounded-full'}`}
+        aria-label={t('export.aria')}
+        aria-expanded={isOpen}
+      >
+        <Download size={label ? 16 : 20} />
+        {label}
+      </button>
+      {isOpen && (
+        <ul className="absolute right-0 mt-2 w-48 bg-gray-800 border border-gray-700 rounded-lg shadow-xl z-20 py-1">
+          {EXPORT_FORMATS.map(({ format, label: formatLabel }) => (
+            <li key={format}>
+              <button
+                onClick={() => handleExport(format)}
+                className="w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-gray-700"
+              >
+                {t(formatLabel)}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
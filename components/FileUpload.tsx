@@ -1,15 +1,62 @@
 
-import React, { useCallback, useState } from 'react';
-import { UploadCloud } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { UploadCloud, FolderOpen, SquareDashedMousePointer, X, Camera, Link } from 'lucide-react';
+import type { RegionOfInterest } from '../types';
+import RegionSelector, { MAX_REGIONS } from './RegionSelector';
+import CameraCapture, { isCameraSupported } from './CameraCapture';
+import { collectDroppedFiles, isSupportedMedia } from '../utils/fileUtils';
+import { regionLabel } from '../services/analysisPrompt';
+import { describeError } from '../services/errors';
+import { useI18n } from '../hooks/useI18n';
 
 interface FileUploadProps {
   onFileChange: (file: File | null) => void;
+  // When provided, several files or a folder can be chosen at once and are passed here.
+  onFilesChange?: (files: File[]) => void;
   filePreview: string | null;
   fileType: string | undefined;
+  // Boxes marked on an image preview; marking is unavailable without onRegionsChange.
+  regions?: RegionOfInterest[];
+  onRegionsChange?: (regions: RegionOfInterest[]) => void;
+  // Downloading is left to the caller, which also reports how it went through isLoadingUrl and inputError.
+  onUrlSubmit?: (url: string) => void;
+  isLoadingUrl?: boolean;
+  inputError?: Error | null;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileChange, filePreview, fileType }) => {
+const FileUpload: React.FC<FileUploadProps> = ({
+  onFileChange, onFilesChange, filePreview, fileType, regions = [], onRegionsChange, onUrlSubmit, isLoadingUrl = false, inputError = null,
+}) => {
+  const { t } = useI18n();
   const [isDragging, setIsDragging] = useState(false);
+  const [markingRegions, setMarkingRegions] = useState(false);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [showUrlInput, setShowUrlInput] = useState(false);
+  const [url, setUrl] = useState('');
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const isImagePreview = !!filePreview && !!fileType?.startsWith('image/');
+  const canMarkRegions = isImagePreview && !!onRegionsChange;
+
+  useEffect(() => {
+    setMarkingRegions(false);
+  }, [filePreview]);
+
+  const updateNote = (id: string, note: string) => {
+    onRegionsChange?.(regions.map(region => (region.id === id ? { ...region, note } : region)));
+  };
+
+  useEffect(() => {
+    // webkitdirectory is not part of React's input attributes.
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [onFilesChange]);
+
+  const handleFiles = useCallback((files: File[], fromFolder = false) => {
+    if (onFilesChange && (files.length > 1 || fromFolder)) {
+      onFilesChange(files.filter(isSupportedMedia));
+    } else if (files.length > 0) {
+      onFileChange(files[0]);
+    }
+  }, [onFileChange, onFilesChange]);
 
   const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -32,48 +79,174 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileChange, filePreview, file
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      onFileChange(e.dataTransfer.files[0]);
+    if (!onFilesChange) {
+      if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+        onFileChange(e.dataTransfer.files[0]);
+      }
+      return;
     }
-  }, [onFileChange]);
+    const hasFolder = Array.from(e.dataTransfer.items).some((item: DataTransferItem) => item.webkitGetAsEntry?.()?.isDirectory);
+    collectDroppedFiles(e.dataTransfer)
+      .then(files => handleFiles(files, hasFolder))
+      .catch(err => console.error("Failed to read dropped files:", err));
+  }, [onFileChange, onFilesChange, handleFiles]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      onFileChange(e.target.files[0]);
+      handleFiles(Array.from(e.target.files));
     }
   };
 
+  const handleCapture = (photo: File) => {
+    setCameraOpen(false);
+    onFileChange(photo);
+  };
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (url.trim() && !isLoadingUrl) onUrlSubmit?.(url.trim());
+  };
+
+  const handleFolderSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      handleFiles(Array.from(e.target.files), true);
+    }
+    e.target.value = '';
+  };
+
   return (
-    <div
-      onDrop={handleDrop}
-      onDragOver={handleDragOver}
-      onDragEnter={handleDragEnter}
-      onDragLeave={handleDragLeave}
-      className={`relative border-2 border-dashed rounded-lg p-4 w-full h-64 flex flex-col justify-center items-center text-center transition-colors duration-300
-        ${isDragging ? 'border-blue-400 bg-gray-700' : 'border-gray-600 bg-gray-700/50'}`}
-    >
-      <input
-        type="file"
-        id="file-upload"
-        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-        onChange={handleFileSelect}
-        accept="image/*,video/*"
-      />
-      {filePreview ? (
-        fileType?.startsWith('video/') ? (
-          <video src={filePreview} controls className="absolute inset-0 w-full h-full object-cover rounded-lg" />
+    <div className="space-y-2">
+      <div
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragEnter={handleDragEnter}
+        onDragLeave={handleDragLeave}
+        className={`relative border-2 border-dashed rounded-lg p-4 w-full h-64 flex flex-col justify-center items-center text-center transition-colors duration-300
+          ${isDragging ? 'border-blue-400 bg-gray-700' : 'border-gray-600 bg-gray-700/50'}`}
+      >
+        <input
+          type="file"
+          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+          onChange={handleFileSelect}
+          accept="image/*,video/*"
+          multiple={!!onFilesChange}
+        />
+        {filePreview ? (
+          fileType?.startsWith('video/') ? (
+            <video src={filePreview} controls className="absolute inset-0 w-full h-full object-cover rounded-lg" />
+          ) : canMarkRegions || regions.length > 0 ? (
+            <RegionSelector
+              src={filePreview}
+              alt={t('upload.previewAlt')}
+              regions={regions}
+              onChange={regions => onRegionsChange?.(regions)}
+              editing={canMarkRegions && markingRegions}
+            />
+          ) : (
+            <img src={filePreview} alt={t('upload.previewAlt')} className="absolute inset-0 w-full h-full object-cover rounded-lg" />
+          )
         ) : (
-          <img src={filePreview} alt="Preview" className="absolute inset-0 w-full h-full object-cover rounded-lg" />
-        )
-      ) : (
-        <div className="flex flex-col items-center text-gray-400 pointer-events-none">
-          <UploadCloud size={48} className="mb-4 text-gray-500" />
-          <p className="font-semibold">
-            <span className="text-blue-400">Click to upload</span> or drag and drop
-          </p>
-          <p className="text-sm">Image or Video</p>
+          <div className="flex flex-col items-center text-gray-400 pointer-events-none">
+            <UploadCloud size={48} className="mb-4 text-gray-500" />
+            <p className="font-semibold">
+              <span className="text-blue-400">{t('upload.click')}</span> {t('upload.orDrag')}
+            </p>
+            <p className="text-sm">{onFilesChange ? t('upload.hintBatch') : t('upload.hint')}</p>
+            {/* Pasting is handled by the same caller that downloads links. */}
+            {onUrlSubmit && <p className="text-xs mt-2 text-gray-500">{t('upload.pasteHint')}</p>}
+          </div>
+        )}
+      </div>
+      {canMarkRegions && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <button
+              onClick={() => setMarkingRegions(prev => !prev)}
+              className={`inline-flex items-center gap-2 ${markingRegions ? 'text-yellow-300' : 'text-blue-400 hover:text-blue-300'}`}
+              aria-pressed={markingRegions}
+            >
+              <SquareDashedMousePointer size={16} />
+              {markingRegions ? t('upload.doneMarking') : t('upload.markRegions')}
+            </button>
+            {regions.length > 0 && (
+              <button onClick={() => onRegionsChange!([])} className="text-gray-400 hover:text-white">
+                {t('upload.clearRegions')}
+              </button>
+            )}
+          </div>
+          {markingRegions && (
+            <p className="text-xs text-gray-400">
+              {regions.length >= MAX_REGIONS ? t('upload.regionLimit', { count: MAX_REGIONS }) : t('upload.regionHint')}
+            </p>
+          )}
+          {regions.map((region, index) => (
+            <div key={region.id} className="flex items-center gap-2">
+              <span className="shrink-0 bg-yellow-400 text-black text-xs font-bold px-1.5 py-0.5 rounded">{regionLabel(index)}</span>
+              <input
+                type="text"
+                value={region.note}
+                onChange={(e) => updateNote(region.id, e.target.value)}
+                placeholder={t('upload.regionNote')}
+                className="flex-grow min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                aria-label={t('upload.regionNoteFor', { label: regionLabel(index) })}
+              />
+              <button
+                onClick={() => onRegionsChange!(regions.filter(r => r.id !== region.id))}
+                className="p-1 text-gray-400 hover:text-white"
+                aria-label={t('upload.removeRegion', { label: regionLabel(index) })}
+              >
+                <X size={16} />
+              </button>
+            </div>
+          ))}
         </div>
       )}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+        {isCameraSupported() && (
+          <button onClick={() => setCameraOpen(true)} className="inline-flex items-center gap-2 text-blue-400 hover:text-blue-300">
+            <Camera size={16} />
+            {t('upload.camera')}
+          </button>
+        )}
+        {onUrlSubmit && (
+          <button
+            onClick={() => setShowUrlInput(prev => !prev)}
+            className="inline-flex items-center gap-2 text-blue-400 hover:text-blue-300"
+            aria-expanded={showUrlInput}
+          >
+            <Link size={16} />
+            {t('upload.fromUrl')}
+          </button>
+        )}
+      </div>
+      {onUrlSubmit && showUrlInput && (
+        <form onSubmit={handleUrlSubmit} className="flex gap-2">
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder={t('upload.urlPlaceholder')}
+            className="flex-grow min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            aria-label={t('upload.urlLabel')}
+          />
+          <button
+            type="submit"
+            disabled={!url.trim() || isLoadingUrl}
+            className="px-4 py-2 bg-blue-500 rounded-lg text-sm text-white hover:bg-blue-600 transition disabled:bg-gray-600 disabled:cursor-not-allowed"
+          >
+            {isLoadingUrl ? t('upload.loadingUrl') : t('upload.loadUrl')}
+          </button>
+        </form>
+      )}
+      {inputError && <p className="text-sm text-red-400">{describeError(inputError, t)}</p>}
+      <CameraCapture isOpen={cameraOpen} onCapture={handleCapture} onClose={() => setCameraOpen(false)} />
+      {onFilesChange && (
+        <label className="inline-flex items-center gap-2 text-sm text-blue-400 hover:text-blue-300 cursor-pointer">
+          <FolderOpen size={16} />
+          {t('upload.folder')}
+          <input ref={folderInputRef} type="file" className="hidden" onChange={handleFolderSelect} multiple />
+        </label>
+      )}
     </div>
   );
 };
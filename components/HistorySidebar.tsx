@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import type { HistoryEntry } from '../types';
+import { X, Search, Trash2, History as HistoryIcon, Image as ImageIcon } from 'lucide-react';
+import { formatPlaceName } from './LocationSummary';
+import ExportMenu from './ExportMenu';
+import { describeError } from '../services/errors';
+import { useI18n } from '../hooks/useI18n';
+
+interface HistorySidebarProps {
+  isOpen: boolean;
+  entries: HistoryEntry[];
+  error: unknown;
+  onClose: () => void;
+  onSelect: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+}
+
+const matchesQuery = (entry: HistoryEntry, query: string): boolean => {
+  if (!query) return true;
+  const { location } = entry.result;
+  const haystack = [location.landmark, location.city, location.region, location.country, location.countryCode, entry.fileName]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  return haystack.includes(query.toLowerCase());
+};
+
+// Date inputs give "YYYY-MM-DD" in local time.
+const startOfDay = (value: string) => (value ? new Date(`${value}T00:00:00`).getTime() : -Infinity);
+const endOfDay = (value: string) => (value ? new Date(`${value}T23:59:59.999`).getTime() : Infinity);
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, entries, error, onClose, onSelect, onDelete }) => {
+  const { t, locale } = useI18n();
+  const [query, setQuery] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const filtered = useMemo(() => {
+    const from = startOfDay(fromDate);
+    const to = endOfDay(toDate);
+    return entries.filter(entry => entry.createdAt >= from && entry.createdAt <= to && matchesQuery(entry, query.trim()));
+  }, [entries, query, fromDate, toDate]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black/50" onClick={onClose}>
+      <aside
+        className="w-full max-w-sm h-full bg-gray-800 border-l border-gray-700 shadow-2xl flex flex-col animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-gray-700">
+          <h2 className="flex items-center gap-2 text-lg font-bold text-white">
+            <HistoryIcon size={20} className="text-blue-400" />
+            {t('history.title')}
+          </h2>
+          <div className="flex items-center gap-2">
+            <ExportMenu
+              records={filtered.map(entry => ({ fileName: entry.fileName, result: entry.result }))}
+              baseName="geo-locator-history"
+              label={t('export.label')}
+            />
+            <button onClick={onClose} className="p-1 text-gray-400 hover:text-white" aria-label={t('history.close')}>
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+        <div className="p-4 space-y-3 border-b border-gray-700">
+          <div className="relative">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('history.search')}
+              className="w-full bg-gray-900 border border-gray-600 rounded-lg py-2 pl-9 pr-3 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div className="flex gap-2 text-sm">
+            <label className="flex-1 text-gray-400">
+              {t('history.from')}
+              <input
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="w-full mt-1 bg-gray-900 border border-gray-600 rounded-lg p-2 text-white"
+              />
+            </label>
+            <label className="flex-1 text-gray-400">
+              {t('history.to')}
+              <input
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                className="w-full mt-1 bg-gray-900 border border-gray-600 rounded-lg p-2 text-white"
+              />
+            </label>
+          </div>
+          {entries.length > 0 && (
+            <p className="text-xs text-gray-500">{t('history.shown', { shown: filtered.length, count: entries.length })}</p>
+          )}
+        </div>
+        <div className="flex-grow overflow-y-auto p-2">
+          {error ? (
+            <p className="p-4 text-sm text-red-400">{describeError(error, t)}</p>
+          ) : filtered.length === 0 ? (
+            <p className="p-4 text-sm text-center text-gray-400">
+              {entries.length === 0 ? t('history.empty') : t('history.noMatches')}
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {filtered.map(entry => (
+                <li key={entry.id} className="group flex items-center gap-3 p-2 rounded-lg hover:bg-gray-700">
+                  <button onClick={() => onSelect(entry)} className="flex flex-grow items-center gap-3 min-w-0 text-left">
+                    {entry.thumbnail ? (
+                      <img src={entry.thumbnail} alt="" className="w-12 h-12 rounded object-cover shrink-0" />
+                    ) : (
+                      <div className="w-12 h-12 rounded bg-gray-700 flex items-center justify-center shrink-0">
+                        <ImageIcon size={20} className="text-gray-500" />
+                      </div>
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-white truncate">
+                        {formatPlaceName(entry.result.location) || t('location.unnamed')}
+                      </p>
+                      <p className="text-xs text-gray-400 truncate">{entry.fileName}</p>
+                      <p className="text-xs text-gray-500">{new Date(entry.createdAt).toLocaleString(locale)}</p>
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => onDelete(entry.id)}
+                    className="p-1 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                    aria-label={t('history.delete')}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default HistorySidebar;
@@ -0,0 +1,40 @@
+import React from 'react';
+import type { Language } from '../types';
+import { LANGUAGES, LOCALES } from '../services/locales';
+
+interface LanguagePickerProps {
+  selected: Language[];
+  onChange: (languages: Language[]) => void;
+  disabled?: boolean;
+}
+
+const LanguagePicker: React.FC<LanguagePickerProps> = ({ selected, onChange, disabled = false }) => {
+  const toggle = (code: Language) => {
+    if (selected.includes(code)) {
+      // At least one language has to stay, or the model has nothing to write.
+      if (selected.length > 1) onChange(selected.filter(c => c !== code));
+    } else {
+      onChange(LANGUAGES.filter(c => c === code || selected.includes(c)));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {LANGUAGES.map(code => (
+        <button
+          key={code}
+          type="button"
+          onClick={() => toggle(code)}
+          disabled={disabled}
+          title={LOCALES[code].name}
+          aria-pressed={selected.includes(code)}
+          className={`px-3 py-1 text-sm rounded-full border transition disabled:opacity-50 ${selected.includes(code) ? 'bg-blue-500 border-blue-500 text-white' : 'border-gray-600 text-gray-300 hover:border-gray-400'}`}
+        >
+          {LOCALES[code].nativeName}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default LanguagePicker;
@@ -1,27 +1,79 @@
-
 import React from 'react';
+import type { AnalysisStage, Language } from '../types';
+import { CheckCircle2, Circle } from 'lucide-react';
 import ProgressBar from './ProgressBar';
+import { extractPartialField } from '../services/analysisPrompt';
+import { formatBytes } from '../utils/fileUtils';
+import { useI18n } from '../hooks/useI18n';
+import type { MessageKey } from '../i18n';
 
 interface LoaderProps {
-  message: string;
-  progress?: number;
+  stage: AnalysisStage;
+  progress: number;
+  partialText?: string;
+  // Which description to preview while the answer streams in.
+  language?: Language;
+  frame?: { index: number; total: number };
+  upload?: { sentBytes: number; totalBytes: number };
+  retry?: { attempt: number; inSeconds: number };
+  onCancel?: () => void;
 }
 
-const Loader: React.FC<LoaderProps> = ({ message, progress }) => {
+// Speech is synthesized on demand once the result is shown, so AudioPlayer shows that step rather than this list.
+const STAGES: { id: AnalysisStage, label: MessageKey }[] = [
+  { id: 'sampling', label: 'loader.stage.sampling' },
+  { id: 'uploading', label: 'loader.stage.uploading' },
+  { id: 'reasoning', label: 'loader.stage.reasoning' },
+  { id: 'grounding', label: 'loader.stage.grounding' },
+  { id: 'parsing', label: 'loader.stage.parsing' },
+];
+
+const Loader: React.FC<LoaderProps> = ({ stage, progress, partialText, language = 'en', frame, upload, retry, onCancel }) => {
+  const { t } = useI18n();
+  // Frame extraction only happens for videos analyzed scene by scene.
+  const stages = stage === 'sampling' || frame ? STAGES : STAGES.slice(1);
+  const currentIndex = stages.findIndex(s => s.id === stage);
+  const description = partialText ? extractPartialField(partialText, language) : '';
+
   return (
     <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-800/80 rounded-lg backdrop-blur-sm z-10 p-4">
       <svg className="animate-spin h-10 w-10 text-blue-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
       </svg>
-      <p className="mt-4 text-center text-gray-300 text-md">{message}</p>
-      {progress !== undefined && (
-        <div className="w-full max-w-xs mt-4">
-            <div className="flex justify-between text-sm mb-1">
-                <span className="text-gray-300">{progress}%</span>
-            </div>
-            <ProgressBar progress={progress} />
-        </div>
+      <p className="mt-4 text-center text-gray-300 text-md">{t('loader.current', { stage: t(stages[currentIndex]?.label ?? 'loader.stage.analyzing') })}</p>
+      {stage === 'uploading' && upload && (
+        <p className="text-sm text-gray-400">{t('loader.uploaded', { sent: formatBytes(upload.sentBytes), total: formatBytes(upload.totalBytes) })}</p>
+      )}
+      {retry && <p className="text-sm text-yellow-300">{t('loader.retrying', { attempt: retry.attempt, count: retry.inSeconds })}</p>}
+      {frame && <p className="text-sm text-gray-400">{t('loader.frame', { index: frame.index + 1, total: frame.total })}</p>}
+      <ol className="mt-3 space-y-1 text-sm">
+        {stages.map((s, index) => (
+          <li
+            key={s.id}
+            className={`flex items-center gap-2 ${index < currentIndex ? 'text-green-400' : index === currentIndex ? 'text-white' : 'text-gray-500'}`}
+          >
+            {index < currentIndex ? <CheckCircle2 size={14} /> : <Circle size={14} className={index === currentIndex ? 'animate-pulse' : ''} />}
+            {t(s.label)}
+          </li>
+        ))}
+      </ol>
+      <div className="w-full max-w-xs mt-4">
+          <div className="flex justify-between text-sm mb-1">
+              <span className="text-gray-300">{progress}%</span>
+          </div>
+          <ProgressBar progress={progress} />
+      </div>
+      {description && (
+        <p className="mt-4 max-w-md max-h-32 overflow-y-auto text-sm text-gray-400 whitespace-pre-wrap">{description}</p>
+      )}
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-4 py-2 px-4 rounded-lg bg-gray-700 text-gray-200 hover:bg-gray-600"
+        >
+          {t('common.cancel')}
+        </button>
       )}
     </div>
   );
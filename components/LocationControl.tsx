@@ -0,0 +1,152 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LocateFixed, LocateOff, MapPinned, Navigation, Search } from 'lucide-react';
+import type { GeolocationCoordinates, LocationMode, LocationSettings, ManualLocation } from '../types';
+import type { MessageKey } from '../i18n';
+import type { GeolocationStatus } from '../hooks/useGeolocation';
+import MapView from './MapView';
+import { geocodeAddress } from '../utils/geocoding';
+import { describeError, isAbortError } from '../services/errors';
+import { useI18n } from '../hooks/useI18n';
+
+interface LocationControlProps {
+  settings: LocationSettings;
+  onChange: (settings: LocationSettings) => void;
+  // What is actually shared right now, and why it may be missing.
+  coordinates: GeolocationCoordinates | null;
+  status: GeolocationStatus;
+  error: Error | null;
+  disabled?: boolean;
+}
+
+const MODES: { mode: LocationMode, label: MessageKey, description: MessageKey, icon: typeof LocateOff }[] = [
+  { mode: 'off', label: 'userLocation.mode.off', description: 'userLocation.describe.off', icon: LocateOff },
+  { mode: 'coarse', label: 'userLocation.mode.coarse', description: 'userLocation.describe.coarse', icon: Navigation },
+  { mode: 'precise', label: 'userLocation.mode.precise', description: 'userLocation.describe.precise', icon: LocateFixed },
+  { mode: 'manual', label: 'userLocation.mode.manual', description: 'userLocation.describe.manual', icon: MapPinned },
+];
+
+// Close enough to see the neighbourhood around a picked point without jumping to street level.
+const PICKER_MAX_ZOOM = 11;
+
+const formatCoordinates = ({ latitude, longitude }: GeolocationCoordinates, digits: number) =>
+  `${latitude.toFixed(digits)}, ${longitude.toFixed(digits)}`;
+
+const LocationControl: React.FC<LocationControlProps> = ({ settings, onChange, coordinates, status, error, disabled = false }) => {
+  const { t } = useI18n();
+  const [expanded, setExpanded] = useState(false);
+  const [query, setQuery] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<Error | null>(null);
+  const searchAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => searchAbortRef.current?.abort(), []);
+
+  const active = MODES.find(option => option.mode === settings.mode) ?? MODES[0];
+  const ActiveIcon = active.icon;
+
+  const setManual = (manual: ManualLocation) => onChange({ mode: 'manual', manual });
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+    setIsSearching(true);
+    setSearchError(null);
+    try {
+      setManual(await geocodeAddress(query, controller.signal));
+    } catch (err) {
+      if (!isAbortError(err)) setSearchError(err instanceof Error ? err : null);
+    } finally {
+      if (searchAbortRef.current === controller) {
+        searchAbortRef.current = null;
+        setIsSearching(false);
+      }
+    }
+  };
+
+  const summary = (() => {
+    if (settings.mode === 'off') return t('userLocation.summary.off');
+    if (settings.mode === 'manual') return settings.manual ? settings.manual.label : t('userLocation.summary.pick');
+    if (status === 'locating') return t('userLocation.summary.locating');
+    if (!coordinates) return t('userLocation.summary.unavailable');
+    return t(settings.mode === 'coarse' ? 'userLocation.summary.coarse' : 'userLocation.summary.precise', {
+      coordinates: formatCoordinates(coordinates, settings.mode === 'coarse' ? 1 : 5),
+    });
+  })();
+
+  return (
+    <div className="bg-gray-700/40 border border-gray-600 rounded-lg p-3 text-sm space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-2 min-w-0 text-gray-300">
+          <ActiveIcon size={16} className={settings.mode === 'off' ? 'text-gray-500 shrink-0' : 'text-blue-400 shrink-0'} />
+          <span className="shrink-0">{t('userLocation.title')}:</span>
+          <span className="truncate font-semibold text-white" title={summary}>{summary}</span>
+        </p>
+        <button
+          onClick={() => setExpanded(prev => !prev)}
+          disabled={disabled}
+          className="shrink-0 text-blue-400 hover:text-blue-300 disabled:opacity-50"
+          aria-expanded={expanded}
+        >
+          {expanded ? t('userLocation.done') : t('userLocation.change')}
+        </button>
+      </div>
+      {error && settings.mode !== 'off' && settings.mode !== 'manual' && (
+        <p className="text-red-400">{describeError(error, t)}</p>
+      )}
+      {expanded && (
+        <div className="space-y-3">
+          <div role="radiogroup" aria-label={t('userLocation.title')} className="grid grid-cols-2 sm:grid-cols-4 gap-1 bg-gray-800 rounded-lg p-1">
+            {MODES.map(({ mode, label, icon: Icon }) => (
+              <button
+                key={mode}
+                role="radio"
+                aria-checked={settings.mode === mode}
+                onClick={() => onChange({ ...settings, mode })}
+                className={`flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md ${settings.mode === mode ? 'bg-blue-500 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+              >
+                <Icon size={14} />
+                {t(label)}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400">{t(active.description)}</p>
+          {settings.mode === 'manual' && (
+            <>
+              <form onSubmit={handleSearch} className="flex gap-2">
+                <input
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder={t('userLocation.addressPlaceholder')}
+                  className="flex-grow min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  aria-label={t('userLocation.address')}
+                />
+                <button
+                  type="submit"
+                  disabled={!query.trim() || isSearching}
+                  className="p-2 bg-blue-500 rounded-lg text-white hover:bg-blue-600 transition disabled:bg-gray-600 disabled:cursor-not-allowed"
+                  aria-label={t('userLocation.search')}
+                >
+                  <Search size={18} className={isSearching ? 'animate-pulse' : ''} />
+                </button>
+              </form>
+              {searchError && <p className="text-red-400">{describeError(searchError, t)}</p>}
+              <MapView
+                markers={settings.manual ? [{ ...settings.manual, kind: 'user' }] : []}
+                height={200}
+                maxFitZoom={PICKER_MAX_ZOOM}
+                onMapClick={(latitude, longitude) => setManual({ latitude, longitude, label: formatCoordinates({ latitude, longitude }, 4) })}
+              />
+              <p className="text-xs text-gray-500">{t('userLocation.mapHint')}</p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationControl;
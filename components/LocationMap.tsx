@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import type { GeolocationCoordinates, GroundingChunk, LocationDetails, MediaMetadata } from '../types';
+import { Navigation, ExternalLink } from 'lucide-react';
+import MapView, { MapMarker } from './MapView';
+import { formatPlaceName } from './LocationSummary';
+import { confidenceRadiusKm, distanceKm, formatDistance } from '../utils/geo';
+import type { TileSource } from '../utils/tileSource';
+import { useI18n } from '../hooks/useI18n';
+
+interface LocationMapProps {
+  location: LocationDetails;
+  sources: GroundingChunk[];
+  userCoordinates?: GeolocationCoordinates | null;
+  photoPosition?: MediaMetadata['gps'];
+  tileSource?: TileSource;
+}
+
+const LocationMap: React.FC<LocationMapProps> = ({ location, sources, userCoordinates, photoPosition, tileSource }) => {
+  const { t } = useI18n();
+  const markers = useMemo<MapMarker[]>(() => {
+    const list: MapMarker[] = location.alternates.map(alternate => ({
+      latitude: alternate.latitude,
+      longitude: alternate.longitude,
+      label: formatPlaceName(alternate),
+      kind: 'alternate',
+    }));
+    if (photoPosition) {
+      list.push({ latitude: photoPosition.latitude, longitude: photoPosition.longitude, label: t('map.photoPosition'), kind: 'photo' });
+    }
+    list.push({ latitude: location.latitude, longitude: location.longitude, label: formatPlaceName(location), kind: 'primary' });
+    if (userCoordinates) {
+      list.push({ ...userCoordinates, label: t('map.userPosition'), kind: 'user' });
+    }
+    return list;
+  }, [location, userCoordinates, photoPosition, t]);
+
+  const circle = useMemo(() => ({
+    latitude: location.latitude,
+    longitude: location.longitude,
+    radiusKm: confidenceRadiusKm(location.confidence),
+  }), [location]);
+
+  const mapsUri = sources.find(source => source.maps?.uri)?.maps?.uri
+    ?? `https://www.google.com/maps/search/?api=1&query=${location.latitude},${location.longitude}`;
+
+  return (
+    <div className="space-y-2">
+      <MapView markers={markers} circle={circle} tileSource={tileSource} />
+      <div className="flex justify-between items-center gap-2 text-sm">
+        {userCoordinates ? (
+          <span className="flex items-center gap-1 text-gray-400">
+            <Navigation size={14} className="text-blue-400" />
+            {t('map.distanceFromYou', { distance: formatDistance(distanceKm(userCoordinates.latitude, userCoordinates.longitude, location.latitude, location.longitude)) })}
+          </span>
+        ) : <span />}
+        <a
+          href={mapsUri}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-blue-400 hover:text-blue-300 hover:underline"
+        >
+          {t('map.openInGoogleMaps')}
+          <ExternalLink size={14} />
+        </a>
+      </div>
+    </div>
+  );
+};
+
+export default LocationMap;
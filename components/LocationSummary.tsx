@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import type { LocationDetails, LocationPlace } from '../types';
+import { MapPin, ChevronDown, ChevronUp } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+
+interface LocationSummaryProps {
+  location: LocationDetails;
+}
+
+export const formatPlaceName = (place: LocationPlace): string =>
+  [place.landmark, place.city, place.region, place.country].filter(Boolean).join(', ');
+
+export const formatCoordinates = (latitude: number, longitude: number): string =>
+  `${Math.abs(latitude).toFixed(5)}° ${latitude >= 0 ? 'N' : 'S'}, ${Math.abs(longitude).toFixed(5)}° ${longitude >= 0 ? 'E' : 'W'}`;
+
+const formatConfidence = (confidence: number): string => `${Math.round(confidence * 100)}%`;
+
+const LocationSummary: React.FC<LocationSummaryProps> = ({ location }) => {
+  const { t } = useI18n();
+  const [showAlternates, setShowAlternates] = useState(false);
+
+  return (
+    <div className="bg-gray-700/50 rounded-lg p-4 space-y-3">
+      <div className="flex items-start gap-3">
+        <MapPin size={20} className="text-blue-400 mt-1 shrink-0" />
+        <div className="flex-grow min-w-0">
+          <p className="font-semibold text-white">{formatPlaceName(location) || t('location.unnamed')}</p>
+          <p className="text-sm text-gray-400">
+            {formatCoordinates(location.latitude, location.longitude)}{location.countryCode && ` · ${location.countryCode}`}
+          </p>
+        </div>
+        <span className="shrink-0 px-2 py-1 text-xs font-semibold rounded-full bg-blue-500/20 text-blue-300">
+          {formatConfidence(location.confidence)}
+        </span>
+      </div>
+      {location.alternates.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowAlternates(prev => !prev)}
+            className="flex items-center gap-1 text-sm text-blue-400 hover:text-blue-300"
+            aria-expanded={showAlternates}
+          >
+            {showAlternates ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+            {t('location.alternates', { count: location.alternates.length })}
+          </button>
+          {showAlternates && (
+            <ol className="mt-2 space-y-2">
+              {location.alternates.map((alternate, index) => (
+                <li key={index} className="border-l-2 border-gray-600 pl-3">
+                  <div className="flex justify-between gap-2 text-sm">
+                    <span className="text-gray-200">
+                      {index + 2}. {formatPlaceName(alternate)}
+                    </span>
+                    <span className="shrink-0 text-gray-400">{formatConfidence(alternate.confidence)}</span>
+                  </div>
+                  <p className="text-xs text-gray-400">{alternate.reasoning}</p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationSummary;
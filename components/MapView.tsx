@@ -0,0 +1,218 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Plus, Minus, MapPin } from 'lucide-react';
+import { TILE_SIZE, metersPerPixel, project, unproject } from '../utils/geo';
+import { TileSource, getDefaultTileSource, getTileUrl } from '../utils/tileSource';
+import { useI18n } from '../hooks/useI18n';
+
+export interface MapMarker {
+  latitude: number;
+  longitude: number;
+  label: string;
+  kind: 'primary' | 'alternate' | 'photo' | 'user';
+}
+
+export interface MapCircle {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+}
+
+interface MapViewProps {
+  markers: MapMarker[];
+  circle?: MapCircle;
+  tileSource?: TileSource;
+  height?: number;
+  // Caps how far fitting the markers zooms in, e.g. so picking a point does not jump to street level.
+  maxFitZoom?: number;
+  onMapClick?: (latitude: number, longitude: number) => void;
+}
+
+interface ViewState {
+  zoom: number;
+  latitude: number;
+  longitude: number;
+}
+
+const FIT_PADDING = 32;
+const MAX_FIT_ZOOM = 16;
+const DRAG_THRESHOLD = 4;
+
+// Finds the highest zoom at which every point fits inside the viewport.
+const fitView = (points: { latitude: number, longitude: number }[], width: number, height: number, maxZoom: number): ViewState => {
+  for (let zoom = Math.min(maxZoom, MAX_FIT_ZOOM); zoom >= 0; zoom--) {
+    const projected = points.map(p => project(p.latitude, p.longitude, zoom));
+    const xs = projected.map(p => p.x);
+    const ys = projected.map(p => p.y);
+    const minX = Math.min(...xs), maxX = Math.max(...xs);
+    const minY = Math.min(...ys), maxY = Math.max(...ys);
+    if (zoom === 0 || (maxX - minX <= width - 2 * FIT_PADDING && maxY - minY <= height - 2 * FIT_PADDING)) {
+      const center = unproject((minX + maxX) / 2, (minY + maxY) / 2, zoom);
+      return { zoom, ...center };
+    }
+  }
+  return { zoom: 0, latitude: 0, longitude: 0 };
+};
+
+const markerColor: Record<MapMarker['kind'], string> = {
+  primary: 'text-red-500',
+  alternate: 'text-yellow-400',
+  photo: 'text-green-400',
+  user: 'text-blue-400',
+};
+
+const MapView: React.FC<MapViewProps> = ({ markers, circle, tileSource, height = 256, maxFitZoom = MAX_FIT_ZOOM, onMapClick }) => {
+  const { t } = useI18n();
+  const source = useMemo(() => tileSource ?? getDefaultTileSource(), [tileSource]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ startX: number, startY: number, origin: { x: number, y: number }, moved: boolean } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [view, setView] = useState<ViewState>({ zoom: 1, latitude: 0, longitude: 0 });
+  const [failedTiles, setFailedTiles] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    setWidth(element.clientWidth);
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Re-fit whenever the set of things to show changes.
+  const fitKey = JSON.stringify({ markers, circle, width });
+  useEffect(() => {
+    if (!width || markers.length === 0) return;
+    const points = markers.map(({ latitude, longitude }) => ({ latitude, longitude }));
+    if (circle) {
+      const latDelta = circle.radiusKm / 111;
+      points.push({ latitude: circle.latitude + latDelta, longitude: circle.longitude });
+      points.push({ latitude: circle.latitude - latDelta, longitude: circle.longitude });
+    }
+    setView(fitView(points, width, height, Math.min(source.maxZoom, maxFitZoom)));
+  }, [fitKey, height, source.maxZoom, maxFitZoom]);
+
+  const centerPx = project(view.latitude, view.longitude, view.zoom);
+  const originX = centerPx.x - width / 2;
+  const originY = centerPx.y - height / 2;
+  const tileCount = 2 ** view.zoom;
+
+  const tiles: { key: string, url: string, left: number, top: number }[] = [];
+  if (width > 0) {
+    for (let ty = Math.floor(originY / TILE_SIZE); ty <= Math.floor((originY + height) / TILE_SIZE); ty++) {
+      if (ty < 0 || ty >= tileCount) continue;
+      for (let tx = Math.floor(originX / TILE_SIZE); tx <= Math.floor((originX + width) / TILE_SIZE); tx++) {
+        const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+        const url = getTileUrl(source, view.zoom, wrappedX, ty);
+        tiles.push({ key: `${view.zoom}/${tx}/${ty}`, url, left: tx * TILE_SIZE - originX, top: ty * TILE_SIZE - originY });
+      }
+    }
+  }
+
+  const toScreen = (latitude: number, longitude: number) => {
+    const p = project(latitude, longitude, view.zoom);
+    return { left: p.x - originX, top: p.y - originY };
+  };
+
+  const changeZoom = (delta: number) => {
+    setView(prev => ({ ...prev, zoom: Math.max(0, Math.min(source.maxZoom, prev.zoom + delta)) }));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).closest('button')) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startX: e.clientX, startY: e.clientY, origin: centerPx, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    drag.moved = true;
+    const center = unproject(drag.origin.x - dx, drag.origin.y - dy, view.zoom);
+    setView(prev => ({ ...prev, ...center }));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved || !onMapClick || !containerRef.current) return;
+    const rect = containerRef.current.getBoundingClientRect();
+    const { latitude, longitude } = unproject(originX + e.clientX - rect.left, originY + e.clientY - rect.top, view.zoom);
+    onMapClick(latitude, longitude);
+  };
+
+  const circleRadiusPx = circle ? (circle.radiusKm * 1000) / metersPerPixel(circle.latitude, view.zoom) : 0;
+  const circleCenter = circle ? toScreen(circle.latitude, circle.longitude) : null;
+
+  return (
+    <div
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => { dragRef.current = null; }}
+      className="relative w-full overflow-hidden rounded-lg bg-gray-700 select-none touch-none cursor-grab"
+      style={{ height }}
+    >
+      {tiles.map(tile => (
+        !failedTiles.has(tile.url) && (
+          <img
+            key={tile.key}
+            src={tile.url}
+            alt=""
+            draggable={false}
+            onError={() => setFailedTiles(prev => new Set(prev).add(tile.url))}
+            className="absolute pointer-events-none"
+            style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        )
+      ))}
+      {circle && circleCenter && (
+        <div
+          className="absolute rounded-full border-2 border-red-500/70 bg-red-500/15 pointer-events-none"
+          style={{
+            left: circleCenter.left - circleRadiusPx,
+            top: circleCenter.top - circleRadiusPx,
+            width: circleRadiusPx * 2,
+            height: circleRadiusPx * 2,
+          }}
+        />
+      )}
+      {markers.map((marker, index) => {
+        const { left, top } = toScreen(marker.latitude, marker.longitude);
+        return marker.kind === 'user' ? (
+          <div
+            key={index}
+            title={marker.label}
+            className="absolute w-4 h-4 rounded-full bg-blue-500 border-2 border-white shadow"
+            style={{ left: left - 8, top: top - 8 }}
+          />
+        ) : (
+          <div
+            key={index}
+            title={marker.label}
+            className={`absolute drop-shadow ${markerColor[marker.kind]}`}
+            style={{ left: left - 14, top: top - 28 }}
+          >
+            <MapPin size={28} fill="currentColor" stroke="#1f2937" strokeWidth={1.5} />
+          </div>
+        );
+      })}
+      <div className="absolute top-2 right-2 flex flex-col bg-gray-800/90 rounded-lg overflow-hidden">
+        <button onClick={() => changeZoom(1)} className="p-1.5 text-gray-200 hover:bg-gray-700" aria-label={t('map.zoomIn')}>
+          <Plus size={16} />
+        </button>
+        <button onClick={() => changeZoom(-1)} className="p-1.5 text-gray-200 hover:bg-gray-700" aria-label={t('map.zoomOut')}>
+          <Minus size={16} />
+        </button>
+      </div>
+      {source.attribution && (
+        <span className="absolute bottom-0 right-0 px-1 text-[10px] bg-gray-900/70 text-gray-300">{source.attribution}</span>
+      )}
+    </div>
+  );
+};
+
+export default MapView;
@@ -0,0 +1,57 @@
+import React from 'react';
+import type { LocationPlace, MediaMetadata } from '../types';
+import { Camera, Crosshair, Clock, Compass } from 'lucide-react';
+import { formatCoordinates } from './LocationSummary';
+import { distanceKm, formatDistance } from '../utils/geo';
+import { useI18n } from '../hooks/useI18n';
+
+interface MetadataPanelProps {
+  metadata: MediaMetadata;
+  location: LocationPlace;
+  fromMetadata?: boolean;
+}
+
+const MetadataPanel: React.FC<MetadataPanelProps> = ({ metadata, location, fromMetadata }) => {
+  const { t, locale } = useI18n();
+  const camera = [metadata.make, metadata.model].filter(Boolean).join(' ');
+  if (!metadata.gps && !metadata.capturedAt && !camera && metadata.heading === undefined) {
+    return null;
+  }
+
+  return (
+    <div className="border border-gray-700 rounded-lg p-3 space-y-1 text-sm text-gray-300">
+      <p className="text-xs font-semibold uppercase tracking-wide text-gray-400">{t('metadata.title')}</p>
+      {metadata.gps && (
+        <p className="flex items-center gap-2">
+          <Crosshair size={14} className="text-green-400 shrink-0" />
+          {formatCoordinates(metadata.gps.latitude, metadata.gps.longitude)}
+          {!fromMetadata && (
+            <span className="text-gray-400">
+              · {t('metadata.distanceFromGuess', { distance: formatDistance(distanceKm(metadata.gps.latitude, metadata.gps.longitude, location.latitude, location.longitude)) })}
+            </span>
+          )}
+        </p>
+      )}
+      {metadata.capturedAt && (
+        <p className="flex items-center gap-2">
+          <Clock size={14} className="text-gray-400 shrink-0" />
+          {new Date(metadata.capturedAt).toLocaleString(locale)}
+        </p>
+      )}
+      {camera && (
+        <p className="flex items-center gap-2">
+          <Camera size={14} className="text-gray-400 shrink-0" />
+          {camera}
+        </p>
+      )}
+      {metadata.heading !== undefined && (
+        <p className="flex items-center gap-2">
+          <Compass size={14} className="text-gray-400 shrink-0" />
+          {t('metadata.heading', { degrees: Math.round(metadata.heading) })}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MetadataPanel;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Compass, Home, Landmark, ScanSearch, Zap } from 'lucide-react';
+import type { AnalysisModeId, AnalysisOptions, DetailLevel } from '../types';
+import type { MessageKey } from '../i18n';
+import { ANALYSIS_MODES, DETAIL_LEVELS, MAX_HINT_LENGTH, analysisModeFor } from '../services/analysisModes';
+import { useI18n } from '../hooks/useI18n';
+
+interface ModePickerProps {
+  options: AnalysisOptions;
+  onChange: (options: AnalysisOptions) => void;
+  disabled?: boolean;
+}
+
+const MODE_ICONS: Record<AnalysisModeId, typeof Landmark> = {
+  standard: Landmark,
+  tourist: Compass,
+  osint: ScanSearch,
+  realEstate: Home,
+  quickGuess: Zap,
+};
+
+const DETAIL_LABELS: Record<DetailLevel, MessageKey> = {
+  brief: 'mode.detail.brief',
+  normal: 'mode.detail.normal',
+  detailed: 'mode.detail.detailed',
+};
+
+const ModePicker: React.FC<ModePickerProps> = ({ options, onChange, disabled = false }) => {
+  const { t } = useI18n();
+  const active = analysisModeFor(options.mode);
+
+  // Each mode comes with the detail level it reads best at; the user can still change it afterwards.
+  const selectMode = (mode: AnalysisModeId) => onChange({ ...options, mode, detail: analysisModeFor(mode).detail });
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div role="radiogroup" aria-label={t('mode.title')} className="flex flex-wrap gap-2">
+        {ANALYSIS_MODES.map(({ id, label }) => {
+          const Icon = MODE_ICONS[id];
+          return (
+            <button
+              key={id}
+              type="button"
+              role="radio"
+              aria-checked={options.mode === id}
+              onClick={() => selectMode(id)}
+              disabled={disabled}
+              className={`flex items-center gap-1.5 px-3 py-1 rounded-full border transition disabled:opacity-50 ${options.mode === id ? 'bg-blue-500 border-blue-500 text-white' : 'border-gray-600 text-gray-300 hover:border-gray-400'}`}
+            >
+              <Icon size={14} />
+              {t(label)}
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-gray-400">{t(active.description)}</p>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-gray-300">
+          {t('mode.detail')}
+          <select
+            value={options.detail}
+            onChange={(e) => onChange({ ...options, detail: e.target.value as DetailLevel })}
+            disabled={disabled}
+            className="bg-gray-700 border border-gray-600 rounded-lg p-1.5 text-white"
+          >
+            {DETAIL_LEVELS.map(level => <option key={level} value={level}>{t(DETAIL_LABELS[level])}</option>)}
+          </select>
+        </label>
+        <input
+          type="text"
+          value={options.hint}
+          onChange={(e) => onChange({ ...options, hint: e.target.value })}
+          disabled={disabled}
+          maxLength={MAX_HINT_LENGTH}
+          placeholder={t('mode.hintPlaceholder')}
+          aria-label={t('mode.hint')}
+          className="flex-grow min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ModePicker;
@@ -1,17 +1,22 @@
-
 import React from 'react';
 
 interface ProgressBarProps {
-  progress: number;
+  progress?: number;
+  // For steps that report no measurable progress, such as speech synthesis.
+  indeterminate?: boolean;
 }
 
-const ProgressBar: React.FC<ProgressBarProps> = ({ progress }) => {
+const ProgressBar: React.FC<ProgressBarProps> = ({ progress = 0, indeterminate = false }) => {
   return (
     <div className="w-full bg-gray-600 rounded-full h-1.5 overflow-hidden">
-      <div
-        className="bg-blue-500 h-1.5 rounded-full transition-all duration-500 ease-linear"
-        style={{ width: `${progress}%` }}
-      ></div>
+      {indeterminate ? (
+        <div className="bg-blue-500 h-1.5 w-full rounded-full animate-pulse"></div>
+      ) : (
+        <div
+          className="bg-blue-500 h-1.5 rounded-full transition-all duration-500 ease-linear"
+          style={{ width: `${progress}%` }}
+        ></div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,28 @@
+import React from 'react';
+import type { RegionFinding } from '../types';
+import { regionLabel } from '../services/analysisPrompt';
+import { useI18n } from '../hooks/useI18n';
+
+interface RegionFindingsProps {
+  regions: RegionFinding[];
+}
+
+const RegionFindings: React.FC<RegionFindingsProps> = ({ regions }) => {
+  const { t } = useI18n();
+  return (
+    <div className="border border-gray-700 rounded-lg p-3 space-y-2 text-sm text-gray-300">
+      <p className="text-xs font-semibold uppercase tracking-wide text-gray-400">{t('regions.title')}</p>
+      {regions.map((region, index) => (
+        <div key={region.id} className="flex items-start gap-2">
+          <span className="shrink-0 bg-yellow-400 text-black text-xs font-bold px-1.5 py-0.5 rounded">{regionLabel(index)}</span>
+          <div className="min-w-0">
+            {region.note && <p className="text-gray-400 italic">“{region.note}”</p>}
+            <p className={region.finding ? '' : 'text-gray-500'}>{region.finding ?? t('regions.unused')}</p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RegionFindings;
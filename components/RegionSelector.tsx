@@ -0,0 +1,89 @@
+import React, { useRef, useState } from 'react';
+import type { RegionBox, RegionOfInterest } from '../types';
+import { regionLabel } from '../services/analysisPrompt';
+
+interface RegionSelectorProps {
+  src: string;
+  alt: string;
+  regions: RegionOfInterest[];
+  onChange: (regions: RegionOfInterest[]) => void;
+  // Boxes are only drawn while editing; otherwise clicks fall through to the file picker.
+  editing: boolean;
+}
+
+export const MAX_REGIONS = 8;
+// Anything smaller is almost certainly a stray click rather than a box.
+const MIN_REGION_SIZE = 0.02;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Positions an absolutely placed overlay over a box on the image it sits on. */
+export const boxStyle = ({ x, y, width, height }: RegionBox) => ({
+  left: `${x * 100}%`,
+  top: `${y * 100}%`,
+  width: `${width * 100}%`,
+  height: `${height * 100}%`,
+});
+
+const RegionSelector: React.FC<RegionSelectorProps> = ({ src, alt, regions, onChange, editing }) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [start, setStart] = useState<{ x: number, y: number } | null>(null);
+  const [draft, setDraft] = useState<RegionBox | null>(null);
+
+  const pointOf = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!editing || regions.length >= MAX_REGIONS) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setStart(pointOf(e));
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!start) return;
+    const point = pointOf(e);
+    setDraft({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (draft && draft.width >= MIN_REGION_SIZE && draft.height >= MIN_REGION_SIZE) {
+      onChange([...regions, { id: crypto.randomUUID(), box: draft, note: '' }]);
+    }
+    setStart(null);
+    setDraft(null);
+  };
+
+  return (
+    <div className={`absolute inset-0 flex items-center justify-center rounded-lg overflow-hidden bg-gray-900 ${editing ? 'z-10' : 'pointer-events-none'}`}>
+      <div
+        ref={frameRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`relative touch-none select-none ${editing ? 'cursor-crosshair' : ''}`}
+      >
+        <img src={src} alt={alt} draggable={false} className="block max-w-full max-h-64 object-contain" />
+        {regions.map((region, index) => (
+          <div key={region.id} style={boxStyle(region.box)} className="absolute border-2 border-yellow-400 bg-yellow-400/10">
+            <span className="absolute -top-0.5 -left-0.5 bg-yellow-400 text-black text-xs font-bold px-1 rounded-br">
+              {regionLabel(index)}
+            </span>
+          </div>
+        ))}
+        {draft && <div style={boxStyle(draft)} className="absolute border-2 border-dashed border-yellow-300" />}
+      </div>
+    </div>
+  );
+};
+
+export default RegionSelector;
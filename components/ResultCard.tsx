@@ -1,189 +1,162 @@
-import React, { useState, useEffect, useRef } from 'react';
-import type { AnalysisResult, Language } from '../types';
-import { Volume2, Link as LinkIcon } from 'lucide-react';
-import ProgressBar from './ProgressBar';
+import React, { useState, useEffect } from 'react';
+import { Archive, RotateCw } from 'lucide-react';
+import type { AnalysisResult, GeolocationCoordinates, Language } from '../types';
+import AudioPlayer from './AudioPlayer';
+import SourceLinks from './SourceLinks';
+import LocationSummary from './LocationSummary';
+import LocationMap from './LocationMap';
+import MetadataPanel from './MetadataPanel';
+import RegionFindings from './RegionFindings';
+import ClueList from './ClueList';
+import ExportMenu from './ExportMenu';
+import VideoTimeline from './VideoTimeline';
+import { LANGUAGES, LOCALES, describedLanguages } from '../services/locales';
+import { LocalizedError, describeError } from '../services/errors';
+import { useI18n } from '../hooks/useI18n';
 
 interface ResultCardProps {
   result: AnalysisResult;
-  audioData: string | null;
-  isGeneratingAudio: boolean;
-  audioError: string | null;
-}
-
-// Audio decoding utility functions (as per Gemini docs)
-function decode(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / 1; // Mono channel
-  const buffer = ctx.createBuffer(1, frameCount, 24000); // 24kHz sample rate
-  const channelData = buffer.getChannelData(0);
-  for (let i = 0; i < frameCount; i++) {
-    channelData[i] = dataInt16[i] / 32768.0;
-  }
-  return buffer;
+  // Generated speech (base64 PCM) keyed by description language.
+  audioClips?: Partial<Record<Language, string>>;
+  generatingAudioFor?: Language | null;
+  audioError?: Error | null;
+  // Asks for speech in a language that has none yet; audio is unavailable without it.
+  onRequestAudio?: (language: Language) => void;
+  onCancelAudio?: () => void;
+  userCoordinates?: GeolocationCoordinates | null;
+  fileName?: string;
+  // The analyzed image, for drawing clue boxes on.
+  previewSrc?: string;
+  // Adds a language to the result; the add-language picker is hidden without it.
+  onTranslate?: (language: Language) => Promise<void>;
+  // When the result came from the local cache rather than a fresh analysis.
+  cachedAt?: number | null;
+  onRerun?: () => void;
 }
 
-
-const ResultCard: React.FC<ResultCardProps> = ({ result, audioData, isGeneratingAudio, audioError }) => {
-  const [selectedLang, setSelectedLang] = useState<Language>('en');
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
-  const [isPlaying, setIsPlaying] = useState<boolean>(false);
-  const [progress, setProgress] = useState(0);
-
-  // Gets or creates a singleton AudioContext
-  const getAudioContext = () => {
-    if (!audioContextRef.current) {
-        const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-        if (AudioContext) {
-            audioContextRef.current = new AudioContext();
-        }
-    }
-    return audioContextRef.current;
-  }
+const ResultCard: React.FC<ResultCardProps> = ({
+  result, audioClips = {}, generatingAudioFor = null, audioError = null, onRequestAudio, onCancelAudio,
+  userCoordinates, fileName = 'analysis', previewSrc, onTranslate, cachedAt = null, onRerun,
+}) => {
+  const { t, locale } = useI18n();
+  const languages = describedLanguages(result.descriptions);
+  const [selectedLang, setSelectedLang] = useState<Language>(languages[0] ?? 'en');
+  const [translatingTo, setTranslatingTo] = useState<Language | null>(null);
+  const [translateError, setTranslateError] = useState<Error | null>(null);
+  const [selectedSegment, setSelectedSegment] = useState<number | null>(null);
 
   useEffect(() => {
-    const processAudio = async () => {
-      const audioContext = getAudioContext();
-      if (audioData && audioContext) {
-        try {
-          const decodedBytes = decode(audioData);
-          const buffer = await decodeAudioData(decodedBytes, audioContext);
-          setAudioBuffer(buffer);
-        } catch (error) {
-          console.error("Failed to decode audio data:", error);
-        }
-      }
-    };
-    processAudio();
-  }, [audioData]);
+    setSelectedSegment(null);
+    setSelectedLang(prev => (result.descriptions[prev] !== undefined ? prev : describedLanguages(result.descriptions)[0] ?? 'en'));
+  }, [result]);
+
+  const hasSpeech = Boolean(onRequestAudio) && LOCALES[selectedLang].speech && Boolean(result.descriptions[selectedLang]);
+  const clip = audioClips[selectedLang] ?? null;
 
+  // Speech is generated lazily, the first time a language tab is shown.
   useEffect(() => {
-    let timer: number | undefined;
-    if (isGeneratingAudio) {
-      setProgress(0); // Reset on start
-      timer = window.setInterval(() => {
-        setProgress(prev => {
-          if (prev >= 95) { // Pause at 95% to wait for completion
-            clearInterval(timer);
-            return 95;
-          }
-          return prev + 5; // Increment progress
-        });
-      }, 400); // Simulate progress
-    } else {
-        setProgress(100); // Complete the bar on finish/error
+    if (hasSpeech && !clip) {
+      onRequestAudio?.(selectedLang);
     }
+  }, [selectedLang, result, hasSpeech, clip, onRequestAudio]);
 
-    return () => {
-      if (timer) clearInterval(timer);
-    };
-  }, [isGeneratingAudio]);
-  
-
-  const handlePlayAudio = () => {
-    const audioContext = getAudioContext();
-    if (audioBuffer && audioContext) {
-      if(audioContext.state === 'suspended') {
-        audioContext.resume();
-      }
-      
-      if (isPlaying) return;
-
-      const source = audioContext.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(audioContext.destination);
-      source.onended = () => setIsPlaying(false);
-      source.start();
-      setIsPlaying(true);
+  const handleTranslate = async (language: Language) => {
+    if (!onTranslate) return;
+    setTranslatingTo(language);
+    setTranslateError(null);
+    try {
+      await onTranslate(language);
+      setSelectedLang(language);
+    } catch (err) {
+      console.error("Translation failed:", err);
+      setTranslateError(err instanceof Error ? err : new LocalizedError('errors.translationFailed', { language: LOCALES[language].name }));
+    } finally {
+      setTranslatingTo(null);
     }
   };
 
-  const textToDisplay = selectedLang === 'en' ? result.en : result.ru;
+  const segment = selectedSegment !== null ? result.timeline?.[selectedSegment] : undefined;
+  const shown = segment ?? result;
+  const textToDisplay = shown.descriptions[selectedLang] ?? result.descriptions[selectedLang] ?? '';
+  const missingLanguages = LANGUAGES.filter(code => !languages.includes(code));
 
   return (
     <div className="bg-gray-800 rounded-lg p-6 animate-fade-in space-y-4 h-full flex flex-col">
       <div className="flex justify-between items-center">
-        <h2 className="text-xl font-bold text-white">Analysis Result</h2>
+        <h2 className="text-xl font-bold text-white">{t('result.title')}</h2>
         <div className="flex items-center space-x-2">
-           <button
-            onClick={handlePlayAudio}
-            disabled={!audioBuffer || isPlaying || isGeneratingAudio}
-            className="flex items-center justify-center p-2 bg-blue-500 rounded-full text-white hover:bg-blue-600 transition disabled:bg-gray-600 disabled:cursor-not-allowed"
-            aria-label="Play audio summary"
-          >
-            <Volume2 size={20} />
-          </button>
-          <div className="flex items-center bg-gray-700 rounded-full p-1">
-            <button
-              onClick={() => setSelectedLang('en')}
-              className={`px-3 py-1 text-sm rounded-full ${selectedLang === 'en' ? 'bg-blue-500 text-white' : 'text-gray-300'}`}
-            >
-              EN
-            </button>
-            <button
-              onClick={() => setSelectedLang('ru')}
-              className={`px-3 py-1 text-sm rounded-full ${selectedLang === 'ru' ? 'bg-blue-500 text-white' : 'text-gray-300'}`}
-            >
-              RU
-            </button>
+          <ExportMenu records={[{ fileName, result }]} baseName={`geo-locator-${fileName.replace(/\.[^.]+$/, '')}`} />
+          <div className="flex items-center flex-wrap bg-gray-700 rounded-full p-1">
+            {languages.map(code => (
+              <button
+                key={code}
+                onClick={() => setSelectedLang(code)}
+                title={LOCALES[code].nativeName}
+                className={`px-3 py-1 text-sm rounded-full ${selectedLang === code ? 'bg-blue-500 text-white' : 'text-gray-300'}`}
+              >
+                {code.toUpperCase()}
+              </button>
+            ))}
+            {onTranslate && missingLanguages.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => handleTranslate(e.target.value as Language)}
+                disabled={translatingTo !== null}
+                className="bg-transparent text-sm text-gray-300 px-2 py-1 rounded-full focus:outline-none disabled:opacity-50"
+                aria-label={t('result.translate')}
+              >
+                <option value="">{translatingTo ? t('result.translating', { language: LOCALES[translatingTo].nativeName }) : t('result.addLanguage')}</option>
+                {missingLanguages.map(code => <option key={code} value={code}>{LOCALES[code].nativeName}</option>)}
+              </select>
+            )}
           </div>
         </div>
       </div>
-       {(isGeneratingAudio || audioError) && (
-        <div className="space-y-2">
-          {isGeneratingAudio && (
-            <>
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-400">Generating audio summary...</span>
-                <span className="text-gray-300">{progress}%</span>
-              </div>
-              <ProgressBar progress={progress} />
-            </>
-          )}
-          {audioError && !isGeneratingAudio && (
-            <p className="text-sm text-red-400">Could not generate audio: {audioError}</p>
+      {cachedAt !== null && (
+        <div className="flex flex-wrap items-center justify-between gap-2 bg-gray-700/50 rounded-lg px-3 py-2 text-sm">
+          <span className="inline-flex items-center gap-2 text-emerald-300">
+            <Archive size={16} />
+            {t('result.cached', { date: new Date(cachedAt).toLocaleString(locale) })}
+          </span>
+          {onRerun && (
+            <button onClick={onRerun} className="inline-flex items-center gap-1 text-blue-400 hover:text-blue-300">
+              <RotateCw size={14} />
+              {t('result.rerun')}
+            </button>
           )}
         </div>
       )}
+      {translateError && <p className="text-sm text-red-400">{t('result.translateError', { reason: describeError(translateError, t) })}</p>}
+      {hasSpeech && (
+        <AudioPlayer
+          audioData={clip}
+          isGenerating={generatingAudioFor === selectedLang}
+          error={generatingAudioFor === null && !clip ? audioError : null}
+          downloadName={`geo-locator-${fileName.replace(/\.[^.]+$/, '')}-${selectedLang}`}
+          onCancel={onCancelAudio}
+          onGenerate={() => onRequestAudio?.(selectedLang)}
+        />
+      )}
+      {result.timeline && (
+        <VideoTimeline segments={result.timeline} selectedIndex={selectedSegment} onSelect={setSelectedSegment} />
+      )}
+      <LocationSummary location={shown.location} />
+      {result.metadata && <MetadataPanel metadata={result.metadata} location={shown.location} fromMetadata={result.fromMetadata} />}
+      {result.clues && result.clues.length > 0 && <ClueList clues={result.clues} previewSrc={previewSrc} />}
+      {result.regions && result.regions.length > 0 && <RegionFindings regions={result.regions} />}
+      <LocationMap
+        location={shown.location}
+        sources={result.sources}
+        userCoordinates={userCoordinates}
+        photoPosition={result.fromMetadata ? undefined : result.metadata?.gps}
+      />
       <div className="prose prose-invert prose-p:text-gray-300 max-w-none overflow-y-auto pr-2 h-48 md:h-auto md:flex-grow">
         <p>{textToDisplay}</p>
       </div>
       {result.sources.length > 0 && (
         <div className="pt-4 border-t border-gray-700">
-          <h3 className="text-md font-semibold text-gray-200 mb-2">Sources</h3>
-          <ul className="space-y-1 text-sm max-h-24 overflow-y-auto">
-            {result.sources.map((source, index) => {
-              const info = source.web || source.maps;
-              // FIX: Ensure info and info.uri exist before rendering the link.
-              if (!info || !info.uri) return null;
-              return (
-                <li key={index}>
-                  <a
-                    href={info.uri}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="flex items-center gap-2 text-blue-400 hover:text-blue-300 hover:underline truncate"
-                  >
-                    <LinkIcon size={14} />
-                    <span className="truncate">{info.title || 'Source Link'}</span>
-                  </a>
-                </li>
-              );
-            })}
-          </ul>
+          <h3 className="text-md font-semibold text-gray-200 mb-2">{t('result.sources')}</h3>
+          <SourceLinks sources={result.sources} className="max-h-24 overflow-y-auto" />
         </div>
       )}
     </div>
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import type { AnalysisModeId, Language, ModeModelSettings, ProviderId, ProviderSettings } from '../types';
+import { Settings, Trash2, X } from 'lucide-react';
+import { MOCK_FIXTURES } from '../services/mockFixtures';
+import { DEFAULT_PROVIDER_SETTINGS } from '../services/providerSettings';
+import { LANGUAGES, LOCALES } from '../services/locales';
+import { ANALYSIS_MODES, modeModelSettings } from '../services/analysisModes';
+import { MAX_CACHE_BYTES, clearAnalysisCache, getCacheUsage } from '../services/analysisCache';
+import { formatBytes } from '../utils/fileUtils';
+import { useI18n } from '../hooks/useI18n';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const GEMINI_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+const inputClass = "w-full bg-gray-900 border border-gray-600 rounded-lg p-2 text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500";
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, settings, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  // Undefined while loading, null when the browser has no IndexedDB.
+  const [cacheUsage, setCacheUsage] = useState<{ entries: number, bytes: number } | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (isOpen) setDraft(settings);
+  }, [isOpen, settings]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    getCacheUsage()
+      .then(setCacheUsage)
+      .catch(err => {
+        console.error("Failed to read the result cache:", err);
+        setCacheUsage(null);
+      });
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleClearCache = async () => {
+    try {
+      await clearAnalysisCache();
+      setCacheUsage({ entries: 0, bytes: 0 });
+    } catch (err) {
+      console.error("Failed to clear the result cache:", err);
+    }
+  };
+
+  const updateGemini = (key: 'imageModel' | 'videoModel' | 'ttsModel', value: string) => {
+    setDraft(prev => ({ ...prev, gemini: { ...prev.gemini, [key]: value } }));
+  };
+
+  const updateMode = (mode: AnalysisModeId, changes: Partial<ModeModelSettings>) => {
+    setDraft(prev => ({
+      ...prev,
+      gemini: { ...prev.gemini, modes: { ...prev.gemini.modes, [mode]: { ...modeModelSettings(prev.gemini, mode), ...changes } } },
+    }));
+  };
+
+  const updateVoice = (language: Language, voice: string) => {
+    setDraft(prev => {
+      const voices = { ...prev.gemini.voices };
+      if (voice) voices[language] = voice;
+      else delete voices[language];
+      return { ...prev, gemini: { ...prev.gemini, voices } };
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 backdrop-blur-sm">
+      <div className="bg-gray-800 border border-gray-700 rounded-xl shadow-2xl p-8 w-full max-w-md m-4 max-h-[90vh] overflow-y-auto animate-fade-in">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-500/20 rounded-full">
+              <Settings size={24} className="text-blue-400" />
+            </div>
+            <h2 className="text-2xl font-bold text-white">{t('settings.title')}</h2>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white" aria-label={t('settings.close')}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-4 text-sm">
+          <label className="block text-gray-300">
+            {t('settings.provider')}
+            <select
+              value={draft.provider}
+              onChange={(e) => setDraft(prev => ({ ...prev, provider: e.target.value as ProviderId }))}
+              className={`${inputClass} mt-1`}
+            >
+              <option value="gemini">{t('settings.provider.gemini')}</option>
+              <option value="proxy">{t('settings.provider.proxy')}</option>
+              <option value="mock">{t('settings.provider.mock')}</option>
+            </select>
+          </label>
+
+          {draft.provider === 'gemini' ? (
+            <>
+              <label className="block text-gray-300">
+                {t('settings.imageModel')}
+                <input value={draft.gemini.imageModel} onChange={(e) => updateGemini('imageModel', e.target.value)} className={`${inputClass} mt-1`} />
+              </label>
+              <label className="block text-gray-300">
+                {t('settings.videoModel')}
+                <input value={draft.gemini.videoModel} onChange={(e) => updateGemini('videoModel', e.target.value)} className={`${inputClass} mt-1`} />
+              </label>
+              <label className="block text-gray-300">
+                {t('settings.speechModel')}
+                <input value={draft.gemini.ttsModel} onChange={(e) => updateGemini('ttsModel', e.target.value)} className={`${inputClass} mt-1`} />
+              </label>
+              <fieldset className="text-gray-300">
+                <legend>{t('settings.voices')}</legend>
+                <div className="grid grid-cols-2 gap-2 mt-1 max-h-48 overflow-y-auto pr-1">
+                  {LANGUAGES.filter(code => LOCALES[code].speech).map(code => (
+                    <label key={code} className="block text-xs text-gray-400">
+                      {LOCALES[code].nativeName}
+                      <select
+                        value={draft.gemini.voices[code] ?? ''}
+                        onChange={(e) => updateVoice(code, e.target.value)}
+                        className={`${inputClass} mt-1 text-sm`}
+                      >
+                        <option value="">{t('settings.defaultVoice', { voice: LOCALES[code].voice })}</option>
+                        {GEMINI_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+              <fieldset className="text-gray-300">
+                <legend>{t('settings.modes')}</legend>
+                <p className="mt-1 text-xs text-gray-500">{t('settings.modesHint')}</p>
+                <div className="space-y-3 mt-2">
+                  {ANALYSIS_MODES.map(({ id, label }) => {
+                    const mode = modeModelSettings(draft.gemini, id);
+                    return (
+                      <div key={id} className="space-y-1">
+                        <label className="block text-xs text-gray-400">
+                          {t('settings.modeModel', { mode: t(label) })}
+                          <input
+                            value={mode.model}
+                            onChange={(e) => updateMode(id, { model: e.target.value.trim() })}
+                            placeholder={draft.gemini.imageModel}
+                            className={`${inputClass} mt-1 text-sm`}
+                          />
+                        </label>
+                        <div className="flex gap-4 text-xs">
+                          <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="checkbox" checked={mode.search} onChange={(e) => updateMode(id, { search: e.target.checked })} className="accent-blue-500" />
+                            {t('settings.modeSearch')}
+                          </label>
+                          <label className="flex items-center gap-1.5 cursor-pointer">
+                            <input type="checkbox" checked={mode.maps} onChange={(e) => updateMode(id, { maps: e.target.checked })} className="accent-blue-500" />
+                            {t('settings.modeMaps')}
+                          </label>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </fieldset>
+            </>
+          ) : draft.provider === 'proxy' ? (
+            <label className="block text-gray-300">
+              {t('settings.proxyUrl')}
+              <input
+                value={draft.proxyBaseUrl}
+                onChange={(e) => setDraft(prev => ({ ...prev, proxyBaseUrl: e.target.value }))}
+                className={`${inputClass} mt-1`}
+              />
+              <span className="block mt-1 text-xs text-gray-500">{t('settings.proxyHint')}</span>
+            </label>
+          ) : (
+            <>
+              <label className="block text-gray-300">
+                {t('settings.scenario')}
+                <select
+                  value={draft.mockScenario}
+                  onChange={(e) => setDraft(prev => ({ ...prev, mockScenario: e.target.value }))}
+                  className={`${inputClass} mt-1`}
+                >
+                  <option value="auto">{t('settings.scenario.auto')}</option>
+                  {MOCK_FIXTURES.map(fixture => <option key={fixture.id} value={fixture.id}>{fixture.label}</option>)}
+                </select>
+              </label>
+              <label className="block text-gray-300">
+                {t('settings.latency')}
+                <input
+                  type="number"
+                  min={0}
+                  step={100}
+                  value={draft.mockLatencyMs}
+                  onChange={(e) => setDraft(prev => ({ ...prev, mockLatencyMs: Math.max(0, Number(e.target.value)) }))}
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+            </>
+          )}
+
+          <section className="pt-4 border-t border-gray-700 space-y-2 text-gray-300">
+            <h3 className="font-semibold text-gray-200">{t('settings.cache')}</h3>
+            <p className="text-xs text-gray-500">{t('settings.cacheHint')}</p>
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-gray-400">
+                {cacheUsage === undefined ? null : cacheUsage
+                  ? t('settings.cacheUsage', { count: cacheUsage.entries, size: formatBytes(cacheUsage.bytes), limit: formatBytes(MAX_CACHE_BYTES) })
+                  : t('settings.cacheUnavailable')}
+              </span>
+              <button
+                onClick={handleClearCache}
+                disabled={!cacheUsage?.entries}
+                className="inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Trash2 size={14} />
+                {t('settings.clearCache')}
+              </button>
+            </div>
+          </section>
+        </div>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={() => setDraft(DEFAULT_PROVIDER_SETTINGS)}
+            className="flex-1 py-3 px-4 rounded-lg bg-gray-700 text-gray-200 hover:bg-gray-600"
+          >
+            {t('settings.reset')}
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="flex-1 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-bold py-3 px-4 rounded-lg shadow-lg"
+          >
+            {t('settings.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
@@ -0,0 +1,37 @@
+import React from 'react';
+import type { GroundingChunk } from '../types';
+import { Link as LinkIcon } from 'lucide-react';
+import { useI18n } from '../hooks/useI18n';
+
+interface SourceLinksProps {
+  sources: GroundingChunk[];
+  className?: string;
+}
+
+const SourceLinks: React.FC<SourceLinksProps> = ({ sources, className = '' }) => {
+  const { t } = useI18n();
+  return (
+    <ul className={`space-y-1 text-sm ${className}`}>
+      {sources.map((source, index) => {
+        const info = source.web || source.maps;
+        // FIX: Ensure info and info.uri exist before rendering the link.
+        if (!info || !info.uri) return null;
+        return (
+          <li key={index}>
+            <a
+              href={info.uri}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 text-blue-400 hover:text-blue-300 hover:underline truncate"
+            >
+              <LinkIcon size={14} />
+              <span className="truncate">{info.title || t('result.sourceLink')}</span>
+            </a>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default SourceLinks;
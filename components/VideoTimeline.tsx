@@ -0,0 +1,69 @@
+import React from 'react';
+import type { TimelineSegment } from '../types';
+import { Film } from 'lucide-react';
+import { formatPlaceName } from './LocationSummary';
+import { useI18n } from '../hooks/useI18n';
+
+interface VideoTimelineProps {
+  segments: TimelineSegment[];
+  // null means the overall (longest) segment is shown.
+  selectedIndex: number | null;
+  onSelect: (index: number | null) => void;
+}
+
+export const formatTimestamp = (seconds: number): string => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const VideoTimeline: React.FC<VideoTimelineProps> = ({ segments, selectedIndex, onSelect }) => {
+  const { t } = useI18n();
+  const total = Math.max(...segments.map(segment => segment.end), 0.001);
+
+  return (
+    <div className="bg-gray-700/50 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-200">
+          <Film size={16} className="text-blue-400" />
+          {t('timeline.title')}
+        </h3>
+        {selectedIndex !== null && (
+          <button onClick={() => onSelect(null)} className="text-xs text-blue-400 hover:text-blue-300">
+            {t('timeline.showOverall')}
+          </button>
+        )}
+      </div>
+      <div className="flex h-2 rounded-full overflow-hidden bg-gray-600">
+        {segments.map((segment, index) => (
+          <button
+            key={index}
+            onClick={() => onSelect(index)}
+            style={{ width: `${((segment.end - segment.start) / total) * 100}%` }}
+            className={`h-full border-r border-gray-800 last:border-r-0 ${index === selectedIndex ? 'bg-blue-400' : index % 2 ? 'bg-purple-500/70' : 'bg-blue-500/70'}`}
+            aria-label={t('timeline.segment', { index: index + 1 })}
+          />
+        ))}
+      </div>
+      <ul className="space-y-2 max-h-48 overflow-y-auto">
+        {segments.map((segment, index) => (
+          <li key={index}>
+            <button
+              onClick={() => onSelect(index)}
+              className={`w-full flex items-center gap-3 p-2 rounded-lg text-left ${index === selectedIndex ? 'bg-blue-500/20 ring-1 ring-blue-500' : 'hover:bg-gray-700'}`}
+            >
+              <img src={segment.thumbnail} alt="" className="w-16 h-10 object-cover rounded shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm text-white truncate">{formatPlaceName(segment.location) || t('location.unnamed')}</p>
+                <p className="text-xs text-gray-400">
+                  {formatTimestamp(segment.start)} – {formatTimestamp(segment.end)} · {Math.round(segment.location.confidence * 100)}%
+                </p>
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default VideoTimeline;
@@ -0,0 +1,64 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/** One photo or video whose true location is known. */
+export interface EvaluationCase {
+    id: string;
+    // Absolute once loaded; relative to the manifest file in the JSON.
+    file: string;
+    latitude: number;
+    longitude: number;
+    // ISO 3166-1 alpha-2, for the country hit rate.
+    countryCode?: string;
+    city?: string;
+}
+
+export interface EvaluationManifest {
+    name: string;
+    cases: EvaluationCase[];
+}
+
+const isCoordinate = (value: unknown, limit: number): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+
+/**
+ * Reads a manifest of the form `{ "name": "...", "cases": [{ "file", "latitude",
+ * "longitude", "countryCode"?, "city"?, "id"? }] }`, listing every invalid entry at once.
+ */
+export const loadManifest = async (manifestPath: string): Promise<EvaluationManifest> => {
+    const raw = JSON.parse(await readFile(manifestPath, 'utf8'));
+    const root = path.dirname(path.resolve(manifestPath));
+    if (!Array.isArray(raw?.cases) || raw.cases.length === 0) {
+        throw new Error(`${manifestPath}: "cases" must be a non-empty array.`);
+    }
+
+    const issues: string[] = [];
+    const ids = new Set<string>();
+    const cases = raw.cases.map((entry: Record<string, unknown>, index: number): EvaluationCase => {
+        const where = `cases[${index}]`;
+        if (typeof entry?.file !== 'string' || !entry.file) issues.push(`${where}.file must be a path`);
+        if (!isCoordinate(entry?.latitude, 90)) issues.push(`${where}.latitude must be a number between -90 and 90`);
+        if (!isCoordinate(entry?.longitude, 180)) issues.push(`${where}.longitude must be a number between -180 and 180`);
+        if (entry?.countryCode !== undefined && (typeof entry.countryCode !== 'string' || !/^[A-Za-z]{2}$/.test(entry.countryCode))) {
+            issues.push(`${where}.countryCode must be a two-letter code`);
+        }
+        if (entry?.city !== undefined && typeof entry.city !== 'string') issues.push(`${where}.city must be a string`);
+
+        const id = typeof entry?.id === 'string' && entry.id ? entry.id : String(entry?.file);
+        if (ids.has(id)) issues.push(`${where}.id "${id}" is used twice`);
+        ids.add(id);
+        return {
+            id,
+            file: path.resolve(root, String(entry?.file)),
+            latitude: entry?.latitude as number,
+            longitude: entry?.longitude as number,
+            countryCode: typeof entry?.countryCode === 'string' ? entry.countryCode.toUpperCase() : undefined,
+            city: typeof entry?.city === 'string' ? entry.city : undefined,
+        };
+    });
+
+    if (issues.length > 0) {
+        throw new Error(`${manifestPath} is invalid:\n  ${issues.join('\n  ')}`);
+    }
+    return { name: typeof raw.name === 'string' ? raw.name : path.basename(manifestPath, '.json'), cases };
+};
@@ -0,0 +1,118 @@
+import type { AnalysisResult } from '../types';
+import type { EvaluationCase } from './manifest';
+import { NoLocationError, UnparseableResponseError } from '../services/errors';
+import { distanceKm } from '../utils/geo';
+
+// The usual geolocation benchmark scale: street, city, region, country, continent.
+export const DISTANCE_THRESHOLDS_KM = [1, 25, 200, 750, 2500];
+
+export type CaseStatus = 'located' | 'parseFailure' | 'noLocation' | 'error';
+
+export interface CaseOutcome {
+    id: string;
+    status: CaseStatus;
+    expected: Omit<EvaluationCase, 'id' | 'file'>;
+    predicted?: {
+        latitude: number;
+        longitude: number;
+        countryCode: string | null;
+        city: string | null;
+        confidence: number;
+    };
+    errorKm?: number;
+    // Left out when the manifest does not give the expected value.
+    countryHit?: boolean;
+    cityHit?: boolean;
+    error?: string;
+}
+
+export interface EvaluationSummary {
+    cases: number;
+    located: number;
+    parseFailures: number;
+    noLocation: number;
+    errors: number;
+    medianErrorKm: number | null;
+    meanErrorKm: number | null;
+    // Share of all cases, failures included, within each threshold, keyed like "25km".
+    accuracy: Record<string, number>;
+    countryHitRate: number | null;
+    cityHitRate: number | null;
+}
+
+export const thresholdKey = (km: number): string => `${km}km`;
+
+// Case and accents differ between the model and hand-written manifests ("Zürich" / "Zurich").
+const normalizeName = (name: string): string =>
+    name.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().trim();
+
+const statusOf = (error: unknown): CaseStatus => {
+    if (error instanceof UnparseableResponseError) return 'parseFailure';
+    if (error instanceof NoLocationError) return 'noLocation';
+    return 'error';
+};
+
+/** Scores one case from either the analysis result or the error it failed with. */
+export const scoreCase = (testCase: EvaluationCase, outcome: { result: AnalysisResult } | { error: unknown }): CaseOutcome => {
+    const { id, file, ...expected } = testCase;
+    if ('error' in outcome) {
+        return {
+            id,
+            status: statusOf(outcome.error),
+            expected,
+            countryHit: expected.countryCode ? false : undefined,
+            cityHit: expected.city ? false : undefined,
+            error: outcome.error instanceof Error ? outcome.error.message : String(outcome.error),
+        };
+    }
+
+    const { location } = outcome.result;
+    const predictedCity = location.city ?? null;
+    return {
+        id,
+        status: 'located',
+        expected,
+        predicted: {
+            latitude: location.latitude,
+            longitude: location.longitude,
+            countryCode: location.countryCode ?? null,
+            city: predictedCity,
+            confidence: location.confidence,
+        },
+        errorKm: distanceKm(expected.latitude, expected.longitude, location.latitude, location.longitude),
+        countryHit: expected.countryCode ? location.countryCode?.toUpperCase() === expected.countryCode : undefined,
+        cityHit: expected.city ? predictedCity !== null && normalizeName(predictedCity) === normalizeName(expected.city) : undefined,
+    };
+};
+
+const median = (values: number[]): number | null => {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const hitRate = (hits: (boolean | undefined)[]): number | null => {
+    const scored = hits.filter((hit): hit is boolean => hit !== undefined);
+    return scored.length ? scored.filter(Boolean).length / scored.length : null;
+};
+
+export const summarize = (outcomes: CaseOutcome[]): EvaluationSummary => {
+    const errors = outcomes.flatMap(outcome => (outcome.errorKm === undefined ? [] : [outcome.errorKm]));
+    const count = (status: CaseStatus) => outcomes.filter(outcome => outcome.status === status).length;
+    return {
+        cases: outcomes.length,
+        located: count('located'),
+        parseFailures: count('parseFailure'),
+        noLocation: count('noLocation'),
+        errors: count('error'),
+        medianErrorKm: median(errors),
+        meanErrorKm: errors.length ? errors.reduce((sum, km) => sum + km, 0) / errors.length : null,
+        accuracy: Object.fromEntries(DISTANCE_THRESHOLDS_KM.map(km => [
+            thresholdKey(km),
+            outcomes.length ? errors.filter(error => error <= km).length / outcomes.length : 0,
+        ])),
+        countryHitRate: hitRate(outcomes.map(outcome => outcome.countryHit)),
+        cityHitRate: hitRate(outcomes.map(outcome => outcome.cityHit)),
+    };
+};
@@ -0,0 +1,110 @@
+import type { CaseOutcome, EvaluationSummary } from './metrics';
+import { DISTANCE_THRESHOLDS_KM, thresholdKey } from './metrics';
+
+export interface EvaluationReport {
+    manifest: string;
+    model: string;
+    promptVersion: number;
+    // Name and version of the mode's prompt template; absent in reports from before modes existed.
+    template?: string;
+    generatedAt: string;
+    summary: EvaluationSummary;
+    cases: CaseOutcome[];
+}
+
+const escapeHtml = (value: string): string =>
+    value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const percent = (value: number | null): string => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+const kilometres = (value: number | null | undefined): string => (value === null || value === undefined ? '—' : `${value.toFixed(1)} km`);
+
+// Positive deltas are good for rates and bad for distances, so the caller says which way is better.
+const delta = (current: number | null | undefined, previous: number | null | undefined, format: (value: number) => string, higherIsBetter: boolean): string => {
+    if (current === null || current === undefined || previous === null || previous === undefined) return '';
+    const change = current - previous;
+    if (Math.abs(change) < 1e-9) return '<td class="same">±0</td>';
+    const better = change > 0 === higherIsBetter;
+    return `<td class="${better ? 'better' : 'worse'}">${change > 0 ? '+' : '−'}${format(Math.abs(change))}</td>`;
+};
+
+const summaryRows = (summary: EvaluationSummary, baseline?: EvaluationSummary): string => {
+    const rate = (value: number) => `${(value * 100).toFixed(1)} pt`;
+    const rows: [string, string, string][] = [
+        ['Cases', String(summary.cases), ''],
+        ['Located', String(summary.located), baseline ? delta(summary.located, baseline.located, String, true) : ''],
+        ['Parse failures', String(summary.parseFailures), baseline ? delta(summary.parseFailures, baseline.parseFailures, String, false) : ''],
+        ['No location', String(summary.noLocation), baseline ? delta(summary.noLocation, baseline.noLocation, String, false) : ''],
+        ['Other errors', String(summary.errors), baseline ? delta(summary.errors, baseline.errors, String, false) : ''],
+        ['Median error', kilometres(summary.medianErrorKm), baseline ? delta(summary.medianErrorKm, baseline.medianErrorKm, kilometres, false) : ''],
+        ['Mean error', kilometres(summary.meanErrorKm), baseline ? delta(summary.meanErrorKm, baseline.meanErrorKm, kilometres, false) : ''],
+        ...DISTANCE_THRESHOLDS_KM.map((km): [string, string, string] => {
+            const key = thresholdKey(km);
+            return [`Within ${km} km`, percent(summary.accuracy[key]), baseline ? delta(summary.accuracy[key], baseline.accuracy[key], rate, true) : ''];
+        }),
+        ['Country hit rate', percent(summary.countryHitRate), baseline ? delta(summary.countryHitRate, baseline.countryHitRate, rate, true) : ''],
+        ['City hit rate', percent(summary.cityHitRate), baseline ? delta(summary.cityHitRate, baseline.cityHitRate, rate, true) : ''],
+    ];
+    return rows.map(([label, value, change]) => `<tr><th>${label}</th><td>${value}</td>${baseline ? change || '<td></td>' : ''}</tr>`).join('\n');
+};
+
+const hitCell = (hit: boolean | undefined): string =>
+    hit === undefined ? '<td></td>' : `<td class="${hit ? 'better' : 'worse'}">${hit ? 'yes' : 'no'}</td>`;
+
+const caseRow = (outcome: CaseOutcome, withChange: boolean, previous?: CaseOutcome): string => {
+    const { predicted } = outcome;
+    const place = predicted
+        ? `${escapeHtml(predicted.city ?? '—')}, ${escapeHtml(predicted.countryCode ?? '—')} (${predicted.latitude.toFixed(4)}, ${predicted.longitude.toFixed(4)})`
+        : escapeHtml(outcome.error ?? '');
+    return [
+        '<tr>',
+        `<td>${escapeHtml(outcome.id)}</td>`,
+        `<td>${outcome.status}</td>`,
+        `<td>${place}</td>`,
+        `<td>${kilometres(outcome.errorKm)}</td>`,
+        withChange ? delta(outcome.errorKm, previous?.errorKm, kilometres, false) || '<td></td>' : '',
+        hitCell(outcome.countryHit),
+        hitCell(outcome.cityHit),
+        '</tr>',
+    ].join('');
+};
+
+/** A standalone page with the summary and every case, with changes against `baseline` when given. */
+export const renderHtml = (report: EvaluationReport, baseline?: EvaluationReport): string => {
+    const previousCases = new Map(baseline?.cases.map(outcome => [outcome.id, outcome]));
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Location accuracy — ${escapeHtml(report.manifest)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+  table { border-collapse: collapse; margin-bottom: 2rem; }
+  th, td { border: 1px solid #d1d5db; padding: 0.3rem 0.6rem; text-align: left; }
+  thead th { background: #f3f4f6; }
+  .better { color: #047857; }
+  .worse { color: #b91c1c; }
+  .same { color: #6b7280; }
+</style>
+</head>
+<body>
+<h1>Location accuracy — ${escapeHtml(report.manifest)}</h1>
+<p>Model <code>${escapeHtml(report.model)}</code>, prompt version ${report.promptVersion}${report.template ? ` (${escapeHtml(report.template)})` : ''}, run ${escapeHtml(report.generatedAt)}.${
+    baseline ? ` Compared with <code>${escapeHtml(baseline.model)}</code>, prompt version ${baseline.promptVersion}${baseline.template ? ` (${escapeHtml(baseline.template)})` : ''}, run ${escapeHtml(baseline.generatedAt)}.` : ''}</p>
+<h2>Summary</h2>
+<table>
+<thead><tr><th></th><th>This run</th>${baseline ? '<th>Change</th>' : ''}</tr></thead>
+<tbody>
+${summaryRows(report.summary, baseline?.summary)}
+</tbody>
+</table>
+<h2>Cases</h2>
+<table>
+<thead><tr><th>Case</th><th>Status</th><th>Prediction</th><th>Error</th>${baseline ? '<th>Change</th>' : ''}<th>Country</th><th>City</th></tr></thead>
+<tbody>
+${report.cases.map(outcome => caseRow(outcome, !!baseline, previousCases.get(outcome.id))).join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`;
+};
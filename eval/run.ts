@@ -0,0 +1,173 @@
+/**
+ * Measures location accuracy on photos with known coordinates, through the same
+ * provider code the app uses, and writes `<out>.json` and `<out>.html`.
+ *
+ * The repository ships no photos: copy eval/manifest.template.json, put your
+ * photos in a photos/ folder next to the copy and fill in their coordinates.
+ *
+ *   npm run eval -- my-manifest.json
+ *   GEMINI_API_KEY=... npm run eval -- photos.json --provider gemini --image-model gemini-2.5-pro --baseline eval-report.json
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { AnalysisOptions, DetailLevel, PreparedMedia, ProviderId, ProviderSettings } from '../types';
+import type { EvaluationCase } from './manifest';
+import type { EvaluationReport } from './report';
+import type { LocationProvider } from '../services/providers';
+import { loadManifest } from './manifest';
+import { renderHtml } from './report';
+import { DISTANCE_THRESHOLDS_KM, scoreCase, summarize, thresholdKey } from './metrics';
+import { DEFAULT_PROVIDER_SETTINGS, analysisModelId, createProviders } from '../services/providerSettings';
+import { PROMPT_VERSION } from '../services/analysisPrompt';
+import { DEFAULT_ANALYSIS_OPTIONS, DETAIL_LEVELS, analysisModeFor, isAnalysisModeId } from '../services/analysisModes';
+import { isTransientError, retryAfterOf } from '../services/errors';
+import { MAX_INLINE_BYTES } from '../utils/mediaPreparation';
+import { withBackoff } from '../utils/retry';
+
+const MIME_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.webp': 'image/webp',
+    '.heic': 'image/heic',
+    '.heif': 'image/heif',
+    '.gif': 'image/gif',
+    '.mp4': 'video/mp4',
+    '.mov': 'video/quicktime',
+    '.webm': 'video/webm',
+};
+
+// Fewer than the app's batch retries: a long outage should fail the run rather than stall it.
+const TRANSIENT_RETRIES = 3;
+
+const USAGE = `Usage: npm run eval -- <manifest.json> [options]
+
+  --provider <mock|gemini|proxy>  Backend to evaluate (default: mock)
+  --image-model <id>              Gemini model for photos
+  --video-model <id>              Gemini model for videos
+  --mode <id>                     Analysis mode (default: standard)
+  --detail <level>                brief, normal or detailed (default: the mode's own)
+  --scenario <id>                 Mock fixture to replay (default: auto)
+  --proxy-url <url>               Base URL of the /api routes for the proxy provider
+  --out <path>                    Report path without extension (default: eval-report)
+  --baseline <report.json>        Earlier report to show changes against`;
+
+// Files are sent as they are: the app's downscaling runs in a browser worker, which Node does not have.
+const readMedia = async (file: string): Promise<PreparedMedia> => {
+    const mimeType = MIME_TYPES[path.extname(file).toLowerCase()];
+    if (!mimeType) {
+        throw new Error(`${file}: unsupported file type.`);
+    }
+    const bytes = await readFile(file);
+    return bytes.length > MAX_INLINE_BYTES
+        ? { kind: 'file', blob: new Blob([bytes], { type: mimeType }), mimeType }
+        : { kind: 'inline', base64Data: bytes.toString('base64'), mimeType };
+};
+
+const analyzeCase = async (provider: LocationProvider, options: AnalysisOptions, testCase: EvaluationCase) => {
+    try {
+        const media = await readMedia(testCase.file);
+        const result = await withBackoff(
+            // No metadata and no user position: both would hand the model the answer.
+            () => provider.analyzeMedia({ media, coordinates: null, languages: ['en'], options }),
+            {
+                retries: TRANSIENT_RETRIES,
+                shouldRetry: isTransientError,
+                retryAfterMs: retryAfterOf,
+                onRetry: (attempt, delayMs) => console.warn(`  retry ${attempt} in ${Math.ceil(delayMs / 1000)} s`),
+            }
+        );
+        return scoreCase(testCase, { result });
+    } catch (error) {
+        return scoreCase(testCase, { error });
+    }
+};
+
+const main = async () => {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            provider: { type: 'string', default: 'mock' },
+            'image-model': { type: 'string' },
+            'video-model': { type: 'string' },
+            mode: { type: 'string', default: DEFAULT_ANALYSIS_OPTIONS.mode },
+            detail: { type: 'string' },
+            scenario: { type: 'string', default: 'auto' },
+            'proxy-url': { type: 'string' },
+            out: { type: 'string', default: 'eval-report' },
+            baseline: { type: 'string' },
+            help: { type: 'boolean', default: false },
+        },
+    });
+    if (values.help || positionals.length !== 1) {
+        console.log(USAGE);
+        process.exitCode = values.help ? 0 : 1;
+        return;
+    }
+    if (!['mock', 'gemini', 'proxy'].includes(values.provider)) {
+        throw new Error(`Unknown provider "${values.provider}".`);
+    }
+    if (!isAnalysisModeId(values.mode)) {
+        throw new Error(`Unknown mode "${values.mode}".`);
+    }
+    const mode = analysisModeFor(values.mode);
+    const detail = (values.detail ?? mode.detail) as DetailLevel;
+    if (!DETAIL_LEVELS.includes(detail)) {
+        throw new Error(`Unknown detail level "${detail}".`);
+    }
+    const options: AnalysisOptions = { mode: mode.id, detail, hint: '' };
+    const apiKey = process.env.GEMINI_API_KEY ?? null;
+    if (values.provider === 'gemini' && !apiKey) {
+        throw new Error('Set GEMINI_API_KEY to evaluate the Gemini provider.');
+    }
+
+    const settings: ProviderSettings = {
+        ...DEFAULT_PROVIDER_SETTINGS,
+        provider: values.provider as ProviderId,
+        gemini: {
+            ...DEFAULT_PROVIDER_SETTINGS.gemini,
+            imageModel: values['image-model'] ?? DEFAULT_PROVIDER_SETTINGS.gemini.imageModel,
+            videoModel: values['video-model'] ?? DEFAULT_PROVIDER_SETTINGS.gemini.videoModel,
+        },
+        mockScenario: values.scenario,
+        mockLatencyMs: 0,
+        proxyBaseUrl: values['proxy-url'] ?? DEFAULT_PROVIDER_SETTINGS.proxyBaseUrl,
+    };
+    const { location: provider } = createProviders(settings, apiKey);
+    const manifest = await loadManifest(positionals[0]);
+    const baseline: EvaluationReport | undefined = values.baseline
+        ? JSON.parse(await readFile(values.baseline, 'utf8'))
+        : undefined;
+
+    // One at a time, so rate limits and timings match what a single user sees.
+    const cases = [];
+    for (const [index, testCase] of manifest.cases.entries()) {
+        const outcome = await analyzeCase(provider, options, testCase);
+        const detail = outcome.errorKm !== undefined ? `${outcome.errorKm.toFixed(1)} km` : `${outcome.status}: ${outcome.error}`;
+        console.log(`[${index + 1}/${manifest.cases.length}] ${testCase.id}: ${detail}`);
+        cases.push(outcome);
+    }
+
+    const report: EvaluationReport = {
+        manifest: manifest.name,
+        model: analysisModelId(settings, false, mode.id),
+        promptVersion: PROMPT_VERSION,
+        template: `${mode.template.name}@${mode.template.version}`,
+        generatedAt: new Date().toISOString(),
+        summary: summarize(cases),
+        cases,
+    };
+    await writeFile(`${values.out}.json`, `${JSON.stringify(report, null, 2)}\n`);
+    await writeFile(`${values.out}.html`, renderHtml(report, baseline));
+
+    const { summary } = report;
+    console.log(`\n${summary.located}/${summary.cases} located, ${summary.parseFailures} parse failures, median error ${summary.medianErrorKm === null ? 'n/a' : `${summary.medianErrorKm.toFixed(1)} km`}`);
+    console.log(DISTANCE_THRESHOLDS_KM.map(km => `${km} km: ${(summary.accuracy[thresholdKey(km)] * 100).toFixed(1)}%`).join(', '));
+    console.log(`Wrote ${values.out}.json and ${values.out}.html`);
+};
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { HistoryEntry } from '../types';
+import { deleteHistoryEntry, listHistoryEntries, saveHistoryEntry } from '../services/historyStore';
+
+export const useAnalysisHistory = () => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [error, setError] = useState<unknown>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listHistoryEntries());
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load history:", err);
+      setError(err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const addEntry = useCallback(async (entry: HistoryEntry) => {
+    try {
+      await saveHistoryEntry(entry);
+      setEntries(prev => [entry, ...prev.filter(e => e.id !== entry.id)]);
+    } catch (err) {
+      console.error("Failed to save analysis to history:", err);
+    }
+  }, []);
+
+  const removeEntry = useCallback(async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      setEntries(prev => prev.filter(e => e.id !== id));
+    } catch (err) {
+      console.error("Failed to delete history entry:", err);
+    }
+  }, []);
+
+  return { entries, error, addEntry, removeEntry };
+};
@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { AnalysisOptions, AnalysisResult, BatchItem, GeolocationCoordinates, Language } from '../types';
+import type { LocationProvider } from '../services/providers';
+import { LocalizedError, isAbortError, isTransientError, retryAfterOf } from '../services/errors';
+import { prepareMedia } from '../utils/mediaPreparation';
+import { hasGps, readMediaMetadata, resultFromMetadata } from '../utils/mediaMetadata';
+import { withBackoff } from '../utils/retry';
+
+interface BatchQueueOptions {
+  locationProvider: LocationProvider;
+  coordinates: GeolocationCoordinates | null;
+  languages: Language[];
+  analysisOptions?: AnalysisOptions;
+  // Files with embedded GPS get their result from it instead of from the model.
+  skipModelWithGps: boolean;
+  concurrency: number;
+}
+
+const createItem = (file: File): BatchItem => ({
+  id: crypto.randomUUID(),
+  file,
+  status: 'queued',
+});
+
+export const useBatchQueue = (initialFiles: File[], options: BatchQueueOptions) => {
+  const [items, setItems] = useState<BatchItem[]>(() => initialFiles.map(createItem));
+  const controllersRef = useRef(new Map<string, AbortController>());
+  // Read at job start so long-running batches pick up a changed provider or position.
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const runItem = useCallback(async (item: BatchItem) => {
+    const { locationProvider, coordinates, languages, analysisOptions, skipModelWithGps } = optionsRef.current;
+    const controller = new AbortController();
+    controllersRef.current.set(item.id, controller);
+
+    try {
+      const metadata = await readMediaMetadata(item.file);
+      // Embedded GPS only needs the geocoder, which is throttled and rate limited like the model.
+      const request = skipModelWithGps && hasGps(metadata)
+        ? () => resultFromMetadata(metadata, languages, controller.signal)
+        : await prepareMedia(item.file, metadata).then(({ media }) =>
+          () => locationProvider.analyzeMedia({ media, coordinates, metadata, languages, options: analysisOptions, signal: controller.signal }));
+      const result: AnalysisResult = await withBackoff(
+        request,
+        {
+          signal: controller.signal,
+          shouldRetry: isTransientError,
+          retryAfterMs: retryAfterOf,
+          onRetry: (attempt, delayMs) => updateItem(item.id, {
+            retry: { attempt, inSeconds: Math.ceil(delayMs / 1000) },
+          }),
+        }
+      );
+      updateItem(item.id, { status: 'done', result, retry: undefined });
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) {
+        updateItem(item.id, { status: 'cancelled', retry: undefined });
+      } else {
+        console.error(`Batch analysis failed for ${item.file.name}:`, err);
+        updateItem(item.id, {
+          status: 'error',
+          error: err instanceof Error ? err : new LocalizedError('errors.unknown'),
+          retry: undefined,
+        });
+      }
+    } finally {
+      controllersRef.current.delete(item.id);
+    }
+  }, [updateItem]);
+
+  // Start queued items whenever a worker slot is free.
+  useEffect(() => {
+    const available = Math.max(0, options.concurrency - controllersRef.current.size);
+    // Skip items that already have a controller: effects can re-run before the status update lands.
+    const next = items
+      .filter(item => item.status === 'queued' && !controllersRef.current.has(item.id))
+      .slice(0, available);
+    if (next.length === 0) return;
+
+    const ids = new Set(next.map(item => item.id));
+    setItems(prev => prev.map(item => (ids.has(item.id) ? { ...item, status: 'running', error: undefined } : item)));
+    next.forEach(runItem);
+  }, [items, options.concurrency, runItem]);
+
+  const addFiles = useCallback((files: File[]) => {
+    setItems(prev => [...prev, ...files.map(createItem)]);
+  }, []);
+
+  const retry = useCallback((id: string) => {
+    setItems(prev => prev.map(item =>
+      item.id === id && (item.status === 'error' || item.status === 'cancelled')
+        ? { ...item, status: 'queued', error: undefined, result: undefined }
+        : item
+    ));
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    setItems(prev => prev.map(item => (item.id === id && item.status === 'queued' ? { ...item, status: 'cancelled' } : item)));
+  }, []);
+
+  const cancelAll = useCallback(() => {
+    controllersRef.current.forEach(controller => controller.abort());
+    setItems(prev => prev.map(item => (item.status === 'queued' ? { ...item, status: 'cancelled' } : item)));
+  }, []);
+
+  return { items, addFiles, retry, cancel, cancelAll };
+};
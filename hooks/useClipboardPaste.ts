@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import { isSupportedMedia, isWebUrl } from '../utils/fileUtils';
+
+interface ClipboardPasteOptions {
+  // Pastes are left alone while this is false, e.g. during an analysis.
+  enabled: boolean;
+  onFile: (file: File) => void;
+  onUrl: (url: string) => void;
+}
+
+const isEditable = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement && (target.isContentEditable || target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement);
+
+/** Turns Ctrl+V anywhere on the page into an upload: a copied image, or a link to one. */
+export const useClipboardPaste = (options: ClipboardPasteOptions) => {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const { enabled, onFile, onUrl } = optionsRef.current;
+      if (!enabled || !e.clipboardData) return;
+
+      const file = Array.from(e.clipboardData.files).find(isSupportedMedia);
+      if (file) {
+        e.preventDefault();
+        onFile(file);
+        return;
+      }
+      // Text pasted into a field is meant for that field, even when it is a link.
+      if (isEditable(e.target)) return;
+      const text = e.clipboardData.getData('text/plain').trim();
+      if (isWebUrl(text)) {
+        e.preventDefault();
+        onUrl(text);
+      }
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, []);
+};
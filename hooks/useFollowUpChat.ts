@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { AnalysisResult, ChatMessage, GeolocationCoordinates, GroundingChunk, PreparedMedia } from '../types';
+import type { ChatProvider } from '../services/providers';
+import { LocalizedError, isAbortError } from '../services/errors';
+
+interface FollowUpChatOptions {
+  provider: ChatProvider;
+  result: AnalysisResult;
+  // Media the conversation is seeded with; loaded on the first question and reused after that.
+  loadMedia: () => Promise<PreparedMedia | null>;
+  coordinates: GeolocationCoordinates | null;
+  // The thread is owned by the caller so it can be stored with the analysis.
+  messages: ChatMessage[];
+  onMessagesChange: (messages: ChatMessage[]) => void;
+}
+
+const createMessage = (role: ChatMessage['role'], text: string, sources: GroundingChunk[] = []): ChatMessage => ({
+  id: crypto.randomUUID(),
+  role,
+  text,
+  sources,
+  createdAt: Date.now(),
+});
+
+export const useFollowUpChat = (options: FollowUpChatOptions) => {
+  // Answer streamed so far, or null when no question is in flight.
+  const [pendingText, setPendingText] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const questionIdRef = useRef<string | null>(null);
+  const mediaRef = useRef<Promise<PreparedMedia | null> | null>(null);
+  // Read when a question is sent so a reply lands on the thread as it is by then.
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // New media means a different analysis; a translated result is still the same conversation.
+  useEffect(() => {
+    mediaRef.current = null;
+    setError(null);
+    return () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+      setPendingText(null);
+    };
+  }, [options.loadMedia]);
+
+  /** Resolves to false when the question got no answer, so the caller can give the draft back. */
+  const send = useCallback(async (question: string): Promise<boolean> => {
+    const { provider, result, loadMedia, coordinates, messages, onMessagesChange } = optionsRef.current;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    const questionMessage = createMessage('user', question);
+    questionIdRef.current = questionMessage.id;
+    const asked = [...messages, questionMessage];
+    onMessagesChange(asked);
+    setPendingText('');
+    setError(null);
+    try {
+      mediaRef.current ??= loadMedia();
+      const media = await mediaRef.current;
+      const reply = await provider.sendMessage({
+        media,
+        result,
+        history: messages,
+        question,
+        coordinates,
+        signal: controller.signal,
+        onText: text => {
+          if (!controller.signal.aborted) setPendingText(text);
+        },
+      });
+      if (controller.signal.aborted) return false;
+      onMessagesChange([...asked, createMessage('model', reply.text, reply.sources)]);
+      return true;
+    } catch (err) {
+      console.error("Follow-up question failed:", err);
+      // Media that failed to load should be retried with the next question.
+      mediaRef.current = null;
+      if (isAbortError(err) || controller.signal.aborted) return false;
+      // An unanswered question is taken back out of the thread rather than left hanging.
+      onMessagesChange(messages);
+      setError(err instanceof Error ? err : new LocalizedError('errors.chatFailed'));
+      return false;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setPendingText(null);
+      }
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    const controller = controllerRef.current;
+    if (!controller) return;
+    controller.abort();
+    controllerRef.current = null;
+    setPendingText(null);
+    // Drop the question that will now never be answered.
+    const { messages, onMessagesChange } = optionsRef.current;
+    onMessagesChange(messages.filter(message => message.id !== questionIdRef.current));
+  }, []);
+
+  return { pendingText, isSending: pendingText !== null, error, send, cancel };
+};
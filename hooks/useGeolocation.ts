@@ -1,42 +1,67 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { GeolocationCoordinates, LocationSettings } from '../types';
+import { LocalizedError } from '../services/errors';
+import { coarsenCoordinates } from '../utils/geo';
 
-import { useState, useEffect } from 'react';
-import type { GeolocationCoordinates } from '../types';
+// 'locating' until the browser reports a first fix; 'error' keeps the watch running in case it recovers.
+export type GeolocationStatus = 'off' | 'locating' | 'ready' | 'error';
 
-export const useGeolocation = () => {
-  const [coordinates, setCoordinates] = useState<GeolocationCoordinates | null>(null);
-  const [error, setError] = useState<string | null>(null);
+const POSITION_TIMEOUT_MS = 15_000;
+// A city-level hint does not need a fresh satellite fix.
+const COARSE_MAX_AGE_MS = 10 * 60_000;
+
+const positionError = (err: GeolocationPositionError): Error => {
+  switch (err.code) {
+    case err.PERMISSION_DENIED: return new LocalizedError('errors.locationDenied');
+    case err.TIMEOUT: return new LocalizedError('errors.locationTimeout');
+    default: return new LocalizedError('errors.locationUnavailable');
+  }
+};
+
+/**
+ * The position that may be shared with the model, following the user's choice.
+ * The browser is only asked for it in the coarse and precise modes.
+ */
+export const useGeolocation = ({ mode, manual }: LocationSettings) => {
+  const [position, setPosition] = useState<GeolocationCoordinates | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const tracking = mode === 'coarse' || mode === 'precise';
 
   useEffect(() => {
-    let watchId: number;
-
-    if (navigator.geolocation) {
-      watchId = navigator.geolocation.watchPosition(
-        (position) => {
-          setCoordinates({
-            latitude: position.coords.latitude,
-            longitude: position.coords.longitude,
-          });
-          setError(null);
-        },
-        (err) => {
-          setError(err.message);
-        },
-        {
-          enableHighAccuracy: true,
-          timeout: 5000,
-          maximumAge: 0,
-        }
-      );
-    } else {
-      setError("Geolocation is not supported by this browser.");
+    setPosition(null);
+    setError(null);
+    if (!tracking) return;
+    if (!navigator.geolocation) {
+      setError(new LocalizedError('errors.locationUnsupported'));
+      return;
     }
 
-    return () => {
-      if (watchId) {
-        navigator.geolocation.clearWatch(watchId);
-      }
-    };
-  }, []);
+    const watchId = navigator.geolocation.watchPosition(
+      (fix) => {
+        setPosition({ latitude: fix.coords.latitude, longitude: fix.coords.longitude });
+        setError(null);
+      },
+      (err) => {
+        console.warn("Geolocation error:", err.message);
+        setError(positionError(err));
+      },
+      mode === 'precise'
+        ? { enableHighAccuracy: true, timeout: POSITION_TIMEOUT_MS, maximumAge: 0 }
+        : { enableHighAccuracy: false, timeout: POSITION_TIMEOUT_MS, maximumAge: COARSE_MAX_AGE_MS }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [mode]);
+
+  const coordinates = useMemo<GeolocationCoordinates | null>(() => {
+    if (mode === 'manual') return manual && { latitude: manual.latitude, longitude: manual.longitude };
+    if (mode === 'precise') return position;
+    if (mode === 'coarse') return position && coarsenCoordinates(position);
+    return null;
+  }, [mode, manual, position]);
+
+  const status: GeolocationStatus = mode === 'off' || (mode === 'manual' && !manual)
+    ? 'off'
+    : coordinates ? 'ready' : error ? 'error' : 'locating';
 
-  return { coordinates, error };
+  return { coordinates, status, error };
 };
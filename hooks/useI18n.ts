@@ -0,0 +1,5 @@
+import { useContext } from 'react';
+import { I18nContext, I18nContextValue } from '../i18n/I18nProvider';
+
+/** Current UI language, a setter for it, and `t` for looking up catalog messages. */
+export const useI18n = (): I18nContextValue => useContext(I18nContext);
@@ -0,0 +1,41 @@
+import React, { createContext, useCallback, useEffect, useMemo, useState } from 'react';
+import type { Translate } from './types';
+import { UiLocale, createTranslator, detectUiLocale, isUiLocale } from './index';
+
+const UI_LOCALE_STORAGE_KEY = 'ui-language';
+
+export interface I18nContextValue {
+  locale: UiLocale;
+  setLocale: (locale: UiLocale) => void;
+  t: Translate;
+}
+
+export const I18nContext = createContext<I18nContextValue>({
+  locale: 'en',
+  setLocale: () => {},
+  t: createTranslator('en'),
+});
+
+const loadUiLocale = (): UiLocale => {
+  const saved = localStorage.getItem(UI_LOCALE_STORAGE_KEY);
+  return isUiLocale(saved) ? saved : detectUiLocale();
+};
+
+const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<UiLocale>(loadUiLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: UiLocale) => {
+    setLocaleState(next);
+    localStorage.setItem(UI_LOCALE_STORAGE_KEY, next);
+  }, []);
+
+  const value = useMemo(() => ({ locale, setLocale, t: createTranslator(locale) }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
@@ -0,0 +1,41 @@
+import type { Catalog, MessageKey, MessageParams, Translate } from './types';
+import { en } from './messages/en';
+import { ru } from './messages/ru';
+
+export type UiLocale = 'en' | 'ru';
+
+export const UI_LOCALES: Record<UiLocale, { nativeName: string, catalog: Catalog }> = {
+    en: { nativeName: 'English', catalog: en },
+    ru: { nativeName: 'Русский', catalog: ru },
+};
+
+export const isUiLocale = (value: unknown): value is UiLocale =>
+    typeof value === 'string' && value in UI_LOCALES;
+
+/** Picks the first browser language we have a catalog for, by primary subtag. */
+export const detectUiLocale = (): UiLocale => {
+    const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+    for (const tag of preferred) {
+        const primary = tag.split('-')[0].toLowerCase();
+        if (isUiLocale(primary)) return primary;
+    }
+    return 'en';
+};
+
+const interpolate = (template: string, params?: MessageParams): string =>
+    params ? template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : template;
+
+export const translate = (locale: UiLocale, key: MessageKey, params?: MessageParams): string => {
+    const message = UI_LOCALES[locale].catalog[key] ?? en[key];
+    if (typeof message === 'string') {
+        return interpolate(message, params);
+    }
+    const count = Number(params?.count ?? 0);
+    const category = new Intl.PluralRules(locale).select(count);
+    return interpolate(message[category] ?? message.other, { ...params, count: count.toLocaleString(locale) });
+};
+
+export const createTranslator = (locale: UiLocale): Translate =>
+    (key, params) => translate(locale, key, params);
+
+export type { MessageKey, MessageParams, Translate } from './types';
@@ -0,0 +1,310 @@
+import type { Message } from '../types';
+
+// Source catalog. Keys are grouped by the screen they appear on; plural
+// messages are selected by the `count` parameter.
+export const en = {
+    'common.cancel': 'Cancel',
+
+    'app.title': 'Geo-Locator AI',
+    'app.subtitle': 'Upload a photo or video to discover its location and story.',
+    'app.uiLanguage': 'Interface language',
+    'app.openHistory': 'Open history',
+    'app.openSettings': 'Open settings',
+    'app.updateApiKey': 'Update API Key',
+    'app.gpsFound': 'GPS found in file: {latitude}, {longitude}',
+    'app.useEmbeddedGps': 'Use embedded GPS instead of AI analysis',
+    'app.useEmbeddedGpsHint': 'The position is sent to OpenStreetMap Nominatim to name the place.',
+    'app.media.downscaled': 'Sent a {width}×{height} JPEG, {size} (original {original})',
+    'app.media.fileUpload': 'Uploaded as a separate file, {size}',
+    'app.media.original': 'Sent inline as is, {size}',
+    'app.videoTimeline': 'Analyze scene by scene and build a location timeline',
+    'app.resultLanguages': 'Result Languages',
+    'app.analyzing': 'Analyzing...',
+    'app.discover': 'Discover Location',
+    'app.startNew': 'Start New Analysis',
+    'app.placeholder': 'Your analysis results will appear here.',
+    'app.recovery.retry': 'Try again',
+    'app.recovery.compress': 'Compress and retry',
+    'app.recovery.showRawText': 'Show model output',
+    'app.recovery.hideRawText': 'Hide model output',
+
+    'apiKey.title': 'Enter your Gemini API Key',
+    'apiKey.description': 'To use this application, you need to provide your own Gemini API key. Your key is stored only in your browser.',
+    'apiKey.placeholder': 'Enter your API key here',
+    'apiKey.label': 'Gemini API Key',
+    'apiKey.getKey': 'Get your API key from Google AI Studio',
+    'apiKey.save': 'Save and Continue',
+
+    'upload.click': 'Click to upload',
+    'upload.orDrag': 'or drag and drop',
+    'upload.hint': 'Image or Video',
+    'upload.hintBatch': 'Images or videos — several at once for a batch',
+    'upload.folder': 'Analyze a whole folder',
+    'upload.previewAlt': 'Preview',
+    'upload.markRegions': 'Mark regions to focus on',
+    'upload.doneMarking': 'Done marking',
+    'upload.clearRegions': 'Clear regions',
+    'upload.regionHint': 'Drag on the image to box a sign, skyline or building that matters.',
+    'upload.regionLimit': 'You can mark up to {count} regions.',
+    'upload.regionNote': 'Optional note, e.g. this shop sign',
+    'upload.regionNoteFor': 'Note for {label}',
+    'upload.removeRegion': 'Remove {label}',
+    'upload.pasteHint': 'You can also paste an image or a link with Ctrl+V',
+    'upload.camera': 'Take a photo',
+    'upload.fromUrl': 'Load from a link',
+    'upload.urlPlaceholder': 'https://example.com/photo.jpg',
+    'upload.urlLabel': 'Image or video link',
+    'upload.loadUrl': 'Load',
+    'upload.loadingUrl': 'Downloading…',
+
+    'loader.current': '{stage}...',
+    'loader.uploaded': '{sent} of {total}',
+    'loader.frame': 'Frame {index} of {total}',
+    'loader.retrying': {
+        one: 'Retrying (attempt {attempt}) in {count} second',
+        other: 'Retrying (attempt {attempt}) in {count} seconds',
+    },
+    'loader.stage.analyzing': 'Analyzing media',
+    'loader.stage.sampling': 'Extracting video frames',
+    'loader.stage.uploading': 'Uploading media',
+    'loader.stage.reasoning': 'Model reasoning',
+    'loader.stage.grounding': 'Grounding search',
+    'loader.stage.parsing': 'Parsing result',
+
+    'result.title': 'Analysis Result',
+    'result.translate': 'Translate into another language',
+    'result.translating': '{language}...',
+    'result.addLanguage': '+ Add',
+    'result.translateError': 'Could not translate: {reason}',
+    'result.cached': 'Cached result from {date}',
+    'result.rerun': 'Re-run anyway',
+    'result.synthesizing': 'Synthesizing speech...',
+    'result.audioError': 'Could not generate audio: {reason}',
+    'result.sources': 'Sources',
+    'result.sourceLink': 'Source Link',
+
+    'audio.generate': 'Listen to this description',
+    'audio.play': 'Play',
+    'audio.pause': 'Pause',
+    'audio.stop': 'Stop',
+    'audio.seek': 'Playback position',
+    'audio.speed': 'Playback speed',
+    'audio.download': 'Download as WAV',
+    'audio.retry': 'Try again',
+
+    'chat.title': 'Ask about this place',
+    'chat.placeholder': 'How do I get there? When is it best to visit?',
+    'chat.send': 'Send question',
+    'chat.thinking': 'Thinking...',
+    'chat.error': 'Could not answer: {reason}',
+
+    'regions.title': 'Marked regions',
+    'regions.unused': 'The model did not rely on this region.',
+
+    'clues.title': 'Clues the model relied on',
+    'clues.previewAlt': 'Analyzed image with clue areas highlighted',
+    'clues.showBoxes': 'Highlight clue {index} on the image',
+    'clues.weight': '{percent}% weight',
+    'clues.category.script': 'Script',
+    'clues.category.drivingSide': 'Driving side',
+    'clues.category.vegetation': 'Vegetation',
+    'clues.category.architecture': 'Architecture',
+    'clues.category.licensePlate': 'License plate',
+    'clues.category.landmark': 'Landmark',
+    'clues.category.terrain': 'Terrain',
+    'clues.category.infrastructure': 'Infrastructure',
+    'clues.category.other': 'Other',
+
+    'camera.title': 'Take a photo',
+    'camera.close': 'Close camera',
+    'camera.starting': 'Starting camera…',
+    'camera.capture': 'Take photo',
+    'camera.switch': 'Switch between front and back camera',
+
+    'userLocation.title': 'Location hint',
+    'userLocation.change': 'Change',
+    'userLocation.done': 'Done',
+    'userLocation.mode.off': 'Off',
+    'userLocation.mode.coarse': 'City',
+    'userLocation.mode.precise': 'Precise',
+    'userLocation.mode.manual': 'Choose',
+    'userLocation.describe.off': 'Your position is not requested or sent. Results are not biased towards where you are.',
+    'userLocation.describe.coarse': 'Your position, rounded to about 10 km, is sent to help search favour nearby places.',
+    'userLocation.describe.precise': 'Your exact position is sent. Useful for photos taken around you, and for directions in the chat.',
+    'userLocation.describe.manual': 'A place you pick is sent instead of your own position. Search for an address or click the map.',
+    'userLocation.summary.off': 'not shared',
+    'userLocation.summary.pick': 'pick a place',
+    'userLocation.summary.locating': 'locating…',
+    'userLocation.summary.unavailable': 'unavailable',
+    'userLocation.summary.coarse': 'city level, ≈{coordinates}',
+    'userLocation.summary.precise': 'precise, {coordinates}',
+    'userLocation.address': 'Address or place name',
+    'userLocation.addressPlaceholder': 'e.g. Lisbon, Portugal',
+    'userLocation.search': 'Find address',
+    'userLocation.mapHint': 'Click the map to place the pin.',
+
+    'compare.open': 'Compare two photos',
+    'compare.back': 'Back to single analysis',
+    'compare.slot': 'Photo or video {label}',
+    'compare.run': 'Compare',
+    'compare.running': 'Comparing…',
+    'compare.resultTitle': 'Comparison',
+    'compare.verdict.same': 'Same place',
+    'compare.verdict.nearby': 'Nearby',
+    'compare.verdict.different': 'Different places',
+    'compare.confidence': '{percent}% confident',
+    'compare.previewAlt': 'Compared file {label}',
+    'compare.distance': 'The two estimates are {distance} apart',
+    'compare.matches': 'Matching features',
+    'compare.differences': 'Differences',
+
+    'mode.title': 'Analysis mode',
+    'mode.standard': 'Standard',
+    'mode.tourist': 'Tourist',
+    'mode.osint': 'OSINT',
+    'mode.realEstate': 'Real estate',
+    'mode.quickGuess': 'Quick guess',
+    'mode.describe.standard': 'Landmark, city and country, with what the place is known for and its reviews.',
+    'mode.describe.tourist': 'A visitor guide with reviews, opening hours, prices and practical tips.',
+    'mode.describe.osint': 'Strict evidence for every conclusion, without reviews or tourist information.',
+    'mode.describe.realEstate': 'The street and neighbourhood, with a profile of what living there is like.',
+    'mode.describe.quickGuess': 'Country only, from a faster and cheaper model without web search.',
+    'mode.detail': 'Detail',
+    'mode.detail.brief': 'Brief',
+    'mode.detail.normal': 'Normal',
+    'mode.detail.detailed': 'Detailed',
+    'mode.hint': 'Your hint',
+    'mode.hintPlaceholder': 'Optional, e.g. taken on a trip to Portugal',
+
+    'location.unnamed': 'Unnamed location',
+    'location.alternates': {
+        one: 'Other possible location ({count})',
+        other: 'Other possible locations ({count})',
+    },
+
+    'metadata.title': 'From file metadata',
+    'metadata.distanceFromGuess': '{distance} from AI guess',
+    'metadata.heading': 'Facing {degrees}°',
+
+    'map.photoPosition': 'Position from file metadata',
+    'map.userPosition': 'Your location',
+    'map.distanceFromYou': '{distance} from you',
+    'map.openInGoogleMaps': 'Open in Google Maps',
+    'map.zoomIn': 'Zoom in',
+    'map.zoomOut': 'Zoom out',
+
+    'timeline.title': 'Scene timeline',
+    'timeline.showOverall': 'Show overall',
+    'timeline.segment': 'Segment {index}',
+
+    'history.title': 'History',
+    'history.close': 'Close history',
+    'history.search': 'Search place or country',
+    'history.from': 'From',
+    'history.to': 'To',
+    'history.shown': {
+        one: 'Showing {shown} of {count} analysis',
+        other: 'Showing {shown} of {count} analyses',
+    },
+    'history.empty': 'No saved analyses yet.',
+    'history.noMatches': 'No analyses match your filters.',
+    'history.delete': 'Delete entry',
+
+    'export.label': 'Export',
+    'export.aria': 'Export results',
+    'export.format.geojson': 'GeoJSON',
+    'export.format.kml': 'KML (Google Earth)',
+    'export.format.gpx': 'GPX waypoints',
+    'export.format.csv': 'CSV',
+
+    'batch.back': 'Back to single analysis',
+    'batch.concurrency': 'Parallel requests',
+    'batch.addFiles': 'Add files',
+    'batch.cancelAll': 'Cancel all',
+    'batch.finished': {
+        one: '{finished} of {count} file finished',
+        other: '{finished} of {count} files finished',
+    },
+    'batch.failed': ', {failed} failed',
+    'batch.closeResult': 'Close result',
+    'batch.retry': 'Retry',
+    'batch.column.file': 'File',
+    'batch.column.place': 'Place',
+    'batch.column.country': 'Country',
+    'batch.column.coordinates': 'Coordinates',
+    'batch.column.confidence': 'Confidence',
+    'batch.column.status': 'Status',
+    'batch.status.queued': 'Queued',
+    'batch.status.running': 'Analyzing',
+    'batch.status.retrying': {
+        one: 'Retry {attempt} in {count} second',
+        other: 'Retry {attempt} in {count} seconds',
+    },
+    'batch.status.done': 'Done',
+    'batch.status.cancelled': 'Cancelled',
+    'batch.status.error': 'Failed',
+
+    'settings.title': 'Settings',
+    'settings.close': 'Close settings',
+    'settings.provider': 'Model provider',
+    'settings.provider.gemini': 'Google Gemini — bring your own key',
+    'settings.provider.proxy': 'Server proxy — key stays on the server',
+    'settings.provider.mock': 'Mock (offline, recorded responses)',
+    'settings.imageModel': 'Image model',
+    'settings.videoModel': 'Video model',
+    'settings.speechModel': 'Speech model',
+    'settings.voices': 'Voice per language',
+    'settings.defaultVoice': 'Default ({voice})',
+    'settings.proxyUrl': 'Proxy base URL',
+    'settings.proxyHint': 'Models and voice are configured on the server.',
+    'settings.scenario': 'Scenario',
+    'settings.scenario.auto': 'Automatic (chosen by file)',
+    'settings.latency': 'Simulated latency (ms)',
+    'settings.cache': 'Result cache',
+    'settings.cacheHint': 'Analyses of the same media with the same model and languages are reused instead of being paid for again.',
+    'settings.cacheUsage': '{count} cached results, {size} of {limit}',
+    'settings.cacheUnavailable': 'The cache is not available in this browser.',
+    'settings.clearCache': 'Clear cache',
+    'settings.modes': 'Model and tools per mode',
+    'settings.modesHint': 'Comparisons use the settings of the selected mode too. Leave the model empty to use the image or video model above.',
+    'settings.modeModel': 'Model for {mode}',
+    'settings.modeSearch': 'Google Search',
+    'settings.modeMaps': 'Google Maps',
+    'settings.reset': 'Reset to defaults',
+    'settings.save': 'Save',
+
+    'errors.unknown': 'An unknown error occurred during analysis.',
+    'errors.uploadFirst': 'Please upload a file first.',
+    'errors.apiKeyMissing': 'API Key is missing. Please provide a valid Gemini API key.',
+    'errors.analysisFailed': 'Failed to analyze the media. Please try again.',
+    'errors.invalidApiKey': 'The Gemini API key was rejected. Please check it and enter a valid key.',
+    'errors.safetyBlocked': 'The request was blocked by the model\'s safety filters ({reason}). Try a different photo or video.',
+    'errors.unsupportedMedia': 'Files of type "{mimeType}" cannot be analyzed. Try a JPEG, PNG, WebP, MP4 or MOV file.',
+    'errors.payloadTooLarge': 'The file is too large to send. Compress it or choose a smaller one.',
+    'errors.offline': 'Could not reach the server. Check your internet connection and try again.',
+    'errors.unparseableResponse': 'The model\'s answer could not be read as a result.',
+    'errors.noLocation': 'The model could not find any clues to where this was taken.',
+    'errors.audioFailed': 'Failed to generate audio summary.',
+    'errors.translationFailed': 'Failed to translate the description into {language}.',
+    'errors.rateLimited': 'The Gemini API rate limit was reached. Please wait a moment and try again.',
+    'errors.geocoderRateLimited': 'OpenStreetMap place lookup is busy. Please wait a moment and try again.',
+    'errors.invalidModelResponse': 'The model returned a location that does not match the expected format: {issues}',
+    'errors.processingTimeout': 'The uploaded video took too long to process. Try a shorter clip.',
+    'errors.noVideoFrames': 'Could not extract any frames from the video.',
+    'errors.historyUnsupported': 'Local storage for history is not supported by this browser.',
+    'errors.chatFailed': 'The question could not be answered. Please try again.',
+    'errors.cameraDenied': 'Camera access was denied. Allow it in your browser settings to take a photo.',
+    'errors.cameraUnavailable': 'No camera is available on this device or in this browser.',
+    'errors.urlInvalid': 'Enter a full http(s) link to an image or video.',
+    'errors.urlFetchFailed': 'The link could not be downloaded. The site may not allow it; save the file and upload it instead.',
+    'errors.urlStatus': 'The link could not be downloaded (HTTP {status}).',
+    'errors.urlNotMedia': 'The link points to "{mimeType}", not an image or video.',
+    'errors.locationDenied': 'Location access was denied. Allow it in your browser settings or choose a place manually.',
+    'errors.locationTimeout': 'Your location could not be determined in time. Still trying…',
+    'errors.locationUnavailable': 'Your location is currently unavailable.',
+    'errors.locationUnsupported': 'This browser cannot determine your location. Choose a place manually instead.',
+    'errors.geocodeFailed': 'The address could not be looked up. Check your connection or click the map instead.',
+    'errors.addressNotFound': 'Nothing was found for "{query}".',
+    'errors.reverseGeocodeFailed': 'The place at the GPS position in this file could not be looked up. Check your connection, or turn off "Use embedded GPS instead of AI analysis" to have the file analyzed.',
+    'errors.comparisonFailed': 'Failed to compare the two files. Please try again.',
+} satisfies Record<string, Message>;
@@ -0,0 +1,318 @@
+import type { Catalog } from '../types';
+
+export const ru: Catalog = {
+    'common.cancel': 'Отмена',
+
+    'app.title': 'Geo-Locator AI',
+    'app.subtitle': 'Загрузите фото или видео, чтобы узнать, где оно снято и что это за место.',
+    'app.uiLanguage': 'Язык интерфейса',
+    'app.openHistory': 'Открыть историю',
+    'app.openSettings': 'Открыть настройки',
+    'app.updateApiKey': 'Изменить API-ключ',
+    'app.gpsFound': 'В файле есть GPS: {latitude}, {longitude}',
+    'app.useEmbeddedGps': 'Использовать GPS из файла вместо анализа ИИ',
+    'app.useEmbeddedGpsHint': 'Координаты отправляются в OpenStreetMap Nominatim, чтобы определить название места.',
+    'app.media.downscaled': 'Отправлен JPEG {width}×{height}, {size} (исходный файл {original})',
+    'app.media.fileUpload': 'Загружен отдельным файлом, {size}',
+    'app.media.original': 'Отправлен без изменений, {size}',
+    'app.videoTimeline': 'Анализировать по сценам и построить хронологию мест',
+    'app.resultLanguages': 'Языки результата',
+    'app.analyzing': 'Анализ...',
+    'app.discover': 'Определить место',
+    'app.startNew': 'Новый анализ',
+    'app.placeholder': 'Здесь появятся результаты анализа.',
+    'app.recovery.retry': 'Повторить',
+    'app.recovery.compress': 'Сжать и повторить',
+    'app.recovery.showRawText': 'Показать ответ модели',
+    'app.recovery.hideRawText': 'Скрыть ответ модели',
+
+    'apiKey.title': 'Введите API-ключ Gemini',
+    'apiKey.description': 'Для работы приложения нужен собственный API-ключ Gemini. Ключ хранится только в вашем браузере.',
+    'apiKey.placeholder': 'Введите API-ключ',
+    'apiKey.label': 'API-ключ Gemini',
+    'apiKey.getKey': 'Получить ключ в Google AI Studio',
+    'apiKey.save': 'Сохранить и продолжить',
+
+    'upload.click': 'Нажмите, чтобы загрузить',
+    'upload.orDrag': 'или перетащите файл',
+    'upload.hint': 'Изображение или видео',
+    'upload.hintBatch': 'Изображения или видео — несколько сразу для пакетной обработки',
+    'upload.folder': 'Проанализировать всю папку',
+    'upload.previewAlt': 'Предпросмотр',
+    'upload.markRegions': 'Отметить важные области',
+    'upload.doneMarking': 'Готово',
+    'upload.clearRegions': 'Очистить области',
+    'upload.regionHint': 'Выделите на снимке вывеску, силуэт города или здание, которые важны.',
+    'upload.regionLimit': 'Можно отметить не больше {count} областей.',
+    'upload.regionNote': 'Необязательная заметка, например «эта вывеска»',
+    'upload.regionNoteFor': 'Заметка для {label}',
+    'upload.removeRegion': 'Удалить {label}',
+    'upload.pasteHint': 'Можно также вставить изображение или ссылку через Ctrl+V',
+    'upload.camera': 'Сделать фото',
+    'upload.fromUrl': 'Загрузить по ссылке',
+    'upload.urlPlaceholder': 'https://example.com/photo.jpg',
+    'upload.urlLabel': 'Ссылка на изображение или видео',
+    'upload.loadUrl': 'Загрузить',
+    'upload.loadingUrl': 'Загрузка…',
+
+    'loader.current': '{stage}...',
+    'loader.uploaded': '{sent} из {total}',
+    'loader.frame': 'Кадр {index} из {total}',
+    'loader.retrying': {
+        one: 'Повтор (попытка {attempt}) через {count} секунду',
+        few: 'Повтор (попытка {attempt}) через {count} секунды',
+        many: 'Повтор (попытка {attempt}) через {count} секунд',
+        other: 'Повтор (попытка {attempt}) через {count} секунды',
+    },
+    'loader.stage.analyzing': 'Анализ файла',
+    'loader.stage.sampling': 'Извлечение кадров',
+    'loader.stage.uploading': 'Загрузка файла',
+    'loader.stage.reasoning': 'Рассуждение модели',
+    'loader.stage.grounding': 'Поиск источников',
+    'loader.stage.parsing': 'Разбор ответа',
+
+    'result.title': 'Результат анализа',
+    'result.translate': 'Перевести на другой язык',
+    'result.translating': '{language}...',
+    'result.addLanguage': '+ Язык',
+    'result.translateError': 'Не удалось перевести: {reason}',
+    'result.cached': 'Сохранённый результат от {date}',
+    'result.rerun': 'Всё равно запустить заново',
+    'result.synthesizing': 'Синтез речи...',
+    'result.audioError': 'Не удалось создать аудио: {reason}',
+    'result.sources': 'Источники',
+    'result.sourceLink': 'Ссылка на источник',
+
+    'audio.generate': 'Прослушать описание',
+    'audio.play': 'Воспроизвести',
+    'audio.pause': 'Пауза',
+    'audio.stop': 'Остановить',
+    'audio.seek': 'Позиция воспроизведения',
+    'audio.speed': 'Скорость воспроизведения',
+    'audio.download': 'Скачать в WAV',
+    'audio.retry': 'Повторить',
+
+    'chat.title': 'Спросить об этом месте',
+    'chat.placeholder': 'Как туда добраться? Когда лучше приехать?',
+    'chat.send': 'Отправить вопрос',
+    'chat.thinking': 'Думаю...',
+    'chat.error': 'Не удалось ответить: {reason}',
+
+    'regions.title': 'Отмеченные области',
+    'regions.unused': 'Модель не опиралась на эту область.',
+
+    'clues.title': 'На что опиралась модель',
+    'clues.previewAlt': 'Снимок с отмеченными уликами',
+    'clues.showBoxes': 'Показать улику {index} на снимке',
+    'clues.weight': 'вес {percent}%',
+    'clues.category.script': 'Письменность',
+    'clues.category.drivingSide': 'Сторона движения',
+    'clues.category.vegetation': 'Растительность',
+    'clues.category.architecture': 'Архитектура',
+    'clues.category.licensePlate': 'Номерной знак',
+    'clues.category.landmark': 'Достопримечательность',
+    'clues.category.terrain': 'Рельеф',
+    'clues.category.infrastructure': 'Инфраструктура',
+    'clues.category.other': 'Другое',
+
+    'camera.title': 'Сделать фото',
+    'camera.close': 'Закрыть камеру',
+    'camera.starting': 'Включаем камеру…',
+    'camera.capture': 'Снять',
+    'camera.switch': 'Переключить фронтальную и основную камеру',
+
+    'userLocation.title': 'Подсказка о местоположении',
+    'userLocation.change': 'Изменить',
+    'userLocation.done': 'Готово',
+    'userLocation.mode.off': 'Выкл.',
+    'userLocation.mode.coarse': 'Город',
+    'userLocation.mode.precise': 'Точно',
+    'userLocation.mode.manual': 'Выбрать',
+    'userLocation.describe.off': 'Ваше местоположение не запрашивается и не передаётся. Результаты не смещаются к тому месту, где вы находитесь.',
+    'userLocation.describe.coarse': 'Передаётся ваше местоположение, округлённое примерно до 10 км, чтобы поиск отдавал предпочтение местам поблизости.',
+    'userLocation.describe.precise': 'Передаётся ваше точное местоположение. Полезно для снимков, сделанных рядом, и для маршрутов в чате.',
+    'userLocation.describe.manual': 'Вместо вашего местоположения передаётся выбранное место. Найдите адрес или нажмите на карту.',
+    'userLocation.summary.off': 'не передаётся',
+    'userLocation.summary.pick': 'выберите место',
+    'userLocation.summary.locating': 'определяем…',
+    'userLocation.summary.unavailable': 'недоступно',
+    'userLocation.summary.coarse': 'уровень города, ≈{coordinates}',
+    'userLocation.summary.precise': 'точно, {coordinates}',
+    'userLocation.address': 'Адрес или название места',
+    'userLocation.addressPlaceholder': 'например, Лиссабон, Португалия',
+    'userLocation.search': 'Найти адрес',
+    'userLocation.mapHint': 'Нажмите на карту, чтобы поставить метку.',
+
+    'compare.open': 'Сравнить два снимка',
+    'compare.back': 'Назад к одиночному анализу',
+    'compare.slot': 'Фото или видео {label}',
+    'compare.run': 'Сравнить',
+    'compare.running': 'Сравниваем…',
+    'compare.resultTitle': 'Сравнение',
+    'compare.verdict.same': 'Одно и то же место',
+    'compare.verdict.nearby': 'Рядом',
+    'compare.verdict.different': 'Разные места',
+    'compare.confidence': 'Уверенность {percent}%',
+    'compare.previewAlt': 'Сравниваемый файл {label}',
+    'compare.distance': 'Между двумя оценками {distance}',
+    'compare.matches': 'Совпадающие детали',
+    'compare.differences': 'Различия',
+
+    'mode.title': 'Режим анализа',
+    'mode.standard': 'Обычный',
+    'mode.tourist': 'Турист',
+    'mode.osint': 'OSINT',
+    'mode.realEstate': 'Недвижимость',
+    'mode.quickGuess': 'Быстрая догадка',
+    'mode.describe.standard': 'Достопримечательность, город и страна, чем известно место и отзывы о нём.',
+    'mode.describe.tourist': 'Путеводитель с отзывами, часами работы, ценами и практическими советами.',
+    'mode.describe.osint': 'Строгие доказательства для каждого вывода, без отзывов и туристической информации.',
+    'mode.describe.realEstate': 'Улица и район с описанием того, каково там жить.',
+    'mode.describe.quickGuess': 'Только страна, более быстрой и дешёвой моделью без веб-поиска.',
+    'mode.detail': 'Подробность',
+    'mode.detail.brief': 'Кратко',
+    'mode.detail.normal': 'Обычно',
+    'mode.detail.detailed': 'Подробно',
+    'mode.hint': 'Ваша подсказка',
+    'mode.hintPlaceholder': 'Необязательно, например: снято в поездке по Португалии',
+
+    'location.unnamed': 'Место без названия',
+    'location.alternates': {
+        one: 'Другое возможное место ({count})',
+        few: 'Другие возможные места ({count})',
+        many: 'Другие возможные места ({count})',
+        other: 'Другие возможные места ({count})',
+    },
+
+    'metadata.title': 'Из метаданных файла',
+    'metadata.distanceFromGuess': '{distance} от догадки ИИ',
+    'metadata.heading': 'Направление {degrees}°',
+
+    'map.photoPosition': 'Положение из метаданных файла',
+    'map.userPosition': 'Вы здесь',
+    'map.distanceFromYou': '{distance} от вас',
+    'map.openInGoogleMaps': 'Открыть в Google Картах',
+    'map.zoomIn': 'Приблизить',
+    'map.zoomOut': 'Отдалить',
+
+    'timeline.title': 'Хронология сцен',
+    'timeline.showOverall': 'Показать общий итог',
+    'timeline.segment': 'Сцена {index}',
+
+    'history.title': 'История',
+    'history.close': 'Закрыть историю',
+    'history.search': 'Поиск по месту или стране',
+    'history.from': 'С',
+    'history.to': 'По',
+    'history.shown': {
+        one: 'Показано {shown} из {count} анализа',
+        few: 'Показано {shown} из {count} анализов',
+        many: 'Показано {shown} из {count} анализов',
+        other: 'Показано {shown} из {count} анализа',
+    },
+    'history.empty': 'Сохранённых анализов пока нет.',
+    'history.noMatches': 'Нет анализов, подходящих под фильтры.',
+    'history.delete': 'Удалить запись',
+
+    'export.label': 'Экспорт',
+    'export.aria': 'Экспортировать результаты',
+    'export.format.geojson': 'GeoJSON',
+    'export.format.kml': 'KML (Google Earth)',
+    'export.format.gpx': 'Точки GPX',
+    'export.format.csv': 'CSV',
+
+    'batch.back': 'Назад к одиночному анализу',
+    'batch.concurrency': 'Параллельных запросов',
+    'batch.addFiles': 'Добавить файлы',
+    'batch.cancelAll': 'Отменить все',
+    'batch.finished': {
+        one: 'Готово {finished} из {count} файла',
+        few: 'Готово {finished} из {count} файлов',
+        many: 'Готово {finished} из {count} файлов',
+        other: 'Готово {finished} из {count} файла',
+    },
+    'batch.failed': ', с ошибкой: {failed}',
+    'batch.closeResult': 'Закрыть результат',
+    'batch.retry': 'Повторить',
+    'batch.column.file': 'Файл',
+    'batch.column.place': 'Место',
+    'batch.column.country': 'Страна',
+    'batch.column.coordinates': 'Координаты',
+    'batch.column.confidence': 'Уверенность',
+    'batch.column.status': 'Статус',
+    'batch.status.queued': 'В очереди',
+    'batch.status.running': 'Анализ',
+    'batch.status.retrying': {
+        one: 'Попытка {attempt} через {count} секунду',
+        few: 'Попытка {attempt} через {count} секунды',
+        many: 'Попытка {attempt} через {count} секунд',
+        other: 'Попытка {attempt} через {count} секунды',
+    },
+    'batch.status.done': 'Готово',
+    'batch.status.cancelled': 'Отменено',
+    'batch.status.error': 'Ошибка',
+
+    'settings.title': 'Настройки',
+    'settings.close': 'Закрыть настройки',
+    'settings.provider': 'Поставщик модели',
+    'settings.provider.gemini': 'Google Gemini — свой ключ',
+    'settings.provider.proxy': 'Серверный прокси — ключ хранится на сервере',
+    'settings.provider.mock': 'Заглушка (офлайн, записанные ответы)',
+    'settings.imageModel': 'Модель для изображений',
+    'settings.videoModel': 'Модель для видео',
+    'settings.speechModel': 'Модель синтеза речи',
+    'settings.voices': 'Голос для каждого языка',
+    'settings.defaultVoice': 'По умолчанию ({voice})',
+    'settings.proxyUrl': 'Базовый URL прокси',
+    'settings.proxyHint': 'Модели и голос настраиваются на сервере.',
+    'settings.scenario': 'Сценарий',
+    'settings.scenario.auto': 'Автоматически (по файлу)',
+    'settings.latency': 'Имитация задержки (мс)',
+    'settings.cache': 'Кэш результатов',
+    'settings.cacheHint': 'Анализ того же файла той же моделью и на тех же языках берётся из кэша, а не оплачивается заново.',
+    'settings.cacheUsage': 'Сохранено результатов: {count}, {size} из {limit}',
+    'settings.cacheUnavailable': 'Кэш недоступен в этом браузере.',
+    'settings.clearCache': 'Очистить кэш',
+    'settings.modes': 'Модель и инструменты для режимов',
+    'settings.modesHint': 'Сравнение фотографий тоже использует настройки выбранного режима. Оставьте модель пустой, чтобы использовать модель для изображений или видео выше.',
+    'settings.modeModel': 'Модель для режима «{mode}»',
+    'settings.modeSearch': 'Google Поиск',
+    'settings.modeMaps': 'Google Карты',
+    'settings.reset': 'Сбросить настройки',
+    'settings.save': 'Сохранить',
+
+    'errors.unknown': 'Во время анализа произошла неизвестная ошибка.',
+    'errors.uploadFirst': 'Сначала загрузите файл.',
+    'errors.apiKeyMissing': 'API-ключ не указан. Введите действующий ключ Gemini.',
+    'errors.analysisFailed': 'Не удалось проанализировать файл. Попробуйте ещё раз.',
+    'errors.invalidApiKey': 'API-ключ Gemini отклонён. Проверьте его и введите действующий ключ.',
+    'errors.safetyBlocked': 'Запрос заблокирован фильтрами безопасности модели ({reason}). Попробуйте другое фото или видео.',
+    'errors.unsupportedMedia': 'Файлы типа «{mimeType}» не поддерживаются. Попробуйте JPEG, PNG, WebP, MP4 или MOV.',
+    'errors.payloadTooLarge': 'Файл слишком большой для отправки. Сожмите его или выберите файл поменьше.',
+    'errors.offline': 'Не удалось связаться с сервером. Проверьте подключение к интернету и попробуйте снова.',
+    'errors.unparseableResponse': 'Ответ модели не удалось разобрать.',
+    'errors.noLocation': 'Модель не нашла признаков, по которым можно определить место съёмки.',
+    'errors.audioFailed': 'Не удалось создать аудиоописание.',
+    'errors.translationFailed': 'Не удалось перевести описание на язык: {language}.',
+    'errors.rateLimited': 'Достигнут лимит запросов к Gemini API. Подождите немного и попробуйте снова.',
+    'errors.geocoderRateLimited': 'Сервис поиска мест OpenStreetMap перегружен. Подождите немного и попробуйте снова.',
+    'errors.invalidModelResponse': 'Модель вернула место в неожиданном формате: {issues}',
+    'errors.processingTimeout': 'Загруженное видео обрабатывалось слишком долго. Попробуйте более короткий ролик.',
+    'errors.noVideoFrames': 'Не удалось извлечь кадры из видео.',
+    'errors.historyUnsupported': 'Этот браузер не поддерживает локальное хранилище для истории.',
+    'errors.chatFailed': 'Не удалось ответить на вопрос. Попробуйте ещё раз.',
+    'errors.cameraDenied': 'Доступ к камере запрещён. Разрешите его в настройках браузера, чтобы сделать фото.',
+    'errors.cameraUnavailable': 'На этом устройстве или в этом браузере нет доступной камеры.',
+    'errors.urlInvalid': 'Введите полную http(s)-ссылку на изображение или видео.',
+    'errors.urlFetchFailed': 'Не удалось скачать файл по ссылке. Сайт может это запрещать — сохраните файл и загрузите его вручную.',
+    'errors.urlStatus': 'Не удалось скачать файл по ссылке (HTTP {status}).',
+    'errors.urlNotMedia': 'Ссылка ведёт на «{mimeType}», а не на изображение или видео.',
+    'errors.locationDenied': 'Доступ к местоположению запрещён. Разрешите его в настройках браузера или выберите место вручную.',
+    'errors.locationTimeout': 'Не удалось вовремя определить местоположение. Продолжаем попытки…',
+    'errors.locationUnavailable': 'Местоположение сейчас недоступно.',
+    'errors.locationUnsupported': 'Этот браузер не умеет определять местоположение. Выберите место вручную.',
+    'errors.geocodeFailed': 'Не удалось найти адрес. Проверьте подключение или нажмите на карту.',
+    'errors.addressNotFound': 'По запросу «{query}» ничего не найдено.',
+    'errors.reverseGeocodeFailed': 'Не удалось определить место по GPS-координатам файла. Проверьте подключение или отключите «Использовать GPS из файла вместо анализа ИИ», чтобы проанализировать файл.',
+    'errors.comparisonFailed': 'Не удалось сравнить два файла. Попробуйте ещё раз.',
+};
@@ -0,0 +1,15 @@
+import type { en } from './messages/en';
+
+// Plural forms follow Intl.PluralRules categories; "other" is always required.
+export type PluralMessage = { [K in Intl.LDMLPluralRule]?: string } & { other: string };
+
+export type Message = string | PluralMessage;
+
+// English is the source catalog: every other catalog must provide exactly its keys.
+export type MessageKey = keyof typeof en;
+
+export type Catalog = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
@@ -0,0 +1,111 @@
+import type { AnalysisCacheEntry, AnalysisOptions, AnalysisResult, Language, PreparedMedia, RegionOfInterest } from '../types';
+import { CACHE_STORE, openDatabase, promisifyRequest } from './database';
+import { PROMPT_VERSION } from './analysisPrompt';
+import { analysisModeFor } from './analysisModes';
+import { hashFile } from '../utils/fileUtils';
+import { base64ToBytes } from '../utils/audio';
+
+// Audio clips dominate the size; this keeps a few dozen analyses with speech.
+export const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+
+const getStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+    const db = await openDatabase();
+    return db.transaction(CACHE_STORE, mode).objectStore(CACHE_STORE);
+};
+
+interface CacheKeyParts {
+    // Hash of the bytes the model is sent, or of the original file when it is sent in pieces.
+    mediaHash: string;
+    model: string;
+    languages: Language[];
+    regions: RegionOfInterest[];
+    timeline: boolean;
+    options: AnalysisOptions;
+}
+
+export const hashPreparedMedia = (media: PreparedMedia): Promise<string> =>
+    hashFile(media.kind === 'file' ? media.blob : new Blob([base64ToBytes(media.base64Data)]));
+
+/** Everything that shapes the answer goes into the key except the user's position, which only nudges search grounding. */
+export const analysisCacheKey = ({ mediaHash, model, languages, regions, timeline, options }: CacheKeyParts): Promise<string> => {
+    const { template } = analysisModeFor(options.mode);
+    const fingerprint = JSON.stringify({
+        prompt: PROMPT_VERSION,
+        template: `${template.name}@${template.version}`,
+        detail: options.detail,
+        hint: options.hint.trim(),
+        media: mediaHash,
+        model,
+        languages,
+        regions: regions.map(({ box, note }) => ({ box, note: note.trim() })),
+        timeline,
+    });
+    return hashFile(new Blob([fingerprint]));
+};
+
+const entrySize = (result: AnalysisResult, audioClips: AnalysisCacheEntry['audioClips']): number =>
+    JSON.stringify(result).length + Object.values(audioClips).reduce((sum, clip) => sum + (clip?.length ?? 0), 0);
+
+/** Drops the least recently used entries until the rest fit in `maxBytes`. */
+const evict = async (maxBytes: number): Promise<void> => {
+    const store = await getStore('readwrite');
+    const entries = await promisifyRequest(store.index('lastUsedAt').getAll() as IDBRequest<AnalysisCacheEntry[]>);
+    let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+    for (const entry of entries) {
+        if (total <= maxBytes) break;
+        store.delete(entry.key);
+        total -= entry.bytes;
+    }
+};
+
+/** Returns the cached analysis for a key, marking it as just used, or null on a miss. */
+export const getCachedAnalysis = async (key: string): Promise<AnalysisCacheEntry | null> => {
+    const store = await getStore('readwrite');
+    const entry = await promisifyRequest(store.get(key) as IDBRequest<AnalysisCacheEntry | undefined>);
+    if (!entry) return null;
+    const touched = { ...entry, lastUsedAt: Date.now() };
+    await promisifyRequest(store.put(touched));
+    return touched;
+};
+
+export const putCachedAnalysis = async (
+    key: string,
+    result: AnalysisResult,
+    audioClips: AnalysisCacheEntry['audioClips'] = {}
+): Promise<void> => {
+    const now = Date.now();
+    const store = await getStore('readwrite');
+    await promisifyRequest(store.put({ key, createdAt: now, lastUsedAt: now, bytes: entrySize(result, audioClips), result, audioClips }));
+    await evict(MAX_CACHE_BYTES);
+};
+
+/** Adds speech generated after the analysis was cached, so a later hit can play it straight away. */
+export const updateCachedAudio = async (key: string, audioClips: AnalysisCacheEntry['audioClips']): Promise<void> => {
+    const store = await getStore('readwrite');
+    const entry = await promisifyRequest(store.get(key) as IDBRequest<AnalysisCacheEntry | undefined>);
+    if (!entry) return;
+    const merged = { ...entry.audioClips, ...audioClips };
+    if (Object.keys(merged).every(code => entry.audioClips[code as Language] === merged[code as Language])) return;
+    await promisifyRequest(store.put({ ...entry, audioClips: merged, bytes: entrySize(entry.result, merged) }));
+    await evict(MAX_CACHE_BYTES);
+};
+
+/** Replaces the cached result with one changed after the analysis, such as added translations. */
+export const updateCachedResult = async (key: string, result: AnalysisResult): Promise<void> => {
+    const store = await getStore('readwrite');
+    const entry = await promisifyRequest(store.get(key) as IDBRequest<AnalysisCacheEntry | undefined>);
+    if (!entry) return;
+    await promisifyRequest(store.put({ ...entry, result, bytes: entrySize(result, entry.audioClips) }));
+    await evict(MAX_CACHE_BYTES);
+};
+
+export const getCacheUsage = async (): Promise<{ entries: number, bytes: number }> => {
+    const store = await getStore('readonly');
+    const entries = await promisifyRequest(store.getAll() as IDBRequest<AnalysisCacheEntry[]>);
+    return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0) };
+};
+
+export const clearAnalysisCache = async (): Promise<void> => {
+    const store = await getStore('readwrite');
+    await promisifyRequest(store.clear());
+};
@@ -0,0 +1,148 @@
+import type { AnalysisModeId, AnalysisOptions, DetailLevel, GeminiSettings, ModeModelSettings } from '../types';
+import type { MessageKey } from '../i18n';
+
+/**
+ * A named prompt fragment with {{variables}}. The response format around it is
+ * fixed, so a template only decides what the model looks for and writes.
+ * Bump `version` whenever the wording changes: it is part of the cache key.
+ */
+export interface PromptTemplate {
+    name: string;
+    version: number;
+    // The task, filled with {{media}} ("image" or "video").
+    task: string;
+    // What each description contains, filled with {{language}} and {{detail}}.
+    description: string;
+    // Added only when the user typed a hint, filled with {{hint}}.
+    hint: string;
+}
+
+export interface AnalysisMode {
+    id: AnalysisModeId;
+    label: MessageKey;
+    description: MessageKey;
+    template: PromptTemplate;
+    detail: DetailLevel;
+    // Used by the Gemini provider unless the user overrides them in Settings.
+    defaults: ModeModelSettings;
+}
+
+export const DETAIL_LEVELS: DetailLevel[] = ['brief', 'normal', 'detailed'];
+
+const DETAIL_TEXT: Record<DetailLevel, string> = {
+    brief: 'short (two or three sentences)',
+    normal: 'one-paragraph',
+    detailed: 'detailed (several paragraphs)',
+};
+
+// Keeps a pasted essay from crowding out the rest of the prompt.
+export const MAX_HINT_LENGTH = 500;
+
+const ALL_TOOLS = { search: true, maps: true };
+
+export const ANALYSIS_MODES: AnalysisMode[] = [
+    {
+        id: 'standard',
+        label: 'mode.standard',
+        description: 'mode.describe.standard',
+        detail: 'normal',
+        defaults: { model: '', ...ALL_TOOLS },
+        template: {
+            name: 'standard',
+            version: 1,
+            task: `Analyze this {{media}} to identify the geographical location.
+- Identify the specific landmark, city, and country.
+- Using your tools, provide a summary of what this place is famous for, including user reviews if available.`,
+            description: 'a {{detail}} description of the location in {{language}}. Include the landmark name, city, and country. Provide information about reviews and what the place is known for.',
+            hint: 'The user adds: "{{hint}}". Use it as a lead, but check it against what is visible.',
+        },
+    },
+    {
+        id: 'tourist',
+        label: 'mode.tourist',
+        description: 'mode.describe.tourist',
+        detail: 'detailed',
+        defaults: { model: '', ...ALL_TOOLS },
+        template: {
+            name: 'tourist',
+            version: 1,
+            task: `Analyze this {{media}} to identify the place for someone who wants to visit it.
+- Identify the specific landmark, city, and country.
+- Using your tools, find what visitors should know: highlights, user reviews and ratings, opening hours, ticket prices where they apply and the best time to go.`,
+            description: 'a {{detail}} visitor guide in {{language}}: what the place is, why it is worth seeing, what reviewers say, opening hours and practical tips.',
+            hint: 'The user adds: "{{hint}}". Take it into account when choosing what to recommend.',
+        },
+    },
+    {
+        id: 'osint',
+        label: 'mode.osint',
+        description: 'mode.describe.osint',
+        detail: 'detailed',
+        defaults: { model: '', ...ALL_TOOLS },
+        template: {
+            name: 'osint',
+            version: 1,
+            task: `Determine where this {{media}} was taken using verifiable evidence only.
+- Base every conclusion on something visible in the {{media}} or found with your tools, and say which.
+- Leave out reviews, tourist information and anything you cannot support.
+- Lower the confidence rather than guess when the evidence is thin.`,
+            description: 'a {{detail}} evidence report in {{language}}: the conclusion first, then each piece of evidence and what it rules in or out.',
+            hint: 'The user claims: "{{hint}}". Treat it as unverified and confirm or refute it with evidence.',
+        },
+    },
+    {
+        id: 'realEstate',
+        label: 'mode.realEstate',
+        description: 'mode.describe.realEstate',
+        detail: 'detailed',
+        defaults: { model: '', ...ALL_TOOLS },
+        template: {
+            name: 'real-estate',
+            version: 1,
+            task: `Analyze this {{media}} to identify the street, neighbourhood, city and country as precisely as you can.
+- Using your tools, profile the neighbourhood: housing types, typical prices or rents where available, transport links, schools, shops, green spaces and noise.`,
+            description: 'a {{detail}} neighbourhood profile in {{language}} for someone thinking of living there.',
+            hint: 'The user adds: "{{hint}}". Use it to focus the profile.',
+        },
+    },
+    {
+        id: 'quickGuess',
+        label: 'mode.quickGuess',
+        description: 'mode.describe.quickGuess',
+        detail: 'brief',
+        defaults: { model: 'gemini-2.5-flash-lite', search: false, maps: false },
+        template: {
+            name: 'quick-guess',
+            version: 1,
+            task: `Make a quick guess at the country this {{media}} was taken in.
+- Do not try to pin down the landmark or city: set "landmark" and "city" to null and put the coordinates in the most likely part of that country.`,
+            description: 'a {{detail}} explanation in {{language}} of which country this is and the clue that gives it away.',
+            hint: 'The user adds: "{{hint}}".',
+        },
+    },
+];
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = { mode: 'standard', detail: 'normal', hint: '' };
+
+export const isAnalysisModeId = (value: unknown): value is AnalysisModeId =>
+    ANALYSIS_MODES.some(mode => mode.id === value);
+
+export const analysisModeFor = (id: AnalysisModeId = 'standard'): AnalysisMode =>
+    ANALYSIS_MODES.find(mode => mode.id === id) ?? ANALYSIS_MODES[0];
+
+/** The mode's model and tools with the user's overrides applied. */
+export const modeModelSettings = (settings: GeminiSettings, id: AnalysisModeId = 'standard'): ModeModelSettings => ({
+    ...analysisModeFor(id).defaults,
+    ...settings.modes?.[id],
+});
+
+/** Fills {{name}} placeholders; a placeholder without a value is a mistake in the template, not in the input. */
+export const renderTemplate = (template: string, variables: Record<string, string>): string =>
+    template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+        if (!(name in variables)) {
+            throw new Error(`Prompt template variable "${name}" has no value.`);
+        }
+        return variables[name];
+    });
+
+export const detailText = (detail: DetailLevel): string => DETAIL_TEXT[detail];
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { parseAnalysisText } from './analysisPrompt';
+import { NoLocationError, UnparseableResponseError } from './errors';
+import { LocationSchemaError } from './locationSchema';
+import { MOCK_FIXTURES } from './mockFixtures';
+
+type Expectation =
+    | { location: { landmark?: string | null, city: string | null, countryCode: string }, en: string }
+    | { error: new (...args: never[]) => Error, issues?: string[] };
+
+// Every fixture with model text must be listed, so a new one cannot go untested.
+const EXPECTED: Record<string, Expectation> = {
+    'eiffel-tower': {
+        location: { landmark: 'Eiffel Tower', city: 'Paris', countryCode: 'FR' },
+        en: 'This is the Eiffel Tower on the Champ de Mars in Paris, France.',
+    },
+    'shibuya-crossing': {
+        location: { landmark: 'Shibuya Crossing', city: 'Tokyo', countryCode: 'JP' },
+        en: 'This appears to be Shibuya Crossing in Tokyo, Japan',
+    },
+    'prose-wrapped': {
+        location: { landmark: 'Sydney Opera House', city: 'Sydney', countryCode: 'AU' },
+        en: 'This is the Sydney Opera House on Bennelong Point in Sydney, Australia.',
+    },
+    'truncated': {
+        location: { landmark: null, city: 'Amsterdam', countryCode: 'NL' },
+        en: 'A canal lined with narrow brick houses in Amsterdam, the Netherlands.',
+    },
+    'python-literals': {
+        location: { landmark: 'Peggys Point Lighthouse', city: null, countryCode: 'CA' },
+        en: "A red and white lighthouse on granite boulders at Peggy's Cove, Nova Scotia, Canada.",
+    },
+    'schema-mismatch': {
+        error: LocationSchemaError,
+        issues: [
+            'location.countryCode must be an ISO 3166-1 alpha-2 code',
+            'location.latitude must be a number',
+            'location.longitude must be a number',
+        ],
+    },
+    // The first answer is prose only; the mock's re-ask answer is checked below.
+    'repaired-on-reask': { error: UnparseableResponseError },
+    // Repair salvages {"en": "Southern Europe"}, which then fails the schema.
+    'malformed': { error: LocationSchemaError, issues: ['location must be an object'] },
+    'no-location': { error: NoLocationError },
+};
+
+const textFixtures = MOCK_FIXTURES.filter(fixture => fixture.text !== undefined);
+
+describe('parseAnalysisText over the mock fixtures', () => {
+    it('has an expectation for every fixture with text', () => {
+        expect(textFixtures.map(fixture => fixture.id).sort()).toEqual(Object.keys(EXPECTED).sort());
+    });
+
+    it.each(textFixtures.map(fixture => [fixture.id, fixture] as const))('%s', (id, fixture) => {
+        const expected = EXPECTED[id];
+        if ('error' in expected) {
+            let caught: unknown;
+            try {
+                parseAnalysisText(fixture.text!, []);
+            } catch (error) {
+                caught = error;
+            }
+            expect(caught).toBeInstanceOf(expected.error);
+            // Only the typed error's own class counts: a schema mismatch is not a plain parse failure and vice versa.
+            expect((caught as Error).name).toBe(expected.error.name);
+            if (caught instanceof UnparseableResponseError) {
+                expect(caught.rawText).toBe(fixture.text);
+            }
+            if (expected.issues) {
+                expect((caught as LocationSchemaError).issues).toEqual(expected.issues);
+            }
+            return;
+        }
+
+        const result = parseAnalysisText(fixture.text!, fixture.sources ?? []);
+        expect(result.location).toMatchObject(expected.location);
+        expect(result.descriptions.en?.startsWith(expected.en)).toBe(true);
+        expect(result.descriptions.ru).toBeTruthy();
+        expect(result.sources).toEqual(fixture.sources ?? []);
+    });
+
+    it('reads the answer the repaired-on-reask fixture gives on the second try', () => {
+        const fixture = MOCK_FIXTURES.find(candidate => candidate.id === 'repaired-on-reask')!;
+        expect(parseAnalysisText(fixture.repairedText!, []).location).toMatchObject({ landmark: 'Colosseum', countryCode: 'IT' });
+    });
+});
+
+describe('parseAnalysisText', () => {
+    const answer = (location: unknown) => JSON.stringify({ en: 'Somewhere in France [3]', location });
+    const place = { landmark: null, city: 'Lyon', region: null, country: 'France', countryCode: 'fr', latitude: 45.76, longitude: 4.83, confidence: 0.5 };
+
+    it('strips citation markers from descriptions and upper-cases the country code', () => {
+        const result = parseAnalysisText(answer(place), []);
+        expect(result.descriptions).toEqual({ en: 'Somewhere in France' });
+        expect(result.location.countryCode).toBe('FR');
+    });
+
+    it('reports out-of-range coordinates and confidence as schema issues', () => {
+        expect(() => parseAnalysisText(answer({ ...place, latitude: 123, confidence: 2 }), [])).toThrow(expect.objectContaining({
+            name: 'LocationSchemaError',
+            issues: ['location.latitude must be between -90 and 90', 'location.confidence must be between 0 and 1'],
+        }));
+    });
+
+    it('requires a description in at least one supported language', () => {
+        expect(() => parseAnalysisText(JSON.stringify({ xx: 'Somewhere', location: place }), [])).toThrow(expect.objectContaining({
+            issues: ['the answer has no description in any supported language'],
+        }));
+    });
+
+    it('treats a null location as no location rather than a schema mismatch', () => {
+        expect(() => parseAnalysisText(answer(null), [])).toThrow(NoLocationError);
+    });
+});
@@ -0,0 +1,236 @@
+import type { AnalysisOptions, AnalysisResult, ClueCategory, Descriptions, GeolocationCoordinates, GroundingChunk, Language, MediaMetadata, RegionBox, RegionFinding, RegionOfInterest, VisualClue } from '../types';
+import { LocationSchemaError, parseLocationDetails } from './locationSchema';
+import { NoLocationError } from './errors';
+import { parseModelJson } from './modelJson';
+import { DEFAULT_RESULT_LANGUAGES, LANGUAGES, LOCALES } from './locales';
+import { DEFAULT_ANALYSIS_OPTIONS, MAX_HINT_LENGTH, analysisModeFor, detailText, renderTemplate } from './analysisModes';
+
+const describeMetadata = (metadata: MediaMetadata | null | undefined): string => {
+    if (!metadata) return '';
+    const parts: string[] = [];
+    if (metadata.gps) parts.push(`GPS position ${metadata.gps.latitude.toFixed(6)}, ${metadata.gps.longitude.toFixed(6)}`);
+    if (metadata.heading !== undefined) parts.push(`camera heading ${Math.round(metadata.heading)}°`);
+    if (metadata.capturedAt) parts.push(`captured at ${metadata.capturedAt}`);
+    if (metadata.make || metadata.model) parts.push(`camera ${[metadata.make, metadata.model].filter(Boolean).join(' ')}`);
+    return parts.join(', ');
+};
+
+const percent = (fraction: number): string => `${Math.round(fraction * 100)}%`;
+
+/** Label the model and the UI both use for the n-th marked region. */
+export const regionLabel = (index: number): string => `R${index + 1}`;
+
+const describeRegions = (regions: RegionOfInterest[]): string => regions.map(({ box, note }, index) =>
+    `  ${regionLabel(index)}: ${percent(box.width)} × ${percent(box.height)} area starting ${percent(box.x)} from the left and ${percent(box.y)} from the top${note.trim() ? ` (the user says: "${note.trim()}")` : ''}`
+).join('\n');
+
+export const CLUE_CATEGORIES: ClueCategory[] = [
+    'script', 'drivingSide', 'vegetation', 'architecture', 'licensePlate', 'landmark', 'terrain', 'infrastructure', 'other',
+];
+export const MAX_CLUES = 8;
+
+// Part of every cache key: bump it whenever the prompt frame or the answer format changes meaning.
+// Changes to a single mode's wording bump that template's version instead.
+export const PROMPT_VERSION = 2;
+
+const responseKeys = (languages: Language[], regions?: RegionOfInterest[]): string =>
+    [...languages, 'location', 'clues', ...(regions?.length ? ['regions'] : [])].map(key => `"${key}"`).join(', ');
+
+export const buildAnalysisPrompt = (
+    isVideo: boolean,
+    metadata?: MediaMetadata | null,
+    languages: Language[] = DEFAULT_RESULT_LANGUAGES,
+    regions?: RegionOfInterest[],
+    options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS
+): string => {
+    const { template } = analysisModeFor(options.mode);
+    const media = isVideo ? 'video' : 'image';
+    const userHint = options.hint.trim().slice(0, MAX_HINT_LENGTH);
+    const metadataHint = describeMetadata(metadata);
+    const keys = responseKeys(languages, regions);
+    const regionRules = regions?.length ? `
+- The user marked these regions of the image as the most telling; close-ups of them follow the full image, each introduced by its label:
+${describeRegions(regions)}
+  Examine them closely, but weigh them against the rest of the image.
+- The "regions" value must be an array with one object per marked region: "region" (its number, 1 for R1) and "finding" (a short English explanation of what the region shows and which conclusion it supports, or null if it did not help).` : '';
+    const descriptionRules = languages.map(code =>
+        `- The "${code}" value should be ${renderTemplate(template.description, { language: LOCALES[code].name, detail: detailText(options.detail) })}`
+    ).join('\n');
+
+    return `
+${renderTemplate(template.task, { media })}
+- Your final response must be ONLY a JSON object with keys ${keys}.
+${descriptionRules}
+- The "location" value must be an object with these keys:
+  "landmark" (string or null), "city" (string or null), "region" (state/province, string or null),
+  "country" (English country name), "countryCode" (ISO 3166-1 alpha-2, e.g. "FR"),
+  "latitude" (number), "longitude" (number), "confidence" (number from 0 to 1),
+  and "alternates": an array of up to 3 other plausible locations, ranked from most to least likely,
+  each with the same keys except "alternates", plus "reasoning" (a short English explanation of why it is plausible).
+- The "clues" value must be an array of up to ${MAX_CLUES} visual clues you relied on, most important first. Each is an object with
+  "category" (one of ${CLUE_CATEGORIES.map(category => `"${category}"`).join(', ')}),
+  "description" (a short English explanation of what is visible and what it suggests, e.g. "Cyrillic script on the shop sign"),
+  "weight" (number from 0 to 1, how much it influenced your answer) and
+  ${isVideo
+        ? '"boxes" (always an empty array for a video).'
+        : '"boxes" (an array of [ymin, xmin, ymax, xmax] boxes normalized to 0-1000 marking where the clue is visible; empty if it is not tied to one spot).'}
+- If nothing in the ${isVideo ? 'video' : 'image'} lets you place it anywhere, set "location" to null instead of guessing.
+- Do not include any other text, markdown formatting, or bracketed citations like [1] or [2] outside of the JSON object.${regionRules}
+${metadataHint ? `- The file's embedded metadata reports: ${metadataHint}. Treat this as a strong hint, but verify it against what is visible.` : ''}
+${userHint ? `- ${renderTemplate(template.hint, { hint: userHint.replace(/"/g, "'") })}` : ''}
+    `.trim();
+};
+
+/**
+ * Reads a string field out of JSON that may still be arriving, e.g.
+ * `{"en": "The Eiffel To` yields "The Eiffel To". Returns '' until the field starts.
+ */
+export const extractPartialField = (partialJson: string, key: string): string => {
+    const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(partialJson);
+    if (!match) return '';
+    let value = '';
+    for (let i = match.index + match[0].length; i < partialJson.length; i++) {
+        const char = partialJson[i];
+        if (char === '"') break;
+        if (char !== '\\') {
+            value += char;
+            continue;
+        }
+        const next = partialJson[++i];
+        if (next === undefined) break;
+        if (next === 'n') value += '\n';
+        else if (next === 't') value += '\t';
+        else if (next === 'u') {
+            const hex = partialJson.slice(i + 1, i + 5);
+            if (hex.length < 4) break;
+            value += String.fromCharCode(parseInt(hex, 16));
+            i += 4;
+        } else value += next;
+    }
+    return value.replace(/\[\d+\]/g, '');
+};
+
+// Gemini's native box format: [ymin, xmin, ymax, xmax] on a 0-1000 grid.
+const parseBox = (value: unknown): RegionBox | null => {
+    if (!Array.isArray(value) || value.length !== 4 || !value.every(n => typeof n === 'number' && Number.isFinite(n))) return null;
+    const [ymin, xmin, ymax, xmax] = value.map(n => Math.min(1000, Math.max(0, n)) / 1000);
+    if (xmax <= xmin || ymax <= ymin) return null;
+    return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+};
+
+// Clues explain the answer rather than make it, so malformed ones are dropped instead of failing the result.
+const parseClues = (value: unknown): VisualClue[] | undefined => {
+    if (!Array.isArray(value)) return undefined;
+    const clues = value.flatMap((item): VisualClue[] => {
+        if (typeof item !== 'object' || item === null || typeof item.description !== 'string' || !item.description.trim()) return [];
+        const weight = typeof item.weight === 'number' && Number.isFinite(item.weight) ? Math.min(1, Math.max(0, item.weight)) : 0;
+        return [{
+            category: CLUE_CATEGORIES.includes(item.category) ? item.category : 'other',
+            description: item.description.replace(/\s*\[\d+\]/g, '').trim(),
+            weight,
+            boxes: Array.isArray(item.boxes) ? item.boxes.map(parseBox).filter((box): box is RegionBox => box !== null) : [],
+        }];
+    });
+    return clues.sort((a, b) => b.weight - a.weight).slice(0, MAX_CLUES);
+};
+
+// Region findings are a bonus on top of the location, so a malformed entry only loses its own finding.
+const parseRegionFindings = (value: unknown, regions: RegionOfInterest[]): RegionFinding[] => {
+    const entries = Array.isArray(value) ? value : [];
+    return regions.map(({ id, box, note }, index) => {
+        const entry = entries.find(item => typeof item === 'object' && item !== null && Number(item.region) === index + 1);
+        const finding = typeof entry?.finding === 'string' ? entry.finding.replace(/\s*\[\d+\]/g, '').trim() : '';
+        // Picked field by field so request-only data such as crops stays out of the result.
+        return { id, box, note, finding: finding || null };
+    });
+};
+
+/**
+ * Turns the raw text of a model answer into an AnalysisResult. Shared by every
+ * provider so recorded fixtures go through exactly the same parsing as live calls.
+ */
+export const parseAnalysisText = (
+    rawText: string,
+    sources: GroundingChunk[],
+    metadata?: MediaMetadata | null,
+    regions?: RegionOfInterest[]
+): AnalysisResult => {
+    const parsedResult = parseModelJson(rawText);
+    if (parsedResult.location === null) {
+        throw new NoLocationError();
+    }
+
+    // Keep every registry language the model returned, whether or not it was asked for.
+    const descriptions: Descriptions = {};
+    for (const code of LANGUAGES) {
+        const value = parsedResult[code];
+        if (typeof value === 'string') {
+            descriptions[code] = value.replace(/\[\d+\]/g, "").trim();
+        }
+    }
+    const issues: string[] = [];
+    if (Object.keys(descriptions).length === 0) {
+        issues.push('the answer has no description in any supported language');
+    }
+    let location;
+    try {
+        location = parseLocationDetails(parsedResult.location);
+    } catch (error) {
+        if (!(error instanceof LocationSchemaError)) throw error;
+        issues.push(...error.issues);
+    }
+    const clues = parseClues(parsedResult.clues);
+    if (issues.length > 0) {
+        // Keep the model's answer so the user can see what it actually said.
+        throw new LocationSchemaError(issues, rawText);
+    }
+
+    return {
+        descriptions,
+        location,
+        sources: sources,
+        ...(metadata && { metadata }),
+        ...(clues && { clues }),
+        ...(regions?.length && { regions: parseRegionFindings(parsedResult.regions, regions) }),
+    };
+};
+
+/** Second request after an unusable answer: same content, valid JSON this time. */
+export const buildRepairPrompt = (
+    rawText: string,
+    problem: string,
+    languages: Language[] = DEFAULT_RESULT_LANGUAGES,
+    regions?: RegionOfInterest[]
+): string => `
+Your previous answer could not be used because ${problem}.
+Rewrite it as a single JSON object with keys ${responseKeys(languages, regions)}, following the response schema.
+Keep the content of the previous answer; do not add places or facts it did not contain.
+Respond with only the JSON object.
+
+Previous answer:
+${rawText}
+`.trim();
+
+export const buildTranslationPrompt = (text: string, from: Language, to: Language): string => `
+Translate the following description of a place from ${LOCALES[from].name} into ${LOCALES[to].name}.
+Keep proper names recognisable, using their established ${LOCALES[to].name} forms where they exist.
+Respond with only the translated text, without quotes or commentary.
+
+${text}
+`.trim();
+
+/** First turn of a follow-up chat: what was found, so answers build on it rather than starting over. */
+export const buildChatContext = (result: AnalysisResult, coordinates: GeolocationCoordinates | null): string => {
+    const { alternates, ...place } = result.location;
+    const description = result.descriptions.en ?? Object.values(result.descriptions)[0] ?? '';
+    return `
+You analyzed the attached ${result.timeline ? 'video' : 'image'} and identified where it was taken:
+${JSON.stringify({ ...place, alternates: alternates.map(({ country, city, landmark }) => ({ country, city, landmark })) })}
+${description ? `Your description of the place: ${description}` : ''}
+The user will now ask follow-up questions about this place or about what is visible in the ${result.timeline ? 'video' : 'image'}.
+- Answer in the language of the question, conversationally and concisely, in plain text without markdown.
+- Use your tools for anything that depends on current information: directions, opening hours, prices, events, weather.
+${coordinates ? `- The user is currently at ${coordinates.latitude.toFixed(5)}, ${coordinates.longitude.toFixed(5)}; use this for directions and distances.` : '- The user\'s own location is unknown; ask for a starting point if a question needs one.'}
+- Do not include bracketed citations like [1] or [2]; sources are shown separately.
+    `.trim();
+};
@@ -0,0 +1,114 @@
+import type { ComparisonResult, ComparisonVerdict, Descriptions, GroundingChunk, Language, LocationDetails } from '../types';
+import { LocationSchemaError, parseLocationDetails } from './locationSchema';
+import { parseModelJson } from './modelJson';
+import { DEFAULT_RESULT_LANGUAGES, LANGUAGES, LOCALES } from './locales';
+
+export const COMPARISON_VERDICTS: ComparisonVerdict[] = ['same', 'nearby', 'different'];
+export const MAX_COMPARISON_FEATURES = 6;
+
+// What the model is shown first and second, so both the prompt and the answer can refer to them.
+export const comparisonLabel = (index: number): string => (index === 0 ? 'A' : 'B');
+
+const comparisonKeys = (languages: Language[]): string =>
+    [...languages, 'verdict', 'confidence', 'matches', 'differences', 'locations'].map(key => `"${key}"`).join(', ');
+
+/**
+ * Prompt for judging whether two files show the same place; the files come
+ * before it, labelled A and B. `tools` names the grounding tools the request carries.
+ */
+export const buildComparisonPrompt = (
+    kinds: [boolean, boolean],
+    languages: Language[] = DEFAULT_RESULT_LANGUAGES,
+    tools: { search: boolean, maps: boolean } = { search: true, maps: true }
+): string => {
+    const noun = (isVideo: boolean) => (isVideo ? 'video' : 'image');
+    const toolNames = [tools.search && 'Google Search', tools.maps && 'Google Maps'].filter(Boolean).join(' and ');
+    return `
+You are given two pieces of media: ${comparisonLabel(0)} (${noun(kinds[0])}) and ${comparisonLabel(1)} (${noun(kinds[1])}).
+Decide whether they show the same place. Compare durable features such as buildings, skylines, street layout, signage, terrain and vegetation, not people, vehicles, weather or time of day.
+${toolNames ? `Use ${toolNames} to check each location and the distance between them.` : 'Judge from what is visible; you have no search or map tools.'}
+
+Your entire response must be a single, valid JSON object with exactly these keys: ${comparisonKeys(languages)}.
+${languages.map(code => `- The "${code}" value must be a short explanation of your verdict in ${LOCALES[code].name}.`).join('\n')}
+- The "verdict" value must be "same" (the same spot or scene, possibly from another angle), "nearby" (different spots within walking distance or the same neighbourhood) or "different".
+- The "confidence" value must be a number from 0 to 1 for how sure you are of the verdict.
+- The "matches" value must be an array of up to ${MAX_COMPARISON_FEATURES} short English descriptions of features visible in both, e.g. "the same clock tower with a green copper roof"; empty if there are none.
+- The "differences" value must be an array of up to ${MAX_COMPARISON_FEATURES} short English descriptions of features that do not match; empty if there are none.
+- The "locations" value must be an array of exactly two objects, the best location estimate for ${comparisonLabel(0)} and then for ${comparisonLabel(1)}, each with the keys
+  "landmark" (string or null), "city" (string or null), "region" (string or null), "country" (English country name),
+  "countryCode" (ISO 3166-1 alpha-2), "latitude" (number), "longitude" (number) and "confidence" (number from 0 to 1).
+- Do not include any other text, markdown formatting, or bracketed citations like [1] or [2] outside of the JSON object.
+    `.trim();
+};
+
+/** Second request after an unusable comparison answer. */
+export const buildComparisonRepairPrompt = (rawText: string, problem: string, languages: Language[] = DEFAULT_RESULT_LANGUAGES): string => `
+Your previous answer could not be used because ${problem}.
+Rewrite it as a single JSON object with keys ${comparisonKeys(languages)}, following the response schema.
+Keep the content of the previous answer; do not add places or facts it did not contain.
+Respond with only the JSON object.
+
+Previous answer:
+${rawText}
+`.trim();
+
+const parseFeatures = (value: unknown): string[] =>
+    Array.isArray(value)
+        ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+            .map(item => item.replace(/\s*\[\d+\]/g, '').trim())
+            .slice(0, MAX_COMPARISON_FEATURES)
+        : [];
+
+/** Turns the raw text of a comparison answer into a ComparisonResult, listing every problem found. */
+export const parseComparisonText = (rawText: string, sources: GroundingChunk[]): ComparisonResult => {
+    const parsed = parseModelJson(rawText);
+    const issues: string[] = [];
+
+    const descriptions: Descriptions = {};
+    for (const code of LANGUAGES) {
+        const value = parsed[code];
+        if (typeof value === 'string') {
+            descriptions[code] = value.replace(/\[\d+\]/g, '').trim();
+        }
+    }
+    if (Object.keys(descriptions).length === 0) {
+        issues.push('the answer has no explanation in any supported language');
+    }
+
+    const verdict = parsed.verdict as ComparisonVerdict;
+    if (!COMPARISON_VERDICTS.includes(verdict)) {
+        issues.push(`verdict must be one of ${COMPARISON_VERDICTS.join(', ')}`);
+    }
+    const confidence = parsed.confidence;
+    if (typeof confidence !== 'number' || !(confidence >= 0 && confidence <= 1)) {
+        issues.push('confidence must be a number between 0 and 1');
+    }
+
+    const locations: LocationDetails[] = [];
+    if (!Array.isArray(parsed.locations) || parsed.locations.length !== 2) {
+        issues.push('locations must be an array of exactly two locations');
+    } else {
+        parsed.locations.forEach((value, index) => {
+            try {
+                locations.push(parseLocationDetails(value));
+            } catch (error) {
+                if (!(error instanceof LocationSchemaError)) throw error;
+                // The shared validator names the field "location"; say which of the two it was.
+                issues.push(...error.issues.map(issue => issue.replace(/^location/, `locations[${index}]`)));
+            }
+        });
+    }
+
+    if (issues.length > 0) {
+        throw new LocationSchemaError(issues, rawText);
+    }
+    return {
+        verdict,
+        confidence: confidence as number,
+        descriptions,
+        matches: parseFeatures(parsed.matches),
+        differences: parseFeatures(parsed.differences),
+        locations: [locations[0], locations[1]],
+        sources,
+    };
+};
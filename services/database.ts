@@ -0,0 +1,45 @@
+import { LocalizedError } from './errors';
+
+const DB_NAME = 'geo-locator-ai';
+const DB_VERSION = 2;
+
+export const HISTORY_STORE = 'history';
+export const CACHE_STORE = 'analysis-cache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (!('indexedDB' in window)) {
+                reject(new LocalizedError('errors.historyUnsupported'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+                    const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+                    store.createIndex('createdAt', 'createdAt');
+                }
+                if (!db.objectStoreNames.contains(CACHE_STORE)) {
+                    const store = db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+                    store.createIndex('lastUsedAt', 'lastUsedAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+/** Wraps an IDBRequest in a promise. */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
@@ -0,0 +1,121 @@
+import type { MessageKey, MessageParams, Translate } from '../i18n';
+import { translate } from '../i18n';
+
+/**
+ * An error shown to the user. It carries a catalog key so the UI can render
+ * it in the current language; `message` holds the English text for logs.
+ */
+export class LocalizedError extends Error {
+    readonly key: MessageKey;
+    readonly params?: MessageParams;
+
+    constructor(key: MessageKey, params?: MessageParams) {
+        super(translate('en', key, params));
+        this.name = 'LocalizedError';
+        this.key = key;
+        this.params = params;
+    }
+}
+
+/** The key was rejected, or there is none; `missing` tells the two apart for the message. */
+export class InvalidApiKeyError extends LocalizedError {
+    constructor(missing = false) {
+        super(missing ? 'errors.apiKeyMissing' : 'errors.invalidApiKey');
+        this.name = 'InvalidApiKeyError';
+    }
+}
+
+export class RateLimitError extends LocalizedError {
+    // How long the server asked us to wait, when it said.
+    readonly retryAfterMs?: number;
+
+    constructor(retryAfterMs?: number, key: MessageKey = 'errors.rateLimited') {
+        super(key);
+        this.name = 'RateLimitError';
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+export class SafetyBlockError extends LocalizedError {
+    constructor(reason: string) {
+        super('errors.safetyBlocked', { reason });
+        this.name = 'SafetyBlockError';
+    }
+}
+
+export class UnsupportedMediaError extends LocalizedError {
+    constructor(mimeType: string) {
+        super('errors.unsupportedMedia', { mimeType: mimeType || 'unknown' });
+        this.name = 'UnsupportedMediaError';
+    }
+}
+
+export class PayloadTooLargeError extends LocalizedError {
+    constructor() {
+        super('errors.payloadTooLarge');
+        this.name = 'PayloadTooLargeError';
+    }
+}
+
+export class NetworkError extends LocalizedError {
+    constructor() {
+        super('errors.offline');
+        this.name = 'NetworkError';
+    }
+}
+
+/** The model answered, but not with JSON we can read. `rawText` is what it said. */
+export class UnparseableResponseError extends LocalizedError {
+    readonly rawText?: string;
+
+    constructor(rawText?: string, key: MessageKey = 'errors.unparseableResponse', params?: MessageParams) {
+        super(key, params);
+        this.name = 'UnparseableResponseError';
+        this.rawText = rawText;
+    }
+}
+
+export class NoLocationError extends LocalizedError {
+    constructor() {
+        super('errors.noLocation');
+        this.name = 'NoLocationError';
+    }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+/** Failures that are likely to go away if the same request is sent again a little later. */
+export const isTransientError = (error: unknown): boolean =>
+    error instanceof RateLimitError || error instanceof NetworkError;
+
+// What fetch rejects with when the request never reached a server, in Chrome, Node, Firefox, Safari and React Native.
+const FETCH_FAILURE_MESSAGE = /failed to fetch|fetch failed|networkerror when attempting to fetch|load failed|network request failed/i;
+
+/**
+ * True for a TypeError thrown by fetch itself. Other TypeErrors are bugs and
+ * must not be retried or reported as the user being offline.
+ */
+export const isNetworkFailure = (error: unknown): boolean =>
+    error instanceof TypeError && FETCH_FAILURE_MESSAGE.test(error.message);
+
+export const retryAfterOf = (error: unknown): number | undefined =>
+    error instanceof RateLimitError ? error.retryAfterMs : undefined;
+
+export type RecoveryAction = 'retry' | 'changeKey' | 'compress' | 'showRawText';
+
+/** What the UI offers after an analysis fails, in the order the buttons appear. */
+export const recoveryActionsFor = (error: unknown): RecoveryAction[] => {
+    if (error instanceof InvalidApiKeyError) return ['changeKey'];
+    if (error instanceof PayloadTooLargeError) return ['compress'];
+    if (error instanceof SafetyBlockError || error instanceof UnsupportedMediaError) return [];
+    if (error instanceof UnparseableResponseError && error.rawText) return ['retry', 'showRawText'];
+    return ['retry'];
+};
+
+/** Text for any caught error: catalog errors are translated, others show their own message. */
+export const describeError = (error: unknown, t: Translate): string => {
+    if (error instanceof LocalizedError) return t(error.key, error.params);
+    if (error instanceof Error && error.message) return error.message;
+    return t('errors.unknown');
+};
@@ -0,0 +1,129 @@
+import { FileState, GoogleGenAI } from "@google/genai";
+import { sleep } from '../utils/retry';
+import { LocalizedError } from './errors';
+
+interface UploadOptions {
+    signal?: AbortSignal;
+    onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+}
+
+export interface UploadedFile {
+    // Resource name such as "files/abc-123", needed to poll and delete it.
+    name: string;
+    uri: string;
+    mimeType: string;
+}
+
+const UPLOAD_URL = 'https://generativelanguage.googleapis.com/upload/v1beta/files';
+// The resumable protocol requires chunks in multiples of 256 KiB.
+const CHUNK_SIZE = 8 * 1024 * 1024;
+const MAX_CHUNK_RETRIES = 3;
+const POLL_INTERVAL_MS = 2000;
+// Long videos usually finish within a minute or two; past this the file is unlikely to become usable.
+const MAX_PROCESSING_MS = 5 * 60 * 1000;
+
+const startUpload = async (apiKey: string, blob: Blob, mimeType: string, signal?: AbortSignal): Promise<string> => {
+    const response = await fetch(UPLOAD_URL, {
+        method: 'POST',
+        headers: {
+            'x-goog-api-key': apiKey,
+            'X-Goog-Upload-Protocol': 'resumable',
+            'X-Goog-Upload-Command': 'start',
+            'X-Goog-Upload-Header-Content-Length': String(blob.size),
+            'X-Goog-Upload-Header-Content-Type': mimeType,
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ file: { display_name: blob instanceof File ? blob.name : 'upload' } }),
+        signal,
+    });
+    const uploadUrl = response.headers.get('x-goog-upload-url');
+    if (!response.ok || !uploadUrl) {
+        throw new Error(`Could not start the file upload (status ${response.status}).`);
+    }
+    return uploadUrl;
+};
+
+// After a dropped connection, asks the server how much it already has so we can continue from there.
+const queryReceivedBytes = async (uploadUrl: string, signal?: AbortSignal): Promise<number> => {
+    const response = await fetch(uploadUrl, {
+        method: 'POST',
+        headers: { 'X-Goog-Upload-Command': 'query' },
+        signal,
+    });
+    return Number(response.headers.get('x-goog-upload-size-received') ?? 0);
+};
+
+/**
+ * Uploads a blob to the Gemini Files API in chunks, reporting progress and
+ * resuming from the server's last received byte if a chunk fails.
+ */
+export const uploadFile = async (
+    apiKey: string,
+    blob: Blob,
+    mimeType: string,
+    { signal, onProgress }: UploadOptions = {}
+): Promise<UploadedFile> => {
+    const uploadUrl = await startUpload(apiKey, blob, mimeType, signal);
+    let offset = 0;
+    let retries = 0;
+    onProgress?.(0, blob.size);
+
+    while (true) {
+        const end = Math.min(offset + CHUNK_SIZE, blob.size);
+        const isLast = end >= blob.size;
+        try {
+            const response = await fetch(uploadUrl, {
+                method: 'POST',
+                headers: {
+                    'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+                    'X-Goog-Upload-Offset': String(offset),
+                },
+                body: blob.slice(offset, end),
+                signal,
+            });
+            if (!response.ok) {
+                throw new Error(`Chunk upload failed with status ${response.status}.`);
+            }
+            onProgress?.(end, blob.size);
+            if (isLast) {
+                const { file } = await response.json();
+                return { name: file.name, uri: file.uri, mimeType: file.mimeType ?? mimeType };
+            }
+            offset = end;
+            retries = 0;
+        } catch (error) {
+            if (signal?.aborted || retries >= MAX_CHUNK_RETRIES) {
+                throw error;
+            }
+            retries++;
+            console.error(`Upload chunk at byte ${offset} failed, resuming:`, error);
+            await sleep(1000 * retries, signal);
+            offset = await queryReceivedBytes(uploadUrl, signal);
+        }
+    }
+};
+
+/** Videos are processed after upload and cannot be referenced until they are ACTIVE. */
+export const waitUntilActive = async (ai: GoogleGenAI, name: string, signal?: AbortSignal): Promise<void> => {
+    const deadline = Date.now() + MAX_PROCESSING_MS;
+    while (true) {
+        const file = await ai.files.get({ name });
+        if (file.state === FileState.ACTIVE) return;
+        if (file.state === FileState.FAILED) {
+            throw new Error(file.error?.message ?? "The uploaded file could not be processed.");
+        }
+        if (Date.now() >= deadline) {
+            throw new LocalizedError('errors.processingTimeout');
+        }
+        await sleep(POLL_INTERVAL_MS, signal);
+    }
+};
+
+export const deleteUploadedFile = async (ai: GoogleGenAI, name: string): Promise<void> => {
+    try {
+        await ai.files.delete({ name });
+    } catch (error) {
+        // Uploads expire on their own after 48 hours, so a failed cleanup is not worth surfacing.
+        console.error("Failed to delete uploaded file:", error);
+    }
+};
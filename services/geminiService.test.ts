@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileState } from '@google/genai';
+import type { PreparedMedia } from '../types';
+import { createGeminiProvider } from './geminiService';
+import { NoLocationError, UnparseableResponseError } from './errors';
+import { LocationSchemaError } from './locationSchema';
+import { MOCK_FIXTURES } from './mockFixtures';
+
+// Only the calls the analysis makes are replaced; the rest of the SDK (enums, ApiError) is real.
+const models = vi.hoisted(() => ({
+    generateContentStream: vi.fn(),
+    generateContent: vi.fn(),
+}));
+const files = vi.hoisted(() => ({
+    get: vi.fn(),
+    delete: vi.fn(),
+}));
+
+vi.mock('@google/genai', async importOriginal => ({
+    ...await importOriginal<typeof import('@google/genai')>(),
+    GoogleGenAI: class {
+        models = models;
+        files = files;
+    },
+}));
+
+const media: PreparedMedia = { kind: 'inline', base64Data: 'AAAA', mimeType: 'image/jpeg' };
+
+const fixture = (id: string) => MOCK_FIXTURES.find(candidate => candidate.id === id)!;
+
+async function* streamOf(text: string) {
+    // Split in two so the answer arrives the way a live stream delivers it.
+    const middle = Math.floor(text.length / 2);
+    yield { text: text.slice(0, middle) };
+    yield { text: text.slice(middle) };
+}
+
+const analyze = (firstAnswer: string, repairedAnswer?: string) => {
+    models.generateContentStream.mockResolvedValue(streamOf(firstAnswer));
+    models.generateContent.mockResolvedValue({ text: repairedAnswer });
+    return createGeminiProvider('test-key').analyzeMedia({ media, coordinates: null, languages: ['en', 'ru'] });
+};
+
+describe('Gemini analysis re-ask', () => {
+    beforeEach(() => {
+        models.generateContentStream.mockReset();
+        models.generateContent.mockReset();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('does not re-ask when the first answer can be repaired locally', async () => {
+        const result = await analyze(fixture('prose-wrapped').text!);
+        expect(result.location.landmark).toBe('Sydney Opera House');
+        expect(models.generateContent).not.toHaveBeenCalled();
+    });
+
+    it('re-asks once, without tools and with a response schema, and uses the second answer', async () => {
+        const { text, repairedText } = fixture('repaired-on-reask');
+        const result = await analyze(text!, repairedText);
+
+        expect(result.location).toMatchObject({ landmark: 'Colosseum', countryCode: 'IT' });
+        expect(models.generateContent).toHaveBeenCalledTimes(1);
+        const [request] = models.generateContent.mock.calls[0];
+        expect(request.config.tools).toBeUndefined();
+        expect(request.config.responseMimeType).toBe('application/json');
+        expect(request.config.responseSchema).toBeDefined();
+        expect(request.contents).toContain('it was not valid JSON');
+        expect(request.contents).toContain(text);
+    });
+
+    it('names the schema issues in the re-ask', async () => {
+        const { text } = fixture('schema-mismatch');
+        await analyze(text!, fixture('eiffel-tower').text);
+
+        const [request] = models.generateContent.mock.calls[0];
+        expect(request.contents).toContain('it did not match the schema (location.countryCode must be an ISO 3166-1 alpha-2 code;');
+    });
+
+    it('reports the first answer when the second is unusable too', async () => {
+        const { text } = fixture('malformed');
+        const failure = analyze(text!, 'Still not JSON.');
+
+        await expect(failure).rejects.toBeInstanceOf(LocationSchemaError);
+        await expect(failure).rejects.toMatchObject({ rawText: text, issues: ['location must be an object'] });
+        expect(models.generateContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps a parse failure typed when nothing could be read', async () => {
+        const { text } = fixture('repaired-on-reask');
+        const failure = analyze(text!, '');
+
+        await expect(failure).rejects.toBeInstanceOf(UnparseableResponseError);
+        await expect(failure).rejects.not.toBeInstanceOf(LocationSchemaError);
+        expect(models.generateContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports no location when the second answer finds none', async () => {
+        const failure = analyze(fixture('repaired-on-reask').text!, fixture('no-location').text);
+
+        await expect(failure).rejects.toBeInstanceOf(NoLocationError);
+    });
+
+    it('does not re-ask when the model found no location', async () => {
+        await expect(analyze(fixture('no-location').text!)).rejects.toBeInstanceOf(NoLocationError);
+        expect(models.generateContent).not.toHaveBeenCalled();
+    });
+});
+
+describe('Gemini file uploads', () => {
+    const video: PreparedMedia = { kind: 'file', blob: new Blob(['video']), mimeType: 'video/mp4' };
+
+    beforeEach(() => {
+        models.generateContentStream.mockReset();
+        files.get.mockReset();
+        files.delete.mockReset().mockResolvedValue({});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        // The resumable upload goes over fetch: the start call names the upload URL, the last chunk returns the file.
+        vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+            const command = (init.headers as Record<string, string>)['X-Goog-Upload-Command'];
+            return command === 'start'
+                ? new Response(null, { headers: { 'x-goog-upload-url': 'https://upload.test/session' } })
+                : new Response(JSON.stringify({ file: { name: 'files/abc', uri: 'https://files.test/abc', mimeType: 'video/mp4' } }));
+        }));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.useRealTimers();
+    });
+
+    const analyzeVideo = () => createGeminiProvider('test-key').analyzeMedia({ media: video, coordinates: null, languages: ['en'] });
+
+    it('deletes an upload that fails processing', async () => {
+        files.get.mockResolvedValue({ state: FileState.FAILED, error: { message: 'Unsupported codec' } });
+
+        await expect(analyzeVideo()).rejects.toThrow();
+        expect(files.delete).toHaveBeenCalledTimes(1);
+        expect(files.delete).toHaveBeenCalledWith({ name: 'files/abc' });
+        expect(models.generateContentStream).not.toHaveBeenCalled();
+    });
+
+    it('gives up on and deletes an upload that never finishes processing', async () => {
+        vi.useFakeTimers();
+        files.get.mockResolvedValue({ state: FileState.PROCESSING });
+
+        const failure = analyzeVideo();
+        const assertion = expect(failure).rejects.toMatchObject({ key: 'errors.processingTimeout' });
+        await vi.advanceTimersByTimeAsync(5 * 60 * 1000 + 2000);
+        await assertion;
+        expect(files.delete).toHaveBeenCalledWith({ name: 'files/abc' });
+    });
+});
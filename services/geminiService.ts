@@ -1,103 +1,406 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { AnalysisResult, GeolocationCoordinates } from '../types';
+import { ApiError, Content, FinishReason, GenerateContentConfig, GenerateContentResponse, GoogleGenAI, Modality, Part, Schema, createPartFromUri } from "@google/genai";
+import type { AnalysisProgress, ComparisonResult, GeminiSettings, ModeModelSettings, GeolocationCoordinates, GroundingChunk, Language, PreparedMedia } from '../types';
+import type { AnalyzeMediaRequest, ChatProvider, CompareMediaRequest, ComparisonProvider, MarkedRegion, ChatReply, ChatRequest, LocationProvider, SpeechProvider, SpeechRequest, TranslateRequest, TranslationProvider } from './providers';
+import {
+    InvalidApiKeyError,
+    LocalizedError,
+    NetworkError,
+    NoLocationError,
+    PayloadTooLargeError,
+    RateLimitError,
+    SafetyBlockError,
+    UnparseableResponseError,
+    UnsupportedMediaError,
+    isAbortError,
+    isNetworkFailure,
+} from './errors';
+import { buildAnalysisPrompt, buildChatContext, buildRepairPrompt, buildTranslationPrompt, parseAnalysisText, regionLabel } from './analysisPrompt';
+import { buildComparisonPrompt, buildComparisonRepairPrompt, comparisonLabel, parseComparisonText } from './comparisonPrompt';
+import { buildAnalysisResponseSchema, buildComparisonResponseSchema, supportsSchemaWithTools } from './responseSchema';
+import { LocationSchemaError } from './locationSchema';
+import { LOCALES } from './locales';
+import { modeModelSettings } from './analysisModes';
+import { deleteUploadedFile, uploadFile, waitUntilActive } from './geminiFiles';
+
+export const DEFAULT_GEMINI_SETTINGS: GeminiSettings = {
+    imageModel: 'gemini-2.5-flash',
+    videoModel: 'gemini-2.5-pro',
+    ttsModel: 'gemini-2.5-flash-preview-tts',
+    voices: {},
+};
 
 function getAiClient(apiKey: string): GoogleGenAI {
     if (!apiKey) {
-        throw new Error("API Key is missing. Please provide a valid Gemini API key.");
+        throw new InvalidApiKeyError(true);
     }
     return new GoogleGenAI({ apiKey });
 }
 
-export const analyzeMedia = async (
-    apiKey: string,
-    base64Data: string,
-    mimeType: string,
-    coordinates: GeolocationCoordinates | null
-): Promise<AnalysisResult> => {
-    const ai = getAiClient(apiKey);
-    const isVideo = mimeType.startsWith('video/');
-    const modelName = isVideo ? 'gemini-2.5-pro' : 'gemini-2.5-flash';
-
-    const prompt = `
-Analyze this ${isVideo ? 'video' : 'image'} to identify the geographical location.
-- Identify the specific landmark, city, and country.
-- Using your tools, provide a summary of what this place is famous for, including user reviews if available.
-- Your final response must be ONLY a JSON object with keys "en" and "ru".
-- The "en" value should be a detailed description of the location in English. Include the landmark name, city, and country. Provide information about reviews and what the place is known for.
-- The "ru" value should be a detailed description of the location in Russian. Include the landmark name, city, and country. Provide information about reviews and what the place is known for.
-- Do not include any other text, markdown formatting, or bracketed citations like [1] or [2] outside of the JSON object.
-    `.trim();
-
-    try {
-        const response = await ai.models.generateContent({
-            model: modelName,
-            contents: {
-                parts: [
-                    { inlineData: { data: base64Data, mimeType } },
-                    { text: prompt }
-                ]
-            },
-            config: {
-                tools: [{ googleSearch: {} }, { googleMaps: {} }],
-                ...(coordinates && {
-                    toolConfig: {
-                        retrievalConfig: {
-                            latLng: {
-                                latitude: coordinates.latitude,
-                                longitude: coordinates.longitude
-                            }
-                        }
-                    }
-                })
+const BLOCKING_FINISH_REASONS: string[] = [FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII];
+
+// A blocked prompt has no candidates; a blocked answer stops with a safety finish reason.
+const blockReasonOf = (chunk: GenerateContentResponse): string | null => {
+    const promptBlock = chunk.promptFeedback?.blockReason;
+    if (promptBlock) return promptBlock;
+    const finishReason = chunk.candidates?.[0]?.finishReason;
+    return finishReason && BLOCKING_FINISH_REASONS.includes(finishReason) ? finishReason : null;
+};
+
+/**
+ * Turns an SDK or transport failure into one of the typed errors the UI knows
+ * how to recover from, or null when it is none of them.
+ */
+const classifyApiError = (error: unknown, mimeType = ''): LocalizedError | null => {
+    if (error instanceof ApiError) {
+        const message = error.message.toLowerCase();
+        if (error.status === 401 || error.status === 403 || message.includes('api key not valid') || message.includes('api_key_invalid')) {
+            return new InvalidApiKeyError();
+        }
+        if (error.status === 429) return new RateLimitError();
+        if (error.status === 413 || message.includes('request payload size exceeds')) return new PayloadTooLargeError();
+        if (message.includes('mime type') || message.includes('unsupported')) return new UnsupportedMediaError(mimeType);
+        return null;
+    }
+    return isNetworkFailure(error) ? new NetworkError() : null;
+};
+
+// Search and Maps grounding, biased towards the user's position when it is known.
+const groundingConfig = (
+    coordinates: GeolocationCoordinates | null,
+    { search, maps }: Pick<ModeModelSettings, 'search' | 'maps'> = { search: true, maps: true }
+): GenerateContentConfig => (!search && !maps ? {} : {
+    tools: [...(search ? [{ googleSearch: {} }] : []), ...(maps ? [{ googleMaps: {} }] : [])],
+    ...(maps && coordinates && {
+        toolConfig: {
+            retrievalConfig: {
+                latLng: {
+                    latitude: coordinates.latitude,
+                    longitude: coordinates.longitude
+                }
             }
-        });
+        }
+    })
+});
 
-        let text = response.text.trim();
-        const jsonMatch = text.match(/```(json)?\s*([\s\S]*?)\s*```/);
-        if (jsonMatch && jsonMatch[2]) {
-            text = jsonMatch[2];
+// Each close-up is labelled so the model can tell which marked region it shows.
+const regionParts = (regions: MarkedRegion[] = []): Part[] => regions.flatMap((region, index) => region.crop
+    ? [{ text: `${regionLabel(index)} close-up:` }, { inlineData: { data: region.crop, mimeType: 'image/jpeg' } }]
+    : []);
+
+// Collects a streamed answer and its grounding, reporting progress and failing fast on a safety block.
+const readAnswerStream = async (
+    stream: AsyncGenerator<GenerateContentResponse>,
+    onProgress?: (progress: AnalysisProgress) => void
+): Promise<{ text: string, sources: GroundingChunk[] }> => {
+    let text = '';
+    let sources: GroundingChunk[] = [];
+    for await (const chunk of stream) {
+        const blockReason = blockReasonOf(chunk);
+        if (blockReason) {
+            throw new SafetyBlockError(blockReason);
+        }
+        const grounding = chunk.candidates?.[0]?.groundingMetadata;
+        if (grounding?.groundingChunks?.length) {
+            sources = grounding.groundingChunks;
         }
-        
-        const parsedResult = JSON.parse(text);
-        const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-        
-        const cleanEn = (parsedResult.en || "").replace(/\[\d+\]/g, "").trim();
-        const cleanRu = (parsedResult.ru || "").replace(/\[\d+\]/g, "").trim();
-
-        return {
-            en: cleanEn,
-            ru: cleanRu,
-            sources: sources
-        };
-    } catch (error) {
-        console.error("Error analyzing media:", error);
-        throw new Error("Failed to analyze the media. The model could not identify the location. Please check your API key and try again.");
+        text += chunk.text ?? '';
+        const isGrounding = !!(grounding?.webSearchQueries?.length || grounding?.groundingChunks?.length);
+        onProgress?.({ stage: isGrounding ? 'grounding' : 'reasoning', partialText: text });
     }
+    return { text, sources };
 };
 
-export const generateAudio = async (apiKey: string, text: string): Promise<string> => {
-    const ai = getAiClient(apiKey);
-    try {
+export const createGeminiProvider = (
+    apiKey: string,
+    settings: GeminiSettings = DEFAULT_GEMINI_SETTINGS
+): LocationProvider & SpeechProvider & TranslationProvider & ChatProvider & ComparisonProvider => {
+    // Large media is uploaded once per chat and reused for every question; the Files API expires it on its own.
+    const chatUploads = new WeakMap<Blob, Promise<Part>>();
+
+    const chatMediaPart = (ai: GoogleGenAI, media: PreparedMedia, signal?: AbortSignal): Promise<Part> => {
+        if (media.kind === 'inline') {
+            return Promise.resolve({ inlineData: { data: media.base64Data, mimeType: media.mimeType } });
+        }
+        let part = chatUploads.get(media.blob);
+        if (!part) {
+            part = uploadFile(apiKey, media.blob, media.mimeType, { signal }).then(async uploaded => {
+                await activateUpload(ai, uploaded.name, signal);
+                return createPartFromUri(uploaded.uri, uploaded.mimeType);
+            });
+            // A failed or cancelled upload should be retried by the next question.
+            part.catch(() => chatUploads.delete(media.blob));
+            chatUploads.set(media.blob, part);
+        }
+        return part;
+    };
+
+    // The upload is not handed to the caller until it is active, so a file that never gets there is deleted here.
+    const activateUpload = async (ai: GoogleGenAI, name: string, signal?: AbortSignal): Promise<void> => {
+        try {
+            await waitUntilActive(ai, name, signal);
+        } catch (error) {
+            await deleteUploadedFile(ai, name);
+            throw error;
+        }
+    };
+
+    // Inline media travels in the request; larger files are uploaded first and must be deleted by the caller.
+    const requestMediaPart = async (
+        ai: GoogleGenAI,
+        media: PreparedMedia,
+        signal?: AbortSignal,
+        onProgress?: (progress: AnalysisProgress) => void
+    ): Promise<{ part: Part, uploadedName: string | null }> => {
+        if (media.kind === 'inline') {
+            return { part: { inlineData: { data: media.base64Data, mimeType: media.mimeType } }, uploadedName: null };
+        }
+        const uploaded = await uploadFile(apiKey, media.blob, media.mimeType, {
+            signal,
+            onProgress: (sentBytes, totalBytes) => onProgress?.({ stage: 'uploading', upload: { sentBytes, totalBytes } }),
+        });
+        await activateUpload(ai, uploaded.name, signal);
+        return { part: createPartFromUri(uploaded.uri, uploaded.mimeType), uploadedName: uploaded.name };
+    };
+
+    // One re-ask without tools, where a response schema is always allowed, before giving up on an unusable answer.
+    const repairAnswer = async (
+        ai: GoogleGenAI,
+        model: string,
+        problem: UnparseableResponseError,
+        buildPrompt: (reason: string) => string,
+        responseSchema: Schema,
+        signal?: AbortSignal
+    ): Promise<string> => {
+        const reason = problem instanceof LocationSchemaError ? `it did not match the schema (${problem.issues.join('; ')})` : 'it was not valid JSON';
         const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: `Say this naturally: ${text}` }] }],
+            model,
+            contents: buildPrompt(reason),
             config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: 'Kore' },
-                    },
-                },
+                abortSignal: signal,
+                responseMimeType: 'application/json',
+                responseSchema,
             },
         });
-        
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        if (!base64Audio) {
-            throw new Error("No audio data received from API.");
+        return response.text ?? '';
+    };
+
+    const analyzeMedia = async ({ media, coordinates, metadata, languages, regions, options, signal, onProgress }: AnalyzeMediaRequest) => {
+        const ai = getAiClient(apiKey);
+        const isVideo = media.mimeType.startsWith('video/');
+        const modeSettings = modeModelSettings(settings, options?.mode);
+        const modelName = modeSettings.model || (isVideo ? settings.videoModel : settings.imageModel);
+        const prompt = buildAnalysisPrompt(isVideo, metadata, languages, regions, options);
+        const usesTools = modeSettings.search || modeSettings.maps;
+        let uploadedName: string | null = null;
+
+        try {
+            onProgress?.({ stage: 'uploading' });
+            const prepared = await requestMediaPart(ai, media, signal, onProgress);
+            uploadedName = prepared.uploadedName;
+
+            const stream = await ai.models.generateContentStream({
+                model: modelName,
+                contents: {
+                    parts: [
+                        prepared.part,
+                        ...regionParts(regions),
+                        { text: prompt }
+                    ]
+                },
+                config: {
+                    abortSignal: signal,
+                    ...groundingConfig(coordinates, modeSettings),
+                    ...((!usesTools || supportsSchemaWithTools(modelName)) && {
+                        responseMimeType: 'application/json',
+                        responseSchema: buildAnalysisResponseSchema(languages, regions?.length),
+                    }),
+                }
+            });
+
+            const { text, sources } = await readAnswerStream(stream, onProgress);
+
+            onProgress?.({ stage: 'parsing', partialText: text });
+            try {
+                return parseAnalysisText(text, sources, metadata, regions);
+            } catch (error) {
+                if (!(error instanceof UnparseableResponseError)) throw error;
+                const repaired = await repairAnswer(
+                    ai,
+                    modelName,
+                    error,
+                    reason => buildRepairPrompt(text, reason, languages, regions),
+                    buildAnalysisResponseSchema(languages, regions?.length),
+                    signal
+                );
+                try {
+                    return parseAnalysisText(repaired, sources, metadata, regions);
+                } catch (repairError) {
+                    console.error("The repaired answer was still unusable:", repairError);
+                    if (repairError instanceof NoLocationError) throw repairError;
+                    // Report the first answer; it is the one the user would want to inspect.
+                    throw error;
+                }
+            }
+        } catch (error) {
+            console.error("Error analyzing media:", error);
+            if (error instanceof LocalizedError || isAbortError(error) || signal?.aborted) {
+                throw error;
+            }
+            throw classifyApiError(error, media.mimeType) ?? new LocalizedError('errors.analysisFailed');
+        } finally {
+            if (uploadedName) {
+                await deleteUploadedFile(ai, uploadedName);
+            }
         }
-        return base64Audio;
-    } catch (error) {
-        console.error("Error generating audio:", error);
-        throw new Error("Failed to generate audio summary.");
-    }
-};
\ No newline at end of file
+    };
+
+    const compareMedia = async ({ media, coordinates, languages, mode, signal, onProgress }: CompareMediaRequest): Promise<ComparisonResult> => {
+        const ai = getAiClient(apiKey);
+        const kinds: [boolean, boolean] = [media[0].mimeType.startsWith('video/'), media[1].mimeType.startsWith('video/')];
+        const modeSettings = modeModelSettings(settings, mode);
+        const modelName = modeSettings.model || (kinds.includes(true) ? settings.videoModel : settings.imageModel);
+        const usesTools = modeSettings.search || modeSettings.maps;
+        const uploadedNames: string[] = [];
+
+        try {
+            onProgress?.({ stage: 'uploading' });
+            const mediaParts: Part[] = [];
+            for (const [index, item] of media.entries()) {
+                const { part, uploadedName } = await requestMediaPart(ai, item, signal, onProgress);
+                if (uploadedName) uploadedNames.push(uploadedName);
+                mediaParts.push({ text: `${comparisonLabel(index)}:` }, part);
+            }
+
+            const stream = await ai.models.generateContentStream({
+                model: modelName,
+                contents: { parts: [...mediaParts, { text: buildComparisonPrompt(kinds, languages, modeSettings) }] },
+                config: {
+                    abortSignal: signal,
+                    ...groundingConfig(coordinates, modeSettings),
+                    ...((!usesTools || supportsSchemaWithTools(modelName)) && {
+                        responseMimeType: 'application/json',
+                        responseSchema: buildComparisonResponseSchema(languages),
+                    }),
+                },
+            });
+            const { text, sources } = await readAnswerStream(stream, onProgress);
+
+            onProgress?.({ stage: 'parsing', partialText: text });
+            try {
+                return parseComparisonText(text, sources);
+            } catch (error) {
+                if (!(error instanceof UnparseableResponseError)) throw error;
+                const repaired = await repairAnswer(
+                    ai,
+                    modelName,
+                    error,
+                    reason => buildComparisonRepairPrompt(text, reason, languages),
+                    buildComparisonResponseSchema(languages),
+                    signal
+                );
+                try {
+                    return parseComparisonText(repaired, sources);
+                } catch (repairError) {
+                    console.error("The repaired comparison was still unusable:", repairError);
+                    throw error;
+                }
+            }
+        } catch (error) {
+            console.error("Error comparing media:", error);
+            if (error instanceof LocalizedError || isAbortError(error) || signal?.aborted) {
+                throw error;
+            }
+            throw classifyApiError(error, media[0].mimeType) ?? new LocalizedError('errors.comparisonFailed');
+        } finally {
+            await Promise.all(uploadedNames.map(name => deleteUploadedFile(ai, name)));
+        }
+    };
+
+    const generateAudio = async ({ text, language, signal }: SpeechRequest): Promise<string> => {
+        const ai = getAiClient(apiKey);
+        try {
+            const response = await ai.models.generateContent({
+                model: settings.ttsModel,
+                contents: [{ parts: [{ text: `Say this naturally: ${text}` }] }],
+                config: {
+                    abortSignal: signal,
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig: {
+                        voiceConfig: {
+                            prebuiltVoiceConfig: { voiceName: settings.voices[language] ?? LOCALES[language].voice },
+                        },
+                    },
+                },
+            });
+
+            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            if (!base64Audio) {
+                throw new Error("No audio data received from API.");
+            }
+            return base64Audio;
+        } catch (error) {
+            console.error("Error generating audio:", error);
+            if (isAbortError(error) || signal?.aborted) {
+                throw error;
+            }
+            throw classifyApiError(error) ?? new LocalizedError('errors.audioFailed');
+        }
+    };
+
+    const translate = async ({ text, from, to, signal }: TranslateRequest): Promise<string> => {
+        const ai = getAiClient(apiKey);
+        try {
+            const response = await ai.models.generateContent({
+                model: settings.imageModel,
+                contents: buildTranslationPrompt(text, from, to),
+                config: { abortSignal: signal },
+            });
+            const translated = response.text?.trim();
+            if (!translated) {
+                throw new Error("No translation received from API.");
+            }
+            return translated;
+        } catch (error) {
+            console.error("Error translating description:", error);
+            if (isAbortError(error) || signal?.aborted) {
+                throw error;
+            }
+            throw classifyApiError(error) ?? new LocalizedError('errors.translationFailed', { language: LOCALES[to].nativeName });
+        }
+    };
+
+    const sendMessage = async ({ media, result, history, question, coordinates, signal, onText }: ChatRequest): Promise<ChatReply> => {
+        const ai = getAiClient(apiKey);
+        try {
+            const seed: Part[] = [{ text: buildChatContext(result, coordinates) }];
+            if (media) {
+                seed.unshift(await chatMediaPart(ai, media, signal));
+            }
+            const contents: Content[] = [
+                { role: 'user', parts: seed },
+                { role: 'model', parts: [{ text: 'Understood. What would you like to know?' }] },
+                ...history.map(message => ({ role: message.role, parts: [{ text: message.text }] })),
+            ];
+            const config = groundingConfig(coordinates);
+            const model = media?.mimeType.startsWith('video/') ? settings.videoModel : settings.imageModel;
+            const chat = ai.chats.create({ model, config, history: contents });
+            // Per-message config replaces the session's, so the tools have to be passed again.
+            const stream = await chat.sendMessageStream({ message: question, config: { ...config, abortSignal: signal } });
+
+            const answer = await readAnswerStream(stream, ({ partialText }) => onText?.(partialText ?? ''));
+            const text = answer.text.replace(/\[\d+\]/g, '').trim();
+            if (!text) {
+                throw new Error("No answer received from API.");
+            }
+            return { text, sources: answer.sources };
+        } catch (error) {
+            console.error("Error answering follow-up question:", error);
+            if (error instanceof LocalizedError || isAbortError(error) || signal?.aborted) {
+                throw error;
+            }
+            throw classifyApiError(error, media?.mimeType) ?? new LocalizedError('errors.chatFailed');
+        }
+    };
+
+    return { name: 'gemini', analyzeMedia, compareMedia, generateAudio, translate, sendMessage };
+};
@@ -0,0 +1,34 @@
+import type { HistoryEntry, Language } from '../types';
+import { HISTORY_STORE, openDatabase, promisifyRequest } from './database';
+import { withDescriptions } from './locales';
+
+const getStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+    const db = await openDatabase();
+    return db.transaction(HISTORY_STORE, mode).objectStore(HISTORY_STORE);
+};
+
+type LegacyHistoryEntry = HistoryEntry & { audioData?: string | null, audioLanguage?: Language };
+
+// Entries saved before clips were kept per language carry a single clip, and older ones have no chat.
+const upgradeEntry = ({ audioData, audioLanguage, ...entry }: LegacyHistoryEntry): HistoryEntry => ({
+    ...entry,
+    audioClips: entry.audioClips ?? (audioData && audioLanguage ? { [audioLanguage]: audioData } : {}),
+    chat: entry.chat ?? [],
+});
+
+export const saveHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+    const store = await getStore('readwrite');
+    await promisifyRequest(store.put(entry));
+};
+
+/** Returns all saved analyses, newest first. */
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+    const store = await getStore('readonly');
+    const entries = await promisifyRequest(store.index('createdAt').getAll() as IDBRequest<LegacyHistoryEntry[]>);
+    return entries.reverse().map(entry => ({ ...upgradeEntry(entry), result: withDescriptions(entry.result) }));
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+    const store = await getStore('readwrite');
+    await promisifyRequest(store.delete(id));
+};
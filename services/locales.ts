@@ -0,0 +1,56 @@
+import type { Descriptions, Language } from '../types';
+
+export interface LocaleDefinition {
+    code: Language;
+    // English name, used when instructing the model.
+    name: string;
+    nativeName: string;
+    // Whether Gemini speech generation supports the language.
+    speech: boolean;
+    // Prebuilt Gemini voice used unless the settings override it.
+    voice: string;
+}
+
+/** Languages the app can describe a place in, in the order tabs and pickers list them. */
+export const LOCALES: Record<Language, LocaleDefinition> = {
+    en: { code: 'en', name: 'English', nativeName: 'English', speech: true, voice: 'Kore' },
+    ru: { code: 'ru', name: 'Russian', nativeName: 'Русский', speech: true, voice: 'Kore' },
+    de: { code: 'de', name: 'German', nativeName: 'Deutsch', speech: true, voice: 'Charon' },
+    es: { code: 'es', name: 'Spanish', nativeName: 'Español', speech: true, voice: 'Aoede' },
+    fr: { code: 'fr', name: 'French', nativeName: 'Français', speech: true, voice: 'Leda' },
+    it: { code: 'it', name: 'Italian', nativeName: 'Italiano', speech: true, voice: 'Puck' },
+    pt: { code: 'pt', name: 'Portuguese', nativeName: 'Português', speech: true, voice: 'Aoede' },
+    uk: { code: 'uk', name: 'Ukrainian', nativeName: 'Українська', speech: true, voice: 'Kore' },
+    kk: { code: 'kk', name: 'Kazakh', nativeName: 'Қазақ тілі', speech: false, voice: 'Kore' },
+    tr: { code: 'tr', name: 'Turkish', nativeName: 'Türkçe', speech: true, voice: 'Orus' },
+    ar: { code: 'ar', name: 'Arabic', nativeName: 'العربية', speech: true, voice: 'Charon' },
+    hi: { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', speech: true, voice: 'Zephyr' },
+    ja: { code: 'ja', name: 'Japanese', nativeName: '日本語', speech: true, voice: 'Leda' },
+    ko: { code: 'ko', name: 'Korean', nativeName: '한국어', speech: true, voice: 'Zephyr' },
+    zh: { code: 'zh', name: 'Chinese (Simplified)', nativeName: '简体中文', speech: false, voice: 'Kore' },
+};
+
+export const LANGUAGES = Object.keys(LOCALES) as Language[];
+
+export const DEFAULT_RESULT_LANGUAGES: Language[] = ['en', 'ru'];
+
+export const isLanguage = (value: unknown): value is Language =>
+    typeof value === 'string' && value in LOCALES;
+
+/** Languages present in a result, in registry order. */
+export const describedLanguages = (descriptions: Descriptions): Language[] =>
+    LANGUAGES.filter(code => descriptions[code] !== undefined);
+
+/**
+ * Results saved before the registry existed carry top-level `en`/`ru` fields
+ * instead of `descriptions`; this lifts them into the current shape.
+ */
+export const withDescriptions = <T extends { descriptions?: Descriptions }>(value: T): T & { descriptions: Descriptions } => {
+    if (value.descriptions) return value as T & { descriptions: Descriptions };
+    const legacy = value as T & Partial<Record<Language, string>>;
+    const descriptions: Descriptions = {};
+    for (const code of LANGUAGES) {
+        if (typeof legacy[code] === 'string') descriptions[code] = legacy[code];
+    }
+    return { ...value, descriptions };
+};
@@ -0,0 +1,100 @@
+import type { AlternateLocation, LocationDetails, LocationPlace } from '../types';
+import { UnparseableResponseError } from './errors';
+
+/** Valid JSON whose location does not have the expected shape. */
+export class LocationSchemaError extends UnparseableResponseError {
+    readonly issues: string[];
+
+    constructor(issues: string[], rawText?: string) {
+        super(rawText, 'errors.invalidModelResponse', { issues: issues.join('; ') });
+        this.name = 'LocationSchemaError';
+        this.issues = issues;
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readOptionalString = (obj: Record<string, unknown>, key: string, path: string, issues: string[]): string | null => {
+    const value = obj[key];
+    if (value === undefined || value === null) return null;
+    if (typeof value !== 'string') {
+        issues.push(`${path}.${key} must be a string or null`);
+        return null;
+    }
+    return value.trim() || null;
+};
+
+const readRequiredString = (obj: Record<string, unknown>, key: string, path: string, issues: string[]): string => {
+    const value = obj[key];
+    if (typeof value !== 'string' || !value.trim()) {
+        issues.push(`${path}.${key} must be a non-empty string`);
+        return '';
+    }
+    return value.trim();
+};
+
+const readNumber = (obj: Record<string, unknown>, key: string, path: string, min: number, max: number, issues: string[]): number => {
+    const value = obj[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push(`${path}.${key} must be a number`);
+        return NaN;
+    }
+    if (value < min || value > max) {
+        issues.push(`${path}.${key} must be between ${min} and ${max}`);
+    }
+    return value;
+};
+
+const parsePlace = (value: unknown, path: string, issues: string[]): LocationPlace | null => {
+    if (!isRecord(value)) {
+        issues.push(`${path} must be an object`);
+        return null;
+    }
+
+    const countryCode = readRequiredString(value, 'countryCode', path, issues).toUpperCase();
+    if (countryCode && !/^[A-Z]{2}$/.test(countryCode)) {
+        issues.push(`${path}.countryCode must be an ISO 3166-1 alpha-2 code`);
+    }
+
+    return {
+        landmark: readOptionalString(value, 'landmark', path, issues),
+        city: readOptionalString(value, 'city', path, issues),
+        region: readOptionalString(value, 'region', path, issues),
+        country: readRequiredString(value, 'country', path, issues),
+        countryCode,
+        latitude: readNumber(value, 'latitude', path, -90, 90, issues),
+        longitude: readNumber(value, 'longitude', path, -180, 180, issues),
+        confidence: readNumber(value, 'confidence', path, 0, 1, issues),
+    };
+};
+
+/**
+ * Validates the "location" object of a model response and returns it in the
+ * shape used by the UI. Throws a LocationSchemaError listing every problem found.
+ */
+export const parseLocationDetails = (value: unknown): LocationDetails => {
+    const issues: string[] = [];
+    const place = parsePlace(value, 'location', issues);
+
+    const alternates: AlternateLocation[] = [];
+    if (isRecord(value) && value.alternates !== undefined) {
+        if (!Array.isArray(value.alternates)) {
+            issues.push('location.alternates must be an array');
+        } else {
+            value.alternates.forEach((item, index) => {
+                const path = `location.alternates[${index}]`;
+                const alternate = parsePlace(item, path, issues);
+                if (alternate && isRecord(item)) {
+                    alternates.push({ ...alternate, reasoning: readRequiredString(item, 'reasoning', path, issues) });
+                }
+            });
+        }
+    }
+
+    if (!place || issues.length > 0) {
+        throw new LocationSchemaError(issues);
+    }
+
+    return { ...place, alternates };
+};
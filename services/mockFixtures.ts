@@ -0,0 +1,201 @@
+import type { GroundingChunk } from '../types';
+
+export interface MockFixture {
+    id: string;
+    label: string;
+    // Raw model text, exactly as a live response would return it.
+    text?: string;
+    // Answer to the "fix your JSON" re-ask, for fixtures whose first answer cannot be used.
+    repairedText?: string;
+    sources?: GroundingChunk[];
+    error?: 'rateLimit' | 'invalidKey' | 'safety' | 'tooLarge' | 'offline' | 'failure';
+}
+
+export const MOCK_FIXTURES: MockFixture[] = [
+    {
+        id: 'eiffel-tower',
+        label: 'Eiffel Tower, Paris',
+        text: JSON.stringify({
+            en: "This is the Eiffel Tower on the Champ de Mars in Paris, France. Completed in 1889 for the World's Fair, the wrought-iron lattice tower is the most visited paid monument in the world. Visitors praise the views from the summit, especially at sunset, but warn about long queues and recommend booking tickets online in advance.",
+            ru: "Это Эйфелева башня на Марсовом поле в Париже, Франция. Металлическая башня была построена в 1889 году к Всемирной выставке и сегодня является самым посещаемым платным памятником в мире. Посетители хвалят виды с вершины, особенно на закате, но предупреждают о длинных очередях и советуют заранее покупать билеты онлайн.",
+            location: {
+                landmark: 'Eiffel Tower',
+                city: 'Paris',
+                region: 'Île-de-France',
+                country: 'France',
+                countryCode: 'FR',
+                latitude: 48.85837,
+                longitude: 2.294481,
+                confidence: 0.97,
+                alternates: [
+                    {
+                        landmark: 'Tokyo Tower',
+                        city: 'Tokyo',
+                        region: 'Tokyo',
+                        country: 'Japan',
+                        countryCode: 'JP',
+                        latitude: 35.658581,
+                        longitude: 139.745433,
+                        confidence: 0.02,
+                        reasoning: 'Similar lattice design, but Tokyo Tower is painted orange and white.',
+                    },
+                ],
+            },
+            clues: [
+                { category: 'landmark', description: 'Wrought-iron lattice tower with four arched legs, the shape of the Eiffel Tower.', weight: 0.9, boxes: [[40, 310, 960, 690]] },
+                { category: 'architecture', description: 'Haussmann-style apartment blocks with mansard roofs along the Seine.', weight: 0.35, boxes: [[700, 0, 1000, 280]] },
+                { category: 'vegetation', description: 'Clipped plane trees typical of Parisian avenues.', weight: 0.1, boxes: [] },
+            ],
+        }),
+        sources: [
+            { web: { uri: 'https://en.wikipedia.org/wiki/Eiffel_Tower', title: 'Eiffel Tower - Wikipedia' } },
+            { maps: { uri: 'https://maps.google.com/?cid=0', title: 'Eiffel Tower' } },
+        ],
+    },
+    {
+        id: 'shibuya-crossing',
+        label: 'Shibuya Crossing, Tokyo (fenced JSON)',
+        text: '```json\n' + JSON.stringify({
+            en: "This appears to be Shibuya Crossing in Tokyo, Japan, one of the busiest pedestrian intersections in the world [1]. Reviewers recommend watching the scramble from the second floor of the station building or from the Shibuya Sky observation deck.",
+            ru: "Похоже, это перекрёсток Сибуя в Токио, Япония, — один из самых оживлённых пешеходных перекрёстков в мире [1]. Посетители советуют наблюдать за толпой со второго этажа здания вокзала или со смотровой площадки Shibuya Sky.",
+            location: {
+                landmark: 'Shibuya Crossing',
+                city: 'Tokyo',
+                region: 'Tokyo',
+                country: 'Japan',
+                countryCode: 'jp',
+                latitude: 35.659487,
+                longitude: 139.700531,
+                confidence: 0.74,
+                alternates: [
+                    {
+                        landmark: 'Shinjuku Station East Exit',
+                        city: 'Tokyo',
+                        region: 'Tokyo',
+                        country: 'Japan',
+                        countryCode: 'JP',
+                        latitude: 35.690921,
+                        longitude: 139.700258,
+                        confidence: 0.15,
+                        reasoning: 'Dense signage and large screens are also typical of Shinjuku.',
+                    },
+                    {
+                        landmark: null,
+                        city: 'Osaka',
+                        region: 'Osaka',
+                        country: 'Japan',
+                        countryCode: 'JP',
+                        latitude: 34.668723,
+                        longitude: 135.501297,
+                        confidence: 0.06,
+                        reasoning: 'Dotonbori has comparable neon advertising.',
+                    },
+                ],
+            },
+            clues: [
+                { category: 'script', description: 'Japanese kana and kanji on billboards and shop signs [1].', weight: 0.6, boxes: [[80, 40, 300, 420], [60, 620, 260, 960]] },
+                { category: 'infrastructure', description: 'Scramble crossing with diagonal zebra stripes in every direction.', weight: 0.5, boxes: [[620, 0, 1000, 1000]] },
+                { category: 'drivingSide', description: 'Cars queue on the left side of the road.', weight: 0.2, boxes: [[520, 0, 700, 260]] },
+            ],
+        }) + '\n```',
+        sources: [
+            { web: { uri: 'https://en.wikipedia.org/wiki/Shibuya_Crossing', title: 'Shibuya Crossing - Wikipedia' } },
+        ],
+    },
+    {
+        id: 'schema-mismatch',
+        label: 'Error: location missing coordinates',
+        text: JSON.stringify({
+            en: 'A beach with palm trees.',
+            ru: 'Пляж с пальмами.',
+            location: { landmark: null, city: null, region: null, country: 'Unknown', countryCode: '??', confidence: 0.1 },
+        }),
+    },
+    {
+        id: 'prose-wrapped',
+        label: 'Recoverable: prose, comments and trailing commas',
+        text: `Looking at the architecture and the harbour, I am fairly sure of this one.
+{
+  // Opera House sails are unmistakable
+  "en": "This is the Sydney Opera House on Bennelong Point in Sydney, Australia. [1]",
+  "ru": "Это Сиднейский оперный театр на мысе Беннелонг в Сиднее, Австралия.",
+  "location": {
+    "landmark": "Sydney Opera House", "city": "Sydney", "region": "New South Wales",
+    "country": "Australia", "countryCode": "AU",
+    "latitude": -33.856784, "longitude": 151.215297, "confidence": 0.95,
+    "alternates": [],
+  },
+}
+Let me know if you need anything else!`,
+    },
+    {
+        id: 'truncated',
+        label: 'Recoverable: answer cut off mid-object',
+        text: `{"en": "A canal lined with narrow brick houses in Amsterdam, the Netherlands.", "ru": "Канал с узкими кирпичными домами в Амстердаме, Нидерланды.", "location": {"landmark": null, "city": "Amsterdam", "region": "North Holland", "country": "Netherlands", "countryCode": "NL", "latitude": 52.37403, "longitude": 4.88969, "confidence": 0.8, "alternates": [{"landmark": null, "city": "Bruges", "region": "West Flanders", "country": "Belgium", "countryCode": "BE", "latitude": 51.20892, "longitude": 3.22424, "confidence": 0.1, "reasoning": "Similar canal houses, but the bridges look Dutch`,
+    },
+    {
+        id: 'python-literals',
+        label: 'Recoverable: Python literals and citation markers',
+        text: `{"en": "A red and white lighthouse on granite boulders at Peggy's Cove, Nova Scotia, Canada." [1], "ru": "Красно-белый маяк на гранитных валунах в Пеггис-Коув, Новая Шотландия, Канада." [1], "location": {"landmark": "Peggys Point Lighthouse", "city": None, "region": "Nova Scotia" [2], "country": "Canada", "countryCode": "CA", "latitude": 44.49168, "longitude": -63.91847, "confidence": 0.88, "alternates": []}, "verified": True}`,
+    },
+    {
+        id: 'repaired-on-reask',
+        label: 'Recoverable: unusable first answer, fixed on re-ask',
+        text: 'The photo shows the Colosseum in Rome. I am very confident about this.',
+        repairedText: JSON.stringify({
+            en: 'This is the Colosseum in Rome, Italy, the largest amphitheatre ever built.',
+            ru: 'Это Колизей в Риме, Италия, крупнейший из когда-либо построенных амфитеатров.',
+            location: {
+                landmark: 'Colosseum', city: 'Rome', region: 'Lazio', country: 'Italy', countryCode: 'IT',
+                latitude: 41.890251, longitude: 12.492373, confidence: 0.96, alternates: [],
+            },
+        }),
+    },
+    {
+        id: 'malformed',
+        label: 'Error: unparseable output',
+        text: 'I believe this is somewhere in southern Europe, but I cannot be certain. {"en": "Southern Europe",',
+    },
+    {
+        id: 'no-location',
+        label: 'Error: no location found',
+        text: JSON.stringify({
+            en: 'A plain white wall with no visible features.',
+            ru: 'Ровная белая стена без каких-либо примет.',
+            location: null,
+        }),
+    },
+    {
+        id: 'rate-limit',
+        label: 'Error: rate limited (429)',
+        error: 'rateLimit',
+    },
+    {
+        id: 'invalid-key',
+        label: 'Error: API key rejected',
+        error: 'invalidKey',
+    },
+    {
+        id: 'safety',
+        label: 'Error: blocked by safety filters',
+        error: 'safety',
+    },
+    {
+        id: 'too-large',
+        label: 'Error: payload too large',
+        error: 'tooLarge',
+    },
+    {
+        id: 'offline',
+        label: 'Error: network offline',
+        error: 'offline',
+    },
+    {
+        id: 'failure',
+        label: 'Error: request failed',
+        error: 'failure',
+    },
+];
+
+// Fixtures picked from when the scenario is 'auto'; failure cases must be requested explicitly.
+export const AUTO_FIXTURE_IDS = ['eiffel-tower', 'shibuya-crossing'];
@@ -0,0 +1,212 @@
+import type { AnalysisProgress, ComparisonResult, Language, LocationPlace, PreparedMedia } from '../types';
+import type { AnalyzeMediaRequest, ChatProvider, ChatReply, ChatRequest, CompareMediaRequest, ComparisonProvider, LocationProvider, SpeechProvider, SpeechRequest, TranslateRequest, TranslationProvider } from './providers';
+import { AUTO_FIXTURE_IDS, MOCK_FIXTURES, MockFixture } from './mockFixtures';
+import {
+    InvalidApiKeyError,
+    LocalizedError,
+    NetworkError,
+    PayloadTooLargeError,
+    RateLimitError,
+    SafetyBlockError,
+    UnparseableResponseError,
+    isAbortError,
+} from './errors';
+import { parseAnalysisText } from './analysisPrompt';
+import { parseComparisonText } from './comparisonPrompt';
+import { DEFAULT_RESULT_LANGUAGES } from './locales';
+import { sleep } from '../utils/retry';
+import { distanceKm } from '../utils/geo';
+
+interface MockProviderOptions {
+    scenario: string;
+    latencyMs: number;
+}
+
+const SAMPLE_RATE = 24000;
+const STREAM_CHUNKS = 12;
+// Two recorded places closer than this are reported as "nearby" when compared.
+const NEARBY_KM = 25;
+
+// FNV-1a over the start of the payload: cheap, and stable for the same file.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    const sample = value.slice(0, 4096) + value.length;
+    for (let i = 0; i < sample.length; i++) {
+        hash ^= sample.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const pickFixture = (scenario: string, seed: string): MockFixture => {
+    if (scenario !== 'auto') {
+        const fixture = MOCK_FIXTURES.find(f => f.id === scenario);
+        if (!fixture) {
+            throw new Error(`Unknown mock scenario "${scenario}".`);
+        }
+        return fixture;
+    }
+    const id = AUTO_FIXTURE_IDS[hashString(seed) % AUTO_FIXTURE_IDS.length];
+    return MOCK_FIXTURES.find(f => f.id === id)!;
+};
+
+// Hashing a large blob's contents is wasted work for a mock; size and type pick a fixture just as stably.
+const fixtureSeed = (media: PreparedMedia): string =>
+    media.kind === 'inline' ? media.base64Data : `${media.blob.size}:${media.mimeType}`;
+
+const throwFixtureError = (fixture: MockFixture): void => {
+    switch (fixture.error) {
+        case 'rateLimit': throw new RateLimitError();
+        case 'invalidKey': throw new InvalidApiKeyError();
+        case 'safety': throw new SafetyBlockError('SAFETY');
+        case 'tooLarge': throw new PayloadTooLargeError();
+        case 'offline': throw new NetworkError();
+    }
+};
+
+const placeName = (place: LocationPlace): string => [place.landmark, place.city, place.country].filter(Boolean).join(', ');
+
+// Recorded fixtures only cover English and Russian, so other languages are tagged copies of the English text.
+const pseudoTranslate = (text: string, to: Language): string => `[${to.toUpperCase()}] ${text}`;
+
+// A soft two-tone chime whose length follows the text, encoded like the TTS API output.
+const synthesizeSpeech = (text: string): string => {
+    const seconds = Math.min(4, Math.max(1, text.length / 200));
+    const frames = Math.round(seconds * SAMPLE_RATE);
+    const samples = new Int16Array(frames);
+    for (let i = 0; i < frames; i++) {
+        const t = i / SAMPLE_RATE;
+        const envelope = Math.min(1, t * 10, (seconds - t) * 10);
+        samples[i] = Math.round(envelope * 0.2 * 32767 * Math.sin(2 * Math.PI * (t < seconds / 2 ? 523.25 : 659.25) * t));
+    }
+    const bytes = new Uint8Array(samples.buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+};
+
+/**
+ * Deterministic offline provider that replays recorded model responses through
+ * the same parsing code as the live adapter. Needs no network and no API key.
+ */
+export const createMockProvider = ({ scenario, latencyMs }: MockProviderOptions): LocationProvider & SpeechProvider & TranslationProvider & ChatProvider & ComparisonProvider => {
+    // Replay an answer in slices so the progress UI behaves as it does live.
+    const streamText = async (text: string, grounded: boolean, signal?: AbortSignal, onProgress?: (progress: AnalysisProgress) => void) => {
+        const chunkSize = Math.ceil(text.length / STREAM_CHUNKS);
+        for (let end = chunkSize; end < text.length + chunkSize; end += chunkSize) {
+            await sleep((latencyMs * 3 / 4) / STREAM_CHUNKS, signal);
+            onProgress?.({ stage: 'reasoning', partialText: text.slice(0, end) });
+        }
+        if (grounded) {
+            onProgress?.({ stage: 'grounding', partialText: text });
+        }
+        onProgress?.({ stage: 'parsing', partialText: text });
+    };
+
+    const analyzeMedia = async ({ media, metadata, languages, regions, signal, onProgress }: AnalyzeMediaRequest) => {
+        onProgress?.({ stage: 'uploading' });
+        await sleep(latencyMs / 4, signal);
+        const fixture = pickFixture(scenario, fixtureSeed(media));
+
+        throwFixtureError(fixture);
+        try {
+            if (fixture.error === 'failure' || fixture.text === undefined) {
+                throw new Error(`Mock fixture "${fixture.id}" simulates a failed request.`);
+            }
+
+            await streamText(fixture.text, !!fixture.sources?.length, signal, onProgress);
+            let result;
+            try {
+                result = parseAnalysisText(fixture.text, fixture.sources ?? [], metadata, regions);
+            } catch (error) {
+                // Stands in for the live adapter's single re-ask for valid JSON.
+                if (!(error instanceof UnparseableResponseError) || fixture.repairedText === undefined) throw error;
+                await sleep(latencyMs / 4, signal);
+                result = parseAnalysisText(fixture.repairedText, fixture.sources ?? [], metadata, regions);
+            }
+            for (const code of languages ?? []) {
+                result.descriptions[code] ??= pseudoTranslate(result.descriptions.en ?? '', code);
+            }
+            return result;
+        } catch (error) {
+            console.error("Error analyzing media:", error);
+            if (error instanceof LocalizedError || isAbortError(error)) {
+                throw error;
+            }
+            throw new LocalizedError('errors.analysisFailed');
+        }
+    };
+
+    // Judges the pair from the two recorded places: the same fixture is the same place, close ones are nearby.
+    const compareMedia = async ({ media, languages = DEFAULT_RESULT_LANGUAGES, signal, onProgress }: CompareMediaRequest): Promise<ComparisonResult> => {
+        onProgress?.({ stage: 'uploading' });
+        await sleep(latencyMs / 4, signal);
+        const fixtures = media.map(item => pickFixture(scenario, fixtureSeed(item)));
+
+        fixtures.forEach(throwFixtureError);
+        try {
+            const [a, b] = fixtures.map(fixture => {
+                const text = fixture.repairedText ?? fixture.text;
+                if (fixture.error === 'failure' || text === undefined) {
+                    throw new Error(`Mock fixture "${fixture.id}" simulates a failed request.`);
+                }
+                return parseAnalysisText(text, fixture.sources ?? []).location;
+            });
+            const km = distanceKm(a.latitude, a.longitude, b.latitude, b.longitude);
+            const verdict = fixtures[0].id === fixtures[1].id ? 'same' : km < NEARBY_KM ? 'nearby' : 'different';
+            const explanation = verdict === 'same'
+                ? `Both show ${placeName(a)}.`
+                : `A shows ${placeName(a)} and B shows ${placeName(b)}, about ${Math.round(km)} km apart.`;
+            const text = JSON.stringify({
+                ...Object.fromEntries(languages.map(code => [code, code === 'en' ? explanation : pseudoTranslate(explanation, code)])),
+                verdict,
+                confidence: Math.min(a.confidence, b.confidence),
+                matches: verdict === 'same' ? [placeName(a)] : [],
+                differences: verdict === 'same' ? [] : [`${placeName(a)} / ${placeName(b)}`],
+                locations: [a, b],
+            });
+            const sources = fixtures.flatMap(fixture => fixture.sources ?? []);
+
+            await streamText(text, sources.length > 0, signal, onProgress);
+            return parseComparisonText(text, sources);
+        } catch (error) {
+            console.error("Error comparing media:", error);
+            if (error instanceof LocalizedError || isAbortError(error)) {
+                throw error;
+            }
+            throw new LocalizedError('errors.comparisonFailed');
+        }
+    };
+
+    const generateAudio = async ({ text, signal }: SpeechRequest) => {
+        await sleep(latencyMs / 2, signal);
+        return synthesizeSpeech(text);
+    };
+
+    const translate = async ({ text, to, signal }: TranslateRequest) => {
+        await sleep(latencyMs / 2, signal);
+        return pseudoTranslate(text, to);
+    };
+
+    // A canned answer that names the place and cites the analysis sources, streamed like a live reply.
+    const sendMessage = async ({ result, history, question, coordinates, signal, onText }: ChatRequest): Promise<ChatReply> => {
+        const { landmark, city, country } = result.location;
+        const place = [landmark, city, country].filter(Boolean).join(', ');
+        const text = [
+            `This is a recorded answer about ${place} (question ${history.filter(m => m.role === 'user').length + 1}: "${question.trim()}").`,
+            coordinates
+                ? `From your position at ${coordinates.latitude.toFixed(3)}, ${coordinates.longitude.toFixed(3)}, the live provider would plan a route with Google Maps.`
+                : 'Share your location to get directions from where you are.',
+        ].join(' ');
+        const words = text.split(' ');
+        for (let end = 1; end <= words.length; end++) {
+            await sleep(latencyMs / words.length, signal);
+            onText?.(words.slice(0, end).join(' '));
+        }
+        return { text, sources: result.sources.slice(0, 2) };
+    };
+
+    return { name: 'mock', analyzeMedia, compareMedia, generateAudio, translate, sendMessage };
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { extractJsonObject, parseModelJson, repairJson } from './modelJson';
+import { UnparseableResponseError } from './errors';
+import { MOCK_FIXTURES } from './mockFixtures';
+
+const fixtureText = (id: string): string => {
+    const text = MOCK_FIXTURES.find(fixture => fixture.id === id)?.text;
+    if (text === undefined) throw new Error(`No text fixture "${id}"`);
+    return text;
+};
+
+describe('extractJsonObject', () => {
+    it('stops at the brace that closes the object', () => {
+        expect(extractJsonObject('say {"a": {"b": 1}} and more }', 4)).toBe('{"a": {"b": 1}}');
+    });
+
+    it('ignores braces inside strings', () => {
+        expect(extractJsonObject('{"a": "} {", "b": "\\"}"}', 0)).toBe('{"a": "} {", "b": "\\"}"}');
+    });
+
+    it('returns the rest of a truncated answer', () => {
+        expect(extractJsonObject('{"a": [1, 2', 0)).toBe('{"a": [1, 2');
+    });
+});
+
+describe('repairJson', () => {
+    const repaired = (candidate: string) => JSON.parse(repairJson(candidate));
+
+    it('drops line and block comments', () => {
+        expect(repaired('{\n  // note\n  "a": 1, /* more */ "b": 2\n}')).toEqual({ a: 1, b: 2 });
+    });
+
+    it('keeps comment markers inside strings', () => {
+        expect(repaired('{"url": "https://example.com/*x*/"}')).toEqual({ url: 'https://example.com/*x*/' });
+    });
+
+    it('drops trailing commas in objects and arrays', () => {
+        expect(repaired('{"a": [1, 2,], "b": {"c": 3,},}')).toEqual({ a: [1, 2], b: { c: 3 } });
+    });
+
+    it('escapes raw line breaks and tabs inside strings', () => {
+        expect(repaired('{"a": "line one\nline\ttwo"}')).toEqual({ a: 'line one\nline\ttwo' });
+    });
+
+    it('turns Python literals into JSON ones', () => {
+        expect(repaired('{"a": True, "b": False, "c": None, "d": "True"}')).toEqual({ a: true, b: false, c: null, d: 'True' });
+    });
+
+    it('drops citation markers after string values', () => {
+        expect(repaired('{"a": "Paris" [1], "b": "Lyon" [2, 3], "c": [4]}')).toEqual({ a: 'Paris', b: 'Lyon', c: [4] });
+    });
+
+    it('ignores prose after the closing brace', () => {
+        expect(repaired('{"a": 1} Hope this helps! {"b": 2}')).toEqual({ a: 1 });
+    });
+
+    it.each([
+        ['inside a string', '{"a": 1, "b": "unfinish', { a: 1, b: 'unfinish' }],
+        ['after a key', '{"a": 1, "b": ', { a: 1, b: null }],
+        ['inside a key', '{"a": 1, "bb', { a: 1 }],
+        ['in a nested array', '{"a": [{"b": 1}, {"c": 2', { a: [{ b: 1 }, { c: 2 }] }],
+        ['after a decimal point', '{"a": 4.', { a: 4 }],
+        ['after a comma', '{"a": 1,', { a: 1 }],
+    ])('closes an answer cut off %s', (_, candidate, expected) => {
+        expect(repaired(candidate)).toEqual(expected);
+    });
+});
+
+describe('parseModelJson', () => {
+    it('reads plain JSON as it is', () => {
+        const parsed = parseModelJson(fixtureText('eiffel-tower'));
+        expect(parsed).toMatchObject({ location: { landmark: 'Eiffel Tower', countryCode: 'FR' } });
+    });
+
+    it('reads JSON inside a markdown fence', () => {
+        expect(parseModelJson(fixtureText('shibuya-crossing'))).toMatchObject({ location: { city: 'Tokyo' } });
+    });
+
+    it('reads JSON wrapped in prose, with comments and trailing commas', () => {
+        expect(parseModelJson(fixtureText('prose-wrapped'))).toMatchObject({
+            location: { landmark: 'Sydney Opera House', alternates: [] },
+        });
+    });
+
+    it('reads a truncated answer up to its last complete member', () => {
+        const parsed = parseModelJson(fixtureText('truncated'));
+        expect(parsed).toMatchObject({ location: { city: 'Amsterdam', alternates: [{ city: 'Bruges' }] } });
+        // The reasoning was cut off mid-sentence and is closed where it stopped.
+        expect((parsed.location as { alternates: { reasoning: string }[] }).alternates[0].reasoning).toBe('Similar canal houses, but the bridges look Dutch');
+    });
+
+    it('reads Python literals and citation markers', () => {
+        expect(parseModelJson(fixtureText('python-literals'))).toMatchObject({
+            en: expect.not.stringContaining('[1]'),
+            verified: true,
+            location: { city: null, region: 'Nova Scotia' },
+        });
+    });
+
+    it('skips a brace in the prose before the object', () => {
+        expect(parseModelJson('Coordinates {unknown} at first, then: {"a": 1}')).toEqual({ a: 1 });
+    });
+
+    it('rejects an answer with no object, keeping the raw text', () => {
+        const text = fixtureText('repaired-on-reask');
+        expect(() => parseModelJson(text)).toThrow(expect.objectContaining({ name: 'UnparseableResponseError', rawText: text }));
+    });
+
+    it('rejects JSON that holds no object', () => {
+        expect(() => parseModelJson('["Paris", "Lyon"]')).toThrow(UnparseableResponseError);
+    });
+});
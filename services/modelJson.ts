@@ -0,0 +1,138 @@
+import { UnparseableResponseError } from './errors';
+
+// How many separate {...} candidates to try before giving up on a response.
+const MAX_CANDIDATES = 5;
+
+const CITATION = /^\[\d+(?:\s*,\s*\d+)*\]/;
+const PYTHON_LITERALS: Record<string, string> = { True: 'true', False: 'false', None: 'null' };
+
+/**
+ * Returns the balanced {...} that opens at `start`, skipping braces inside
+ * strings. A truncated answer yields everything from `start` to the end.
+ */
+export const extractJsonObject = (text: string, start: number): string => {
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            depth++;
+        } else if (char === '}' || char === ']') {
+            depth--;
+            if (depth === 0) return text.slice(start, i + 1);
+        }
+    }
+    return text.slice(start);
+};
+
+/**
+ * Fixes the defects models most often leave in JSON: comments, trailing
+ * commas, raw line breaks inside strings, Python literals, citation markers
+ * after values, and an answer cut off before its closing brackets.
+ */
+export const repairJson = (candidate: string): string => {
+    let out = '';
+    const closers: string[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (let i = 0; i < candidate.length; i++) {
+        const char = candidate[i];
+        if (inString) {
+            if (escaped) {
+                escaped = false;
+                out += char;
+            } else if (char === '\\') {
+                escaped = true;
+                out += char;
+            } else if (char === '"') {
+                inString = false;
+                out += char;
+            } else if (char === '\n') {
+                out += '\\n';
+            } else if (char === '\t') {
+                out += '\\t';
+            } else if (char !== '\r') {
+                out += char;
+            }
+            continue;
+        }
+
+        const rest = candidate.slice(i);
+        if (char === '"') {
+            inString = true;
+            out += char;
+        } else if (rest.startsWith('//')) {
+            const end = candidate.indexOf('\n', i);
+            i = end === -1 ? candidate.length : end - 1;
+        } else if (rest.startsWith('/*')) {
+            const end = candidate.indexOf('*/', i + 2);
+            i = end === -1 ? candidate.length : end + 1;
+        } else if (char === '[' && /"\s*$/.test(out) && CITATION.test(rest)) {
+            i += CITATION.exec(rest)![0].length - 1;
+        } else if (char === '{' || char === '[') {
+            closers.push(char === '{' ? '}' : ']');
+            out += char;
+        } else if (char === '}' || char === ']') {
+            out = out.replace(/,\s*$/, '');
+            closers.pop();
+            out += char;
+            // Whatever follows the object is prose, not data.
+            if (closers.length === 0) break;
+        } else {
+            const literal = /^(True|False|None)\b/.exec(rest);
+            if (literal) {
+                out += PYTHON_LITERALS[literal[1]];
+                i += literal[1].length - 1;
+            } else {
+                out += char;
+            }
+        }
+    }
+
+    if (closers.length === 0) return out;
+
+    // The answer was cut off: finish the open string, drop the half-written member, close the brackets.
+    if (escaped) out = out.slice(0, -1);
+    if (inString) out += '"';
+    out = out.trimEnd();
+    if (closers[closers.length - 1] === '}') {
+        out = out.replace(/([{,])\s*"(?:[^"\\]|\\.)*"$/, '$1');
+    }
+    out = out
+        .replace(/:\s*$/, ': null')
+        .replace(/(\d)\.$/, '$1')
+        .replace(/,\s*$/, '');
+    return out + closers.reverse().join('');
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads the first JSON object out of free-form model text, repairing it if
+ * needed. Throws UnparseableResponseError with the original text on failure.
+ */
+export const parseModelJson = (text: string): Record<string, unknown> => {
+    let start = text.indexOf('{');
+    for (let tries = 0; start !== -1 && tries < MAX_CANDIDATES; tries++) {
+        const candidate = extractJsonObject(text, start);
+        for (const attempt of [candidate, repairJson(candidate)]) {
+            try {
+                const value = JSON.parse(attempt);
+                if (isRecord(value)) return value;
+            } catch {
+                // Try the repaired form, then the next candidate.
+            }
+        }
+        start = text.indexOf('{', start + candidate.length);
+    }
+    throw new UnparseableResponseError(text);
+};
@@ -0,0 +1,64 @@
+import type { AnalysisModeId, ProviderSettings } from '../types';
+import type { ChatProvider, ComparisonProvider, LocationProvider, SpeechProvider, TranslationProvider } from './providers';
+import { DEFAULT_GEMINI_SETTINGS, createGeminiProvider } from './geminiService';
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+import { modeModelSettings } from './analysisModes';
+
+const PROVIDER_SETTINGS_STORAGE_KEY = 'provider-settings';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    provider: 'gemini',
+    gemini: DEFAULT_GEMINI_SETTINGS,
+    mockScenario: 'auto',
+    mockLatencyMs: 800,
+    proxyBaseUrl: '/api',
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+    try {
+        const saved = localStorage.getItem(PROVIDER_SETTINGS_STORAGE_KEY);
+        if (!saved) return DEFAULT_PROVIDER_SETTINGS;
+        const parsed = JSON.parse(saved) as Partial<ProviderSettings>;
+        return {
+            ...DEFAULT_PROVIDER_SETTINGS,
+            ...parsed,
+            gemini: { ...DEFAULT_GEMINI_SETTINGS, ...parsed.gemini },
+        };
+    } catch {
+        return DEFAULT_PROVIDER_SETTINGS;
+    }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+    localStorage.setItem(PROVIDER_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const providerNeedsApiKey = (settings: ProviderSettings): boolean => settings.provider === 'gemini';
+
+/** Which backend and model would answer an analysis; cached answers from any other one are not reused. */
+export const analysisModelId = (settings: ProviderSettings, isVideo: boolean, mode?: AnalysisModeId): string => {
+    switch (settings.provider) {
+        case 'gemini': {
+            const { model, search, maps } = modeModelSettings(settings.gemini, mode);
+            const tools = [search && 'search', maps && 'maps'].filter(Boolean).join('+') || 'no-tools';
+            return `gemini:${model || (isVideo ? settings.gemini.videoModel : settings.gemini.imageModel)}:${tools}`;
+        }
+        case 'proxy':
+            return `proxy:${settings.proxyBaseUrl}`;
+        case 'mock':
+            return `mock:${settings.mockScenario}`;
+    }
+};
+
+export const createProviders = (
+    settings: ProviderSettings,
+    apiKey: string | null
+): { location: LocationProvider, speech: SpeechProvider, translation: TranslationProvider, chat: ChatProvider, comparison: ComparisonProvider } => {
+    const provider = settings.provider === 'mock'
+        ? createMockProvider({ scenario: settings.mockScenario, latencyMs: settings.mockLatencyMs })
+        : settings.provider === 'proxy'
+            ? createProxyProvider(settings.proxyBaseUrl)
+            : createGeminiProvider(apiKey ?? '', settings.gemini);
+    return { location: provider, speech: provider, translation: provider, chat: provider, comparison: provider };
+};
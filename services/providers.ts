@@ -0,0 +1,92 @@
+import type { AnalysisModeId, AnalysisOptions, AnalysisProgress, AnalysisResult, ChatMessage, ComparisonResult, GeolocationCoordinates, GroundingChunk, Language, MediaMetadata, PreparedMedia, RegionOfInterest } from '../types';
+
+export interface MarkedRegion extends RegionOfInterest {
+    // Base64 JPEG close-up of the region, or null when it could not be cut out.
+    crop: string | null;
+}
+
+export interface AnalyzeMediaRequest {
+    media: PreparedMedia;
+    coordinates: GeolocationCoordinates | null;
+    metadata?: MediaMetadata | null;
+    // Languages to describe the place in; defaults to English and Russian.
+    languages?: Language[];
+    // Parts of an image the user wants the model to focus on.
+    regions?: MarkedRegion[];
+    // Mode, detail level and user hint; the standard mode when left out.
+    options?: AnalysisOptions;
+    signal?: AbortSignal;
+    onProgress?: (progress: AnalysisProgress) => void;
+}
+
+/** Identifies where a photo or video was taken. */
+export interface LocationProvider {
+    readonly name: string;
+    analyzeMedia(request: AnalyzeMediaRequest): Promise<AnalysisResult>;
+}
+
+export interface SpeechRequest {
+    text: string;
+    language: Language;
+    signal?: AbortSignal;
+}
+
+/** Turns text into base64-encoded 16-bit mono PCM at 24kHz. */
+export interface SpeechProvider {
+    readonly name: string;
+    generateAudio(request: SpeechRequest): Promise<string>;
+}
+
+export interface TranslateRequest {
+    text: string;
+    from: Language;
+    to: Language;
+    signal?: AbortSignal;
+}
+
+/** Adds a language to an existing result without re-analysing the media. */
+export interface TranslationProvider {
+    readonly name: string;
+    translate(request: TranslateRequest): Promise<string>;
+}
+
+export interface ChatRequest {
+    // The analyzed media, or null when it is no longer available.
+    media: PreparedMedia | null;
+    result: AnalysisResult;
+    // Earlier turns of the conversation, oldest first.
+    history: ChatMessage[];
+    question: string;
+    coordinates: GeolocationCoordinates | null;
+    signal?: AbortSignal;
+    // Called with the answer so far while it streams in.
+    onText?: (partialText: string) => void;
+}
+
+export interface ChatReply {
+    text: string;
+    sources: GroundingChunk[];
+}
+
+/** Answers follow-up questions about an analyzed place, seeded with the media and the result. */
+export interface ChatProvider {
+    readonly name: string;
+    sendMessage(request: ChatRequest): Promise<ChatReply>;
+}
+
+export interface CompareMediaRequest {
+    // The two files to compare, in the order they are labelled A and B.
+    media: [PreparedMedia, PreparedMedia];
+    coordinates: GeolocationCoordinates | null;
+    languages?: Language[];
+    // The analysis mode whose model and tools the comparison runs with.
+    mode?: AnalysisModeId;
+    signal?: AbortSignal;
+    onProgress?: (progress: AnalysisProgress) => void;
+}
+
+/** Judges whether two photos or videos were taken at the same place. */
+export interface ComparisonProvider {
+    readonly name: string;
+    compareMedia(request: CompareMediaRequest): Promise<ComparisonResult>;
+}
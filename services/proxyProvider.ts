@@ -0,0 +1,174 @@
+import type { AnalysisResult, ComparisonResult, ProxyErrorBody } from '../types';
+import type { AnalyzeMediaRequest, ChatProvider, ChatReply, ChatRequest, CompareMediaRequest, ComparisonProvider, LocationProvider, SpeechProvider, SpeechRequest, TranslateRequest, TranslationProvider } from './providers';
+import { LocationSchemaError } from './locationSchema';
+import {
+    NetworkError,
+    NoLocationError,
+    PayloadTooLargeError,
+    RateLimitError,
+    SafetyBlockError,
+    UnparseableResponseError,
+    UnsupportedMediaError,
+    isAbortError,
+    isNetworkFailure,
+} from './errors';
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+};
+
+// Maps the proxy's JSON error body back onto the errors the UI already understands.
+const toError = async (response: Response, mimeType = ''): Promise<Error> => {
+    let body: ProxyErrorBody | null = null;
+    try {
+        body = await response.json();
+    } catch {
+        // Not a JSON error body, e.g. a platform-level 413 or 504 page.
+    }
+    const code = body?.error?.code;
+    const message = body?.error?.message ?? `The server responded with status ${response.status}.`;
+    if (code === 'rate_limited' || response.status === 429) {
+        const retryAfter = Number(response.headers.get('retry-after'));
+        return new RateLimitError(retryAfter > 0 ? retryAfter * 1000 : undefined);
+    }
+    if (code === 'payload_too_large' || response.status === 413) {
+        return new PayloadTooLargeError();
+    }
+    if (code === 'invalid_model_response') {
+        return body?.error.details
+            ? new LocationSchemaError(body.error.details, body.error.rawText)
+            : new UnparseableResponseError(body?.error.rawText);
+    }
+    switch (code) {
+        case 'unsupported_media_type': return new UnsupportedMediaError(mimeType);
+        case 'no_location': return new NoLocationError();
+        case 'safety_blocked': return new SafetyBlockError(message);
+    }
+    return new Error(message);
+};
+
+// fetch itself rejects when the proxy is unreachable; that is worth a retry, unlike an error response.
+const send = async (input: string, init: RequestInit): Promise<Response> => {
+    try {
+        return await fetch(input, init);
+    } catch (error) {
+        if (!isAbortError(error) && isNetworkFailure(error)) {
+            throw new NetworkError();
+        }
+        throw error;
+    }
+};
+
+/** Calls the server-side /api routes, so the Gemini key never reaches the browser. */
+export const createProxyProvider = (baseUrl: string): LocationProvider & SpeechProvider & TranslationProvider & ChatProvider & ComparisonProvider => {
+    const root = baseUrl.replace(/\/+$/, '');
+
+    const analyzeMedia = async ({ media, coordinates, metadata, languages, regions, options, signal, onProgress }: AnalyzeMediaRequest): Promise<AnalysisResult> => {
+        const form = new FormData();
+        form.append('file', media.kind === 'file' ? media.blob : base64ToBlob(media.base64Data, media.mimeType));
+        if (coordinates) {
+            form.append('latitude', String(coordinates.latitude));
+            form.append('longitude', String(coordinates.longitude));
+        }
+        if (metadata) {
+            form.append('metadata', JSON.stringify(metadata));
+        }
+        if (languages) {
+            form.append('languages', languages.join(','));
+        }
+        if (options) {
+            form.append('options', JSON.stringify(options));
+        }
+        if (regions?.length) {
+            form.append('regions', JSON.stringify(regions.map(({ id, box, note }) => ({ id, box, note }))));
+            regions.forEach((region, index) => {
+                if (region.crop) form.append(`region-${index}`, base64ToBlob(region.crop, 'image/jpeg'));
+            });
+        }
+
+        onProgress?.({ stage: 'uploading' });
+        const response = await send(`${root}/analyze`, { method: 'POST', body: form, signal });
+        if (!response.ok) {
+            throw await toError(response, media.mimeType);
+        }
+        // The proxy answers in one piece, so there is no partial text to report.
+        onProgress?.({ stage: 'parsing' });
+        const result: AnalysisResult = await response.json();
+        return metadata ? { ...result, metadata } : result;
+    };
+
+    const compareMedia = async ({ media, coordinates, languages, mode, signal, onProgress }: CompareMediaRequest): Promise<ComparisonResult> => {
+        const form = new FormData();
+        media.forEach((item, index) => {
+            form.append(index === 0 ? 'file-a' : 'file-b', item.kind === 'file' ? item.blob : base64ToBlob(item.base64Data, item.mimeType));
+        });
+        if (coordinates) {
+            form.append('latitude', String(coordinates.latitude));
+            form.append('longitude', String(coordinates.longitude));
+        }
+        if (languages) {
+            form.append('languages', languages.join(','));
+        }
+        if (mode) {
+            form.append('mode', mode);
+        }
+
+        onProgress?.({ stage: 'uploading' });
+        const response = await send(`${root}/compare`, { method: 'POST', body: form, signal });
+        if (!response.ok) {
+            throw await toError(response, media[0].mimeType);
+        }
+        onProgress?.({ stage: 'parsing' });
+        return response.json();
+    };
+
+    const generateAudio = async ({ text, language, signal }: SpeechRequest): Promise<string> => {
+        const response = await send(`${root}/tts`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ text, language }),
+            signal,
+        });
+        if (!response.ok) {
+            throw await toError(response);
+        }
+        const { audio } = await response.json();
+        return audio;
+    };
+
+    const translate = async ({ text, from, to, signal }: TranslateRequest): Promise<string> => {
+        const response = await send(`${root}/translate`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ text, from, to }),
+            signal,
+        });
+        if (!response.ok) {
+            throw await toError(response);
+        }
+        const { text: translated } = await response.json();
+        return translated;
+    };
+
+    const sendMessage = async ({ media, result, history, question, coordinates, signal, onText }: ChatRequest): Promise<ChatReply> => {
+        const form = new FormData();
+        form.append('payload', JSON.stringify({ result, history, question, coordinates }));
+        if (media) {
+            form.append('file', media.kind === 'file' ? media.blob : base64ToBlob(media.base64Data, media.mimeType));
+        }
+        const response = await send(`${root}/chat`, { method: 'POST', body: form, signal });
+        if (!response.ok) {
+            throw await toError(response, media?.mimeType);
+        }
+        const reply: ChatReply = await response.json();
+        onText?.(reply.text);
+        return reply;
+    };
+
+    return { name: 'proxy', analyzeMedia, compareMedia, generateAudio, translate, sendMessage };
+};
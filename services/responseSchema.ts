@@ -0,0 +1,115 @@
+import { Schema, Type } from '@google/genai';
+import type { Language } from '../types';
+import { DEFAULT_RESULT_LANGUAGES } from './locales';
+import { CLUE_CATEGORIES, MAX_CLUES } from './analysisPrompt';
+import { COMPARISON_VERDICTS, MAX_COMPARISON_FEATURES } from './comparisonPrompt';
+
+// Mirrors what locationSchema.ts accepts, so a constrained answer always validates.
+const PLACE_PROPERTIES: Record<string, Schema> = {
+    landmark: { type: Type.STRING, nullable: true },
+    city: { type: Type.STRING, nullable: true },
+    region: { type: Type.STRING, nullable: true },
+    country: { type: Type.STRING },
+    countryCode: { type: Type.STRING, pattern: '^[A-Z]{2}$' },
+    latitude: { type: Type.NUMBER, minimum: -90, maximum: 90 },
+    longitude: { type: Type.NUMBER, minimum: -180, maximum: 180 },
+    confidence: { type: Type.NUMBER, minimum: 0, maximum: 1 },
+};
+const PLACE_REQUIRED = ['country', 'countryCode', 'latitude', 'longitude', 'confidence'];
+
+/**
+ * Response schema for an analysis answer with a description per requested
+ * language and the clues behind it, plus a finding per marked region when
+ * there are any.
+ */
+export const buildAnalysisResponseSchema = (languages: Language[] = DEFAULT_RESULT_LANGUAGES, regionCount = 0): Schema => {
+    const keys = [...languages, 'location', 'clues', ...(regionCount > 0 ? ['regions'] : [])];
+    return {
+        type: Type.OBJECT,
+        properties: {
+            ...Object.fromEntries(languages.map(code => [code, { type: Type.STRING }])),
+            location: {
+                type: Type.OBJECT,
+                nullable: true,
+                properties: {
+                    ...PLACE_PROPERTIES,
+                    alternates: {
+                        type: Type.ARRAY,
+                        maxItems: '3',
+                        items: {
+                            type: Type.OBJECT,
+                            properties: { ...PLACE_PROPERTIES, reasoning: { type: Type.STRING } },
+                            required: [...PLACE_REQUIRED, 'reasoning'],
+                        },
+                    },
+                },
+                required: [...PLACE_REQUIRED, 'alternates'],
+            },
+            clues: {
+                type: Type.ARRAY,
+                maxItems: String(MAX_CLUES),
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        category: { type: Type.STRING, format: 'enum', enum: CLUE_CATEGORIES },
+                        description: { type: Type.STRING },
+                        weight: { type: Type.NUMBER, minimum: 0, maximum: 1 },
+                        boxes: {
+                            type: Type.ARRAY,
+                            items: { type: Type.ARRAY, minItems: '4', maxItems: '4', items: { type: Type.INTEGER, minimum: 0, maximum: 1000 } },
+                        },
+                    },
+                    required: ['category', 'description', 'weight', 'boxes'],
+                },
+            },
+            ...(regionCount > 0 && {
+                regions: {
+                    type: Type.ARRAY,
+                    minItems: String(regionCount),
+                    maxItems: String(regionCount),
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            region: { type: Type.INTEGER, minimum: 1, maximum: regionCount },
+                            finding: { type: Type.STRING, nullable: true },
+                        },
+                        required: ['region', 'finding'],
+                    },
+                },
+            }),
+        },
+        required: keys,
+        propertyOrdering: keys,
+    };
+};
+
+/** Response schema for a two-file comparison: an explanation per language, the verdict and both locations. */
+export const buildComparisonResponseSchema = (languages: Language[] = DEFAULT_RESULT_LANGUAGES): Schema => {
+    const keys = [...languages, 'verdict', 'confidence', 'matches', 'differences', 'locations'];
+    const features: Schema = { type: Type.ARRAY, maxItems: String(MAX_COMPARISON_FEATURES), items: { type: Type.STRING } };
+    return {
+        type: Type.OBJECT,
+        properties: {
+            ...Object.fromEntries(languages.map(code => [code, { type: Type.STRING }])),
+            verdict: { type: Type.STRING, format: 'enum', enum: COMPARISON_VERDICTS },
+            confidence: { type: Type.NUMBER, minimum: 0, maximum: 1 },
+            matches: features,
+            differences: features,
+            locations: {
+                type: Type.ARRAY,
+                minItems: '2',
+                maxItems: '2',
+                items: { type: Type.OBJECT, properties: PLACE_PROPERTIES, required: PLACE_REQUIRED },
+            },
+        },
+        required: keys,
+        propertyOrdering: keys,
+    };
+};
+
+/**
+ * Gemini 2.x rejects a response schema combined with the search and maps
+ * tools; Gemini 3 accepts both in one request. Aliases such as
+ * "gemini-flash-latest" are treated as the older kind.
+ */
+export const supportsSchemaWithTools = (model: string): boolean => /^gemini-[3-9]/.test(model);
@@ -0,0 +1,104 @@
+import type { AnalysisProgress, AnalysisResult, GeolocationCoordinates, GroundingChunk, Language, LocationDetails, MediaMetadata, TimelineSegment } from '../types';
+import type { LocationProvider } from './providers';
+import { InvalidApiKeyError, LocalizedError, isAbortError, isTransientError } from './errors';
+import { distanceKm } from '../utils/geo';
+import { sampleVideoFrames } from '../utils/videoFrames';
+
+interface VideoTimelineRequest {
+    provider: LocationProvider;
+    languages?: Language[];
+    // Object URL (or any URL a <video> can load) of the clip.
+    src: string;
+    coordinates: GeolocationCoordinates | null;
+    metadata?: MediaMetadata | null;
+    signal?: AbortSignal;
+    onProgress?: (progress: AnalysisProgress) => void;
+}
+
+// Frames closer than this are treated as the same place even if the model named them differently.
+const SAME_PLACE_KM = 1;
+
+const normalize = (value: string | null): string => (value ?? '').trim().toLowerCase();
+
+const isSamePlace = (a: LocationDetails, b: LocationDetails): boolean => {
+    if (distanceKm(a.latitude, a.longitude, b.latitude, b.longitude) <= SAME_PLACE_KM) return true;
+    return normalize(a.countryCode) === normalize(b.countryCode)
+        && normalize(a.city) === normalize(b.city)
+        && normalize(a.landmark) === normalize(b.landmark);
+};
+
+const mergeSources = (results: AnalysisResult[]): GroundingChunk[] => {
+    const seen = new Set<string>();
+    return results.flatMap(result => result.sources).filter(source => {
+        const uri = (source.web || source.maps)?.uri;
+        if (!uri) return true;
+        if (seen.has(uri)) return false;
+        seen.add(uri);
+        return true;
+    });
+};
+
+/**
+ * Analyzes sampled frames one at a time and folds consecutive frames that
+ * resolve to the same place into timeline segments.
+ */
+export const analyzeVideoTimeline = async ({
+    provider, src, languages, coordinates, metadata, signal, onProgress,
+}: VideoTimelineRequest): Promise<AnalysisResult> => {
+    onProgress?.({ stage: 'sampling' });
+    const { duration, frames } = await sampleVideoFrames(src, { signal });
+    if (frames.length === 0) {
+        throw new LocalizedError('errors.noVideoFrames');
+    }
+
+    const analyzed: { time: number, thumbnail: string, result: AnalysisResult }[] = [];
+    let lastError: unknown = null;
+    for (const [index, frame] of frames.entries()) {
+        try {
+            const result = await provider.analyzeMedia({
+                media: { kind: 'inline', base64Data: frame.base64, mimeType: 'image/jpeg' },
+                coordinates,
+                metadata,
+                languages,
+                signal,
+                onProgress: progress => onProgress?.({ ...progress, frame: { index, total: frames.length } }),
+            });
+            analyzed.push({ time: frame.time, thumbnail: frame.thumbnail, result });
+        } catch (error) {
+            // Transient and key errors would fail every other frame the same way.
+            if (isAbortError(error) || signal?.aborted || isTransientError(error) || error instanceof InvalidApiKeyError) {
+                throw error;
+            }
+            // One unreadable frame (black, blurred) should not sink the whole clip.
+            console.error(`Frame at ${frame.time.toFixed(1)}s could not be analyzed:`, error);
+            lastError = error;
+        }
+    }
+    if (analyzed.length === 0) {
+        throw lastError;
+    }
+
+    const segments: (TimelineSegment & { confidence: number })[] = [];
+    for (const { time, thumbnail, result } of analyzed) {
+        const current = segments[segments.length - 1];
+        if (current && isSamePlace(current.location, result.location)) {
+            // Keep the most confident description of the segment.
+            if (result.location.confidence > current.confidence) {
+                Object.assign(current, { descriptions: result.descriptions, location: result.location, confidence: result.location.confidence });
+            }
+            continue;
+        }
+        if (current) current.end = time;
+        segments.push({ start: time, end: duration, thumbnail, descriptions: result.descriptions, location: result.location, confidence: result.location.confidence });
+    }
+
+    const timeline: TimelineSegment[] = segments.map(({ confidence, ...segment }) => segment);
+    const longest = timeline.reduce((best, segment) => (segment.end - segment.start > best.end - best.start ? segment : best));
+    return {
+        descriptions: longest.descriptions,
+        location: longest.location,
+        sources: mergeSources(analyzed.map(item => item.result)),
+        ...(metadata && { metadata }),
+        timeline,
+    };
+};
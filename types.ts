@@ -1,5 +1,11 @@
 
-export type Language = 'en' | 'ru';
+// Every code here needs an entry in the locale registry (services/locales.ts).
+export type Language =
+  | 'en' | 'ru' | 'de' | 'es' | 'fr' | 'it' | 'pt' | 'uk'
+  | 'kk' | 'tr' | 'ar' | 'hi' | 'ja' | 'ko' | 'zh';
+
+// Place descriptions keyed by language; only the requested or translated languages are present.
+export type Descriptions = Partial<Record<Language, string>>;
 
 export interface GroundingChunk {
   web?: {
@@ -14,13 +20,286 @@ export interface GroundingChunk {
   };
 }
 
+export interface LocationPlace {
+  landmark: string | null;
+  city: string | null;
+  region: string | null;
+  country: string;
+  // ISO 3166-1 alpha-2, upper case (e.g. "FR").
+  countryCode: string;
+  latitude: number;
+  longitude: number;
+  // Model's self-reported confidence in the range 0..1.
+  confidence: number;
+}
+
+export interface AlternateLocation extends LocationPlace {
+  reasoning: string;
+}
+
+export interface LocationDetails extends LocationPlace {
+  // Ranked from most to least likely.
+  alternates: AlternateLocation[];
+}
+
+export interface MediaMetadata {
+  gps?: {
+    latitude: number;
+    longitude: number;
+    altitude?: number;
+  };
+  // ISO 8601; carries a UTC offset only when the file records one.
+  capturedAt?: string;
+  make?: string;
+  model?: string;
+  // EXIF orientation value, 1-8.
+  orientation?: number;
+  // Compass direction the camera was facing, in degrees.
+  heading?: number;
+}
+
+// A stretch of video whose sampled frames all resolved to the same place.
+export interface TimelineSegment {
+  // Seconds from the start of the video.
+  start: number;
+  end: number;
+  // Small JPEG data URL of the segment's first frame.
+  thumbnail: string;
+  descriptions: Descriptions;
+  location: LocationDetails;
+}
+
+// A rectangle on the upright image, in fractions (0..1) of its width and height from the top-left corner.
+export interface RegionBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// An area the user marked on the image before analysis.
+export interface RegionOfInterest {
+  id: string;
+  box: RegionBox;
+  // What the user wants looked at, e.g. "this shop sign"; may be empty.
+  note: string;
+}
+
+export interface RegionFinding extends RegionOfInterest {
+  // What the model concluded from the region, or null when it did not use it.
+  finding: string | null;
+}
+
+export type ClueCategory =
+  | 'script' | 'drivingSide' | 'vegetation' | 'architecture' | 'licensePlate'
+  | 'landmark' | 'terrain' | 'infrastructure' | 'other';
+
+// Something visible that the model relied on when placing the media.
+export interface VisualClue {
+  category: ClueCategory;
+  description: string;
+  // How much the clue influenced the conclusion, 0..1.
+  weight: number;
+  // Where the clue is visible; empty for clues that are not tied to one spot, and for videos.
+  boxes: RegionBox[];
+}
+
 export interface AnalysisResult {
-  en: string;
-  ru: string;
+  descriptions: Descriptions;
+  location: LocationDetails;
+  sources: GroundingChunk[];
+  metadata?: MediaMetadata;
+  // Set when the location was taken from embedded GPS data without calling the model.
+  fromMetadata?: boolean;
+  // Present for videos analyzed frame by frame; the top-level fields describe the longest segment.
+  timeline?: TimelineSegment[];
+  // The user's marked regions, in the order they were labelled R1, R2, ...
+  regions?: RegionFinding[];
+  // Evidence behind the answer, heaviest first.
+  clues?: VisualClue[];
+}
+
+export type ComparisonVerdict = 'same' | 'nearby' | 'different';
+
+/** Whether two photos or videos show the same place, judged by looking at both together. */
+export interface ComparisonResult {
+  verdict: ComparisonVerdict;
+  // Confidence in the verdict, from 0 to 1.
+  confidence: number;
+  // Why the verdict was reached, keyed by language.
+  descriptions: Descriptions;
+  // Features visible in both that tie them together, and those that set them apart.
+  matches: string[];
+  differences: string[];
+  // Each file's own location estimate, in the order the files were given.
+  locations: [LocationDetails, LocationDetails];
   sources: GroundingChunk[];
 }
 
 export interface GeolocationCoordinates {
   latitude: number;
   longitude: number;
-}
\ No newline at end of file
+}
+
+// How much of the user's own position is shared with the model as a search hint.
+export type LocationMode = 'off' | 'coarse' | 'precise' | 'manual';
+
+export interface ManualLocation extends GeolocationCoordinates {
+  // Address or place name the position was found from, or its coordinates when picked on the map.
+  label: string;
+}
+
+export interface LocationSettings {
+  mode: LocationMode;
+  // Kept when switching to another mode so it does not have to be picked again.
+  manual: ManualLocation | null;
+}
+
+export type ChatRole = 'user' | 'model';
+
+// One turn of the follow-up conversation about an analyzed place.
+export interface ChatMessage {
+  id: string;
+  role: ChatRole;
+  text: string;
+  // Grounding sources behind a model answer; always empty for user turns.
+  sources: GroundingChunk[];
+  // Unix timestamp in milliseconds.
+  createdAt: number;
+}
+
+export interface HistoryEntry {
+  id: string;
+  // Unix timestamp in milliseconds.
+  createdAt: number;
+  fileName: string;
+  mimeType: string;
+  // SHA-256 of the original file, hex encoded.
+  fileHash: string;
+  // Small JPEG data URL.
+  thumbnail: string | null;
+  result: AnalysisResult;
+  // Speech generated so far, base64 PCM keyed by description language.
+  audioClips: Partial<Record<Language, string>>;
+  // Follow-up questions and answers, oldest first.
+  chat: ChatMessage[];
+  // Result cache key of the analysis, so a cache hit reopens this entry instead of adding a copy.
+  cacheKey?: string;
+}
+
+/** A finished analysis kept so the same media is not paid for twice. */
+export interface AnalysisCacheEntry {
+  // SHA-256 over the prepared media and everything else that shapes the answer, hex encoded.
+  key: string;
+  // Unix timestamps in milliseconds; eviction drops the least recently used entries first.
+  createdAt: number;
+  lastUsedAt: number;
+  // Approximate stored size, used for size-based eviction.
+  bytes: number;
+  result: AnalysisResult;
+  audioClips: Partial<Record<Language, string>>;
+}
+
+export type BatchStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchStatus;
+  result?: AnalysisResult;
+  error?: Error;
+  // Set while waiting out a rate limit before the next attempt.
+  retry?: { attempt: number; inSeconds: number };
+}
+
+export type AnalysisModeId = 'standard' | 'tourist' | 'osint' | 'realEstate' | 'quickGuess';
+export type DetailLevel = 'brief' | 'normal' | 'detailed';
+
+/** What the user asked for on top of the media: which prompt template, how much detail and any hint of their own. */
+export interface AnalysisOptions {
+  mode: AnalysisModeId;
+  detail: DetailLevel;
+  hint: string;
+}
+
+export interface ModeModelSettings {
+  // Empty to use the image or video model.
+  model: string;
+  search: boolean;
+  maps: boolean;
+}
+
+export type ProviderId = 'gemini' | 'proxy' | 'mock';
+
+export interface GeminiSettings {
+  imageModel: string;
+  videoModel: string;
+  ttsModel: string;
+  // Per-language voice overrides; languages without one use the registry default.
+  voices: Partial<Record<Language, string>>;
+  // Per-mode overrides of the mode's own model and tools.
+  modes?: Partial<Record<AnalysisModeId, ModeModelSettings>>;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  gemini: GeminiSettings;
+  // Fixture id for the mock provider, or 'auto' to pick one from the file contents.
+  mockScenario: string;
+  mockLatencyMs: number;
+  // Base URL of the server-side /api routes used by the 'proxy' provider.
+  proxyBaseUrl: string;
+}
+
+export type ProxyErrorCode =
+  | 'method_not_allowed'
+  | 'bad_request'
+  | 'payload_too_large'
+  | 'unsupported_media_type'
+  | 'rate_limited'
+  | 'invalid_model_response'
+  | 'no_location'
+  | 'safety_blocked'
+  | 'upstream_error'
+  | 'server_misconfigured';
+
+// Shape of every non-2xx JSON body returned by the /api routes.
+export interface ProxyErrorBody {
+  error: {
+    code: ProxyErrorCode;
+    message: string;
+    details?: string[];
+    // The model's own answer, when it could not be parsed.
+    rawText?: string;
+  };
+}
+
+// Small payloads travel inline as base64; large ones are uploaded separately as a file.
+export type PreparedMedia =
+  | { kind: 'inline'; base64Data: string; mimeType: string }
+  | { kind: 'file'; blob: Blob; mimeType: string };
+
+export type MediaPreparationPath = 'original' | 'downscaled' | 'file-upload';
+
+export interface MediaPreparationInfo {
+  path: MediaPreparationPath;
+  originalBytes: number;
+  uploadBytes: number;
+  // Output size of a downscaled image.
+  width?: number;
+  height?: number;
+}
+
+export type AnalysisStage = 'sampling' | 'uploading' | 'reasoning' | 'grounding' | 'parsing';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  // Raw model output received so far.
+  partialText?: string;
+  // Set while a video is analyzed one sampled frame at a time; index is zero-based.
+  frame?: { index: number; total: number };
+  // Byte counts while a large file is being uploaded.
+  upload?: { sentBytes: number; totalBytes: number };
+  // Set while waiting to resend a request that failed for a transient reason.
+  retry?: { attempt: number; inSeconds: number };
+}
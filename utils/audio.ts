@@ -0,0 +1,40 @@
+// Gemini speech output is raw 16-bit little-endian mono PCM at this rate.
+export const TTS_SAMPLE_RATE = 24000;
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+/** Length in seconds of a 16-bit mono PCM clip. */
+export const pcmDurationSeconds = (pcm: Uint8Array, sampleRate = TTS_SAMPLE_RATE): number =>
+    pcm.length / 2 / sampleRate;
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+        view.setUint8(offset + i, text.charCodeAt(i));
+    }
+};
+
+/** Wraps 16-bit mono PCM in a 44-byte RIFF/WAVE header so browsers and players can open it. */
+export const pcmToWavBlob = (pcm: Uint8Array, sampleRate = TTS_SAMPLE_RATE): Blob => {
+    const header = new DataView(new ArrayBuffer(44));
+    writeAscii(header, 0, 'RIFF');
+    header.setUint32(4, 36 + pcm.length, true);
+    writeAscii(header, 8, 'WAVE');
+    writeAscii(header, 12, 'fmt ');
+    header.setUint32(16, 16, true); // fmt chunk size
+    header.setUint16(20, 1, true); // PCM
+    header.setUint16(22, 1, true); // mono
+    header.setUint32(24, sampleRate, true);
+    header.setUint32(28, sampleRate * 2, true); // byte rate
+    header.setUint16(32, 2, true); // block align
+    header.setUint16(34, 16, true); // bits per sample
+    writeAscii(header, 36, 'data');
+    header.setUint32(40, pcm.length, true);
+    return new Blob([header.buffer, pcm], { type: 'audio/wav' });
+};
@@ -0,0 +1,152 @@
+import type { AnalysisResult, Language } from '../types';
+import type { MessageKey } from '../i18n';
+import { LANGUAGES, describedLanguages } from '../services/locales';
+
+export type ExportFormat = 'geojson' | 'kml' | 'gpx' | 'csv';
+
+export interface ExportRecord {
+    fileName: string;
+    result: AnalysisResult;
+}
+
+export const EXPORT_FORMATS: { format: ExportFormat, label: MessageKey, extension: string, mimeType: string }[] = [
+    { format: 'geojson', label: 'export.format.geojson', extension: 'geojson', mimeType: 'application/geo+json' },
+    { format: 'kml', label: 'export.format.kml', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+    { format: 'gpx', label: 'export.format.gpx', extension: 'gpx', mimeType: 'application/gpx+xml' },
+    { format: 'csv', label: 'export.format.csv', extension: 'csv', mimeType: 'text/csv' },
+];
+
+const placeName = ({ location }: AnalysisResult): string =>
+    [location.landmark, location.city, location.region, location.country].filter(Boolean).join(', ') || 'Unnamed location';
+
+const sourceUris = ({ sources }: AnalysisResult): string[] =>
+    sources.map(source => source.web?.uri ?? source.maps?.uri).filter((uri): uri is string => !!uri);
+
+const descriptionFields = ({ descriptions }: AnalysisResult): [string, string][] =>
+    describedLanguages(descriptions).map(code => [`description_${code}`, descriptions[code] ?? '']);
+
+const joinedDescriptions = ({ descriptions }: AnalysisResult): string =>
+    describedLanguages(descriptions).map(code => descriptions[code]).join('\n\n');
+
+const escapeXml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+export const toGeoJson = (records: ExportRecord[]): string => {
+    const features = records.map(({ fileName, result }) => ({
+        type: 'Feature',
+        geometry: {
+            type: 'Point',
+            coordinates: [result.location.longitude, result.location.latitude],
+        },
+        properties: {
+            name: placeName(result),
+            fileName,
+            landmark: result.location.landmark,
+            city: result.location.city,
+            region: result.location.region,
+            country: result.location.country,
+            countryCode: result.location.countryCode,
+            confidence: result.location.confidence,
+            ...Object.fromEntries(descriptionFields(result)),
+            sources: sourceUris(result),
+            alternates: result.location.alternates,
+        },
+    }));
+    return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
+
+export const toKml = (records: ExportRecord[]): string => {
+    const placemarks = records.map(({ fileName, result }) => {
+        const { latitude, longitude, confidence, countryCode } = result.location;
+        const extended = [
+            ['fileName', fileName],
+            ['countryCode', countryCode],
+            ['confidence', String(confidence)],
+            ...descriptionFields(result),
+            ['sources', sourceUris(result).join(' ')],
+        ].map(([name, value]) => `        <Data name="${name}"><value>${escapeXml(value)}</value></Data>`).join('\n');
+        return [
+            '    <Placemark>',
+            `      <name>${escapeXml(placeName(result))}</name>`,
+            `      <description>${escapeXml(joinedDescriptions(result))}</description>`,
+            '      <ExtendedData>',
+            extended,
+            '      </ExtendedData>',
+            `      <Point><coordinates>${longitude},${latitude},0</coordinates></Point>`,
+            '    </Placemark>',
+        ].join('\n');
+    });
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2">',
+        '  <Document>',
+        '    <name>Geo-Locator AI export</name>',
+        ...placemarks,
+        '  </Document>',
+        '</kml>',
+    ].join('\n');
+};
+
+export const toGpx = (records: ExportRecord[]): string => {
+    const waypoints = records.map(({ fileName, result }) => {
+        const { latitude, longitude } = result.location;
+        const links = sourceUris(result).map(uri => `    <link href="${escapeXml(uri)}"/>`);
+        return [
+            `  <wpt lat="${latitude}" lon="${longitude}">`,
+            `    <name>${escapeXml(placeName(result))}</name>`,
+            `    <cmt>${escapeXml(fileName)}</cmt>`,
+            `    <desc>${escapeXml(joinedDescriptions(result))}</desc>`,
+            ...links,
+            '  </wpt>',
+        ].join('\n');
+    });
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<gpx version="1.1" creator="Geo-Locator AI" xmlns="http://www.topografix.com/GPX/1/1">',
+        ...waypoints,
+        '</gpx>',
+    ].join('\n');
+};
+
+const escapeCsv = (value: string | number | null): string => {
+    const text = value === null ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (records: ExportRecord[]): string => {
+    // One column per language that appears in any record, so rows line up.
+    const languages: Language[] = LANGUAGES.filter(code => records.some(({ result }) => result.descriptions[code] !== undefined));
+    const header = [
+        'file_name', 'name', 'landmark', 'city', 'region', 'country', 'country_code', 'latitude', 'longitude', 'confidence',
+        ...languages.map(code => `description_${code}`), 'sources',
+    ];
+    const rows = records.map(({ fileName, result }) => {
+        const { location } = result;
+        return [
+            fileName, placeName(result), location.landmark, location.city, location.region, location.country,
+            location.countryCode, location.latitude, location.longitude, location.confidence,
+            ...languages.map(code => result.descriptions[code] ?? ''), sourceUris(result).join(' '),
+        ].map(escapeCsv).join(',');
+    });
+    return [header.join(','), ...rows].join('\r\n');
+};
+
+const serializers: Record<ExportFormat, (records: ExportRecord[]) => string> = {
+    geojson: toGeoJson,
+    kml: toKml,
+    gpx: toGpx,
+    csv: toCsv,
+};
+
+/** Serializes the records and triggers a browser download. */
+export const downloadExport = (records: ExportRecord[], format: ExportFormat, baseName: string) => {
+    const { extension, mimeType } = EXPORT_FORMATS.find(f => f.format === format)!;
+    // A BOM lets Excel detect UTF-8 (e.g. Cyrillic descriptions) in CSV files.
+    const content = format === 'csv' ? `\uFEFF${serializers[format](records)}` : serializers[format](records);
+    const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${baseName}.${extension}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
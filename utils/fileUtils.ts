@@ -1,5 +1,7 @@
+import { LocalizedError, isAbortError } from '../services/errors';
 
-export const fileToBase64 = (file: File): Promise<{ base64: string, mimeType: string }> => {
+
+export const fileToBase64 = (file: Blob): Promise<{ base64: string, mimeType: string }> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
         reader.readAsDataURL(file);
@@ -11,3 +13,143 @@ export const fileToBase64 = (file: File): Promise<{ base64: string, mimeType: st
         reader.onerror = (error) => reject(error);
     });
 };
+
+export const hashFile = async (file: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const THUMBNAIL_SIZE = 160;
+
+const loadVideoFrame = (url: string): Promise<HTMLVideoElement> => {
+    return new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        video.muted = true;
+        video.preload = 'auto';
+        video.onloadeddata = () => {
+            video.currentTime = Math.min(1, video.duration / 2 || 0);
+        };
+        video.onseeked = () => resolve(video);
+        video.onerror = () => reject(new Error("Could not load video for thumbnail."));
+        video.src = url;
+    });
+};
+
+const loadImage = (url: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error("Could not load image for thumbnail."));
+        image.src = url;
+    });
+};
+
+/** Renders a small JPEG data URL of an image, or of a frame from a video. */
+export const createThumbnail = async (file: File): Promise<string> => {
+    const url = URL.createObjectURL(file);
+    try {
+        const source = file.type.startsWith('video/') ? await loadVideoFrame(url) : await loadImage(url);
+        const width = source instanceof HTMLVideoElement ? source.videoWidth : source.naturalWidth;
+        const height = source instanceof HTMLVideoElement ? source.videoHeight : source.naturalHeight;
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(width * scale));
+        canvas.height = Math.max(1, Math.round(height * scale));
+        canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+        return canvas.toDataURL('image/jpeg', 0.7);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+export const isSupportedMedia = (file: File): boolean =>
+    file.type.startsWith('image/') || file.type.startsWith('video/');
+
+const readDirectoryEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+    new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const collectEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+        return [file];
+    }
+    if (entry.isDirectory) {
+        const reader = (entry as FileSystemDirectoryEntry).createReader();
+        const files: File[] = [];
+        // readEntries returns results in chunks until it yields an empty array.
+        for (let batch = await readDirectoryEntries(reader); batch.length > 0; batch = await readDirectoryEntries(reader)) {
+            for (const child of batch) {
+                files.push(...await collectEntryFiles(child));
+            }
+        }
+        return files;
+    }
+    return [];
+};
+
+/** Returns every image and video in a drop, descending into dropped folders. */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+    const entries = Array.from(dataTransfer.items)
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+    const files = entries.length > 0
+        ? (await Promise.all(entries.map(collectEntryFiles))).flat()
+        : Array.from(dataTransfer.files);
+    return files.filter(isSupportedMedia);
+};
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const REMOTE_PROTOCOLS = ['http:', 'https:', 'data:'];
+
+/** True for a single http(s) link, the only pasted text that is treated as media. */
+export const isWebUrl = (text: string): boolean => /^https?:\/\/\S+$/i.test(text.trim());
+
+const extensionFor = (mimeType: string) => mimeType.split('/')[1]?.split(/[+;]/)[0] || 'bin';
+
+const fileNameFromUrl = (url: URL, mimeType: string): string => {
+    let lastSegment = '';
+    if (url.protocol !== 'data:') {
+        try {
+            lastSegment = decodeURIComponent(url.pathname.split('/').pop() ?? '');
+        } catch {
+            // A malformed escape only costs us the original name.
+        }
+    }
+    return /\.\w+$/.test(lastSegment) ? lastSegment : `${lastSegment || 'download'}.${extensionFor(mimeType)}`;
+};
+
+/** Downloads an image or video from a link so it can go through the same pipeline as an upload. */
+export const fetchMediaFromUrl = async (url: string, signal?: AbortSignal): Promise<File> => {
+    let parsed: URL;
+    try {
+        parsed = new URL(url.trim());
+    } catch {
+        throw new LocalizedError('errors.urlInvalid');
+    }
+    if (!REMOTE_PROTOCOLS.includes(parsed.protocol)) {
+        throw new LocalizedError('errors.urlInvalid');
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(parsed.href, { signal });
+    } catch (err) {
+        if (isAbortError(err)) throw err;
+        // Most sites do not allow cross-origin downloads, which fetch reports the same way as being offline.
+        throw new LocalizedError('errors.urlFetchFailed');
+    }
+    if (!response.ok) {
+        throw new LocalizedError('errors.urlStatus', { status: response.status });
+    }
+    const blob = await response.blob();
+    if (!blob.type.startsWith('image/') && !blob.type.startsWith('video/')) {
+        throw new LocalizedError('errors.urlNotMedia', { mimeType: blob.type || 'unknown' });
+    }
+
+    return new File([blob], fileNameFromUrl(parsed, blob.type), { type: blob.type, lastModified: Date.now() });
+};
@@ -0,0 +1,56 @@
+export const TILE_SIZE = 256;
+const EARTH_RADIUS_KM = 6371;
+const MAX_LATITUDE = 85.05112878;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle distance between two points in kilometres (haversine formula). */
+export const distanceKm = (latA: number, lngA: number, latB: number, lngB: number): number => {
+    const dLat = toRadians(latB - latA);
+    const dLng = toRadians(lngB - lngA);
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(latA)) * Math.cos(toRadians(latB)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// One decimal place is about 11 km: enough to favour the right city without revealing the street.
+const COARSE_DECIMALS = 1;
+
+export const coarsenCoordinates = ({ latitude, longitude }: { latitude: number, longitude: number }) => {
+    const factor = 10 ** COARSE_DECIMALS;
+    return { latitude: Math.round(latitude * factor) / factor, longitude: Math.round(longitude * factor) / factor };
+};
+
+export const formatDistance = (km: number): string =>
+    km < 1 ? `${Math.round(km * 1000)} m` : km < 100 ? `${km.toFixed(1)} km` : `${Math.round(km).toLocaleString()} km`;
+
+/** Projects a coordinate to Web Mercator world pixels at the given zoom level. */
+export const project = (latitude: number, longitude: number, zoom: number): { x: number, y: number } => {
+    const scale = TILE_SIZE * 2 ** zoom;
+    const lat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude));
+    const sin = Math.sin(toRadians(lat));
+    return {
+        x: ((longitude + 180) / 360) * scale,
+        y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+    };
+};
+
+export const unproject = (x: number, y: number, zoom: number): { latitude: number, longitude: number } => {
+    const scale = TILE_SIZE * 2 ** zoom;
+    const n = Math.PI - (2 * Math.PI * y) / scale;
+    return {
+        latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+        longitude: (x / scale) * 360 - 180,
+    };
+};
+
+export const metersPerPixel = (latitude: number, zoom: number): number =>
+    (2 * Math.PI * EARTH_RADIUS_KM * 1000 * Math.cos(toRadians(latitude))) / (TILE_SIZE * 2 ** zoom);
+
+/**
+ * Rough uncertainty radius for a guess: a confident landmark match stays within
+ * a couple of kilometres, a low-confidence country-level guess spreads to hundreds.
+ */
+export const confidenceRadiusKm = (confidence: number): number => {
+    const clamped = Math.max(0, Math.min(1, confidence));
+    return 1 + 500 * (1 - clamped) ** 2;
+};
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const place = { address: { city: 'Paris', state: 'Île-de-France', country: 'France', country_code: 'fr' } };
+
+describe('reverseGeocode', () => {
+    const fetchMock = vi.fn();
+    // The throttle lives in module state, so each test gets a fresh copy of the module.
+    let reverseGeocode: typeof import('./geocoding').reverseGeocode;
+
+    beforeEach(async () => {
+        vi.useFakeTimers();
+        vi.stubGlobal('fetch', fetchMock);
+        vi.stubEnv('GEOCODER_URL', 'https://geocoder.test/search');
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.resetModules();
+        ({ reverseGeocode } = await import('./geocoding'));
+    });
+
+    afterEach(() => {
+        fetchMock.mockReset();
+        vi.unstubAllGlobals();
+        vi.unstubAllEnvs();
+        vi.useRealTimers();
+    });
+
+    it('names the place in the shape of a model answer', async () => {
+        fetchMock.mockResolvedValue(new Response(JSON.stringify(place)));
+        await expect(reverseGeocode(48.8584, 2.2945)).resolves.toEqual({
+            city: 'Paris', region: 'Île-de-France', country: 'France', countryCode: 'FR',
+        });
+        expect(fetchMock.mock.calls[0][0]).toBe('https://geocoder.test/reverse?lat=48.8584&lon=2.2945&format=jsonv2&accept-language=en');
+    });
+
+    it('sends concurrent lookups one second apart', async () => {
+        fetchMock.mockImplementation(async () => new Response(JSON.stringify(place)));
+        const lookups = [reverseGeocode(1, 1), reverseGeocode(2, 2), reverseGeocode(3, 3)];
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(999);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+        await Promise.all(lookups);
+    });
+
+    it('turns a 429 into a retryable rate limit error with the requested wait', async () => {
+        fetchMock.mockResolvedValue(new Response('', { status: 429, headers: { 'Retry-After': '30' } }));
+        await expect(reverseGeocode(1, 1)).rejects.toEqual(expect.objectContaining({
+            name: 'RateLimitError',
+            key: 'errors.geocoderRateLimited',
+            retryAfterMs: 30_000,
+        }));
+    });
+
+    it('keeps the queue going after a failed lookup', async () => {
+        fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+        fetchMock.mockResolvedValueOnce(new Response(JSON.stringify(place)));
+        const failed = reverseGeocode(1, 1);
+        const next = reverseGeocode(2, 2);
+        await expect(failed).rejects.toMatchObject({ key: 'errors.reverseGeocodeFailed' });
+        await vi.advanceTimersByTimeAsync(1000);
+        await expect(next).resolves.toMatchObject({ countryCode: 'FR' });
+    });
+});
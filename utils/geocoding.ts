@@ -0,0 +1,115 @@
+import type { LocationPlace, ManualLocation } from '../types';
+import { LocalizedError, RateLimitError, isAbortError } from '../services/errors';
+import { sleep } from './retry';
+
+/**
+ * Nominatim-compatible search endpoint used to turn an address into coordinates.
+ * Set GEOCODER_URL to point at a self-hosted instance; its sibling /reverse
+ * endpoint names the place at a position.
+ */
+const getGeocoderUrl = (): string => process.env.GEOCODER_URL || 'https://nominatim.openstreetmap.org/search';
+
+// Nominatim's usage policy allows an application one request per second.
+const MIN_REQUEST_INTERVAL_MS = 1000;
+let queue: Promise<unknown> = Promise.resolve();
+let lastRequestAt = 0;
+
+/**
+ * Sends geocoder requests one at a time and at most once a second, however
+ * many batch workers ask at once. A 429 becomes a RateLimitError so callers
+ * can back off and retry.
+ */
+const fetchGeocoder = (url: URL, signal?: AbortSignal): Promise<unknown> => {
+    const request = queue.then(async () => {
+        const waitMs = lastRequestAt + MIN_REQUEST_INTERVAL_MS - Date.now();
+        if (waitMs > 0) await sleep(waitMs, signal);
+        lastRequestAt = Date.now();
+        const response = await fetch(url.href, { signal, headers: { Accept: 'application/json' } });
+        if (response.status === 429) {
+            const retryAfter = Number(response.headers.get('retry-after'));
+            throw new RateLimitError(retryAfter > 0 ? retryAfter * 1000 : undefined, 'errors.geocoderRateLimited');
+        }
+        if (!response.ok) throw new Error(`Geocoder responded with HTTP ${response.status}`);
+        return response.json();
+    });
+    queue = request.catch(() => undefined);
+    return request;
+};
+
+interface NominatimPlace {
+    lat: string;
+    lon: string;
+    display_name: string;
+}
+
+interface NominatimReversePlace {
+    address?: {
+        city?: string;
+        town?: string;
+        village?: string;
+        hamlet?: string;
+        state?: string;
+        county?: string;
+        country?: string;
+        country_code?: string;
+    };
+    error?: string;
+}
+
+/** Finds the best match for a typed address or place name. */
+export const geocodeAddress = async (query: string, signal?: AbortSignal): Promise<ManualLocation> => {
+    const url = new URL(getGeocoderUrl());
+    url.searchParams.set('q', query.trim());
+    url.searchParams.set('format', 'json');
+    url.searchParams.set('limit', '1');
+
+    let places: NominatimPlace[];
+    try {
+        places = await fetchGeocoder(url, signal) as NominatimPlace[];
+    } catch (err) {
+        if (isAbortError(err) || err instanceof RateLimitError) throw err;
+        console.error("Address lookup failed:", err);
+        throw new LocalizedError('errors.geocodeFailed');
+    }
+
+    const place = places[0];
+    const latitude = Number(place?.lat);
+    const longitude = Number(place?.lon);
+    if (!place || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+        throw new LocalizedError('errors.addressNotFound', { query: query.trim() });
+    }
+    return { latitude, longitude, label: place.display_name };
+};
+
+export type ReverseGeocodedPlace = Pick<LocationPlace, 'city' | 'region' | 'country' | 'countryCode'>;
+
+/** Names the city, region and country at a position, in English like the model's answers. */
+export const reverseGeocode = async (latitude: number, longitude: number, signal?: AbortSignal): Promise<ReverseGeocodedPlace> => {
+    const url = new URL('reverse', getGeocoderUrl());
+    url.searchParams.set('lat', String(latitude));
+    url.searchParams.set('lon', String(longitude));
+    url.searchParams.set('format', 'jsonv2');
+    url.searchParams.set('accept-language', 'en');
+
+    let place: NominatimReversePlace;
+    try {
+        place = await fetchGeocoder(url, signal) as NominatimReversePlace;
+    } catch (err) {
+        if (isAbortError(err) || err instanceof RateLimitError) throw err;
+        console.error("Reverse geocoding failed:", err);
+        throw new LocalizedError('errors.reverseGeocodeFailed');
+    }
+
+    // Open sea and other unnamed places come back as an error body rather than an HTTP failure.
+    const address = place.address;
+    const countryCode = address?.country_code?.toUpperCase() ?? '';
+    if (!address?.country || !/^[A-Z]{2}$/.test(countryCode)) {
+        throw new LocalizedError('errors.reverseGeocodeFailed');
+    }
+    return {
+        city: address.city ?? address.town ?? address.village ?? address.hamlet ?? null,
+        region: address.state ?? address.county ?? null,
+        country: address.country,
+        countryCode,
+    };
+};
@@ -0,0 +1,36 @@
+// Runs off the main thread so decoding a 50-megapixel photo does not freeze the UI.
+
+export interface ResizeRequest {
+    file: Blob;
+    maxDimension: number;
+    // JPEG quality, 0..1.
+    quality: number;
+}
+
+export type ResizeResponse =
+    | { blob: Blob, width: number, height: number }
+    | { error: string };
+
+self.addEventListener('message', async (event: MessageEvent<ResizeRequest>) => {
+    const { file, maxDimension, quality } = event.data;
+    try {
+        // 'from-image' applies the EXIF orientation, so the re-encoded JPEG is upright without any tag.
+        const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+        const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+        const width = Math.max(1, Math.round(bitmap.width * scale));
+        const height = Math.max(1, Math.round(bitmap.height * scale));
+
+        const canvas = new OffscreenCanvas(width, height);
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error("2D canvas is not available in this worker.");
+        }
+        context.drawImage(bitmap, 0, 0, width, height);
+        bitmap.close();
+
+        const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+        self.postMessage({ blob, width, height } satisfies ResizeResponse);
+    } catch (error) {
+        self.postMessage({ error: error instanceof Error ? error.message : String(error) } satisfies ResizeResponse);
+    }
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { readMediaMetadata } from './mediaMetadata';
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+const u32 = (value: number) => {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value);
+    return bytes;
+};
+
+const concat = (...parts: Uint8Array[]) => {
+    const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        bytes.set(part, offset);
+        offset += part.length;
+    }
+    return bytes;
+};
+
+const box = (type: string, ...parts: Uint8Array[]) => {
+    const body = concat(...parts);
+    // Box types are four single bytes; QuickTime's "©" is 0xA9, not its two-byte UTF-8 form.
+    return concat(u32(8 + body.length), Uint8Array.from(type, char => char.charCodeAt(0)), body);
+};
+
+const fullBox = (type: string, ...parts: Uint8Array[]) => box(type, u32(0), ...parts);
+
+/** Builds moov/meta the way Apple devices write it: key names in order, then ilst items by 1-based key index. */
+const appleMeta = (entries: [string, string][], { isFullBox = false } = {}) => {
+    const keys = fullBox('keys', u32(entries.length), ...entries.map(([name]) => concat(u32(8 + text(name).length), text('mdta'), text(name))));
+    const items = entries.map(([, value], index) => concat(u32(8 + 16 + text(value).length), u32(index + 1), box('data', u32(1), u32(0), text(value))));
+    const children = [fullBox('hdlr', u32(0), text('mdta'), new Uint8Array(12), new Uint8Array(1)), keys, box('ilst', ...items)];
+    return isFullBox ? fullBox('meta', ...children) : box('meta', ...children);
+};
+
+const mvhd = (secondsSince1904: number) => fullBox('mvhd', u32(secondsSince1904), u32(secondsSince1904), u32(600), u32(0));
+
+const video = (...moovChildren: Uint8Array[]) => new File(
+    // The media data comes before moov, as in files written by cameras.
+    [box('ftyp', text('qt  '), u32(0)), box('mdat', new Uint8Array(4096)), box('moov', ...moovChildren)],
+    'clip.mov',
+    { type: 'video/quicktime' }
+);
+
+describe('readMediaMetadata for QuickTime files', () => {
+    it('reads the location, make and model from the keys and ilst of moov/meta', async () => {
+        const file = video(appleMeta([
+            ['com.apple.quicktime.make', 'Apple'],
+            ['com.apple.quicktime.location.ISO6709', '+48.8584+002.2945+035.000/'],
+            ['com.apple.quicktime.model', 'iPhone 15'],
+        ]));
+
+        await expect(readMediaMetadata(file)).resolves.toEqual({
+            gps: { latitude: 48.8584, longitude: 2.2945, altitude: 35 },
+            make: 'Apple',
+            model: 'iPhone 15',
+        });
+    });
+
+    it('reads an MP4-style meta full box and the creation time from mvhd', async () => {
+        const file = video(
+            mvhd(3786912000),
+            appleMeta([['com.apple.quicktime.location.ISO6709', '-33.8568+151.2153/']], { isFullBox: true })
+        );
+
+        await expect(readMediaMetadata(file)).resolves.toEqual({
+            capturedAt: '2024-01-01T00:00:00.000Z',
+            gps: { latitude: -33.8568, longitude: 151.2153 },
+        });
+    });
+
+    it('does not take location text from boxes outside moov/meta', async () => {
+        const file = video(
+            box('trak', text('com.apple.quicktime.location.ISO6709+10.0000+020.0000/')),
+            appleMeta([['com.apple.quicktime.make', 'Apple']])
+        );
+
+        await expect(readMediaMetadata(file)).resolves.toEqual({ make: 'Apple' });
+    });
+
+    it('prefers the classic udta values over the meta keys', async () => {
+        const userText = (value: string) => concat(new Uint8Array([0, text(value).length, 0, 0]), text(value));
+        const file = video(
+            box('udta', box('©xyz', userText('+35.6595+139.7005/')), box('©mak', userText('Sony'))),
+            appleMeta([
+                ['com.apple.quicktime.location.ISO6709', '+48.8584+002.2945/'],
+                ['com.apple.quicktime.make', 'Apple'],
+            ])
+        );
+
+        await expect(readMediaMetadata(file)).resolves.toEqual({
+            gps: { latitude: 35.6595, longitude: 139.7005 },
+            make: 'Sony',
+        });
+    });
+});
@@ -0,0 +1,465 @@
+import type { AnalysisResult, Language, MediaMetadata } from '../types';
+import { DEFAULT_RESULT_LANGUAGES } from '../services/locales';
+import { reverseGeocode } from './geocoding';
+
+// Only the leading part of a still image is read; metadata lives near the start.
+const IMAGE_HEAD_BYTES = 512 * 1024;
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x01;
+const TAG_GPS_LATITUDE = 0x02;
+const TAG_GPS_LONGITUDE_REF = 0x03;
+const TAG_GPS_LONGITUDE = 0x04;
+const TAG_GPS_ALTITUDE_REF = 0x05;
+const TAG_GPS_ALTITUDE = 0x06;
+const TAG_GPS_IMG_DIRECTION = 0x11;
+
+// Seconds between the QuickTime epoch (1904-01-01) and the Unix epoch.
+const QUICKTIME_EPOCH_OFFSET = 2082844800;
+
+type TagValue = string | number | number[];
+
+const readAscii = (view: DataView, offset: number, length: number): string => {
+    let text = '';
+    for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+        text += String.fromCharCode(view.getUint8(offset + i));
+    }
+    return text;
+};
+
+const readFileSlice = async (file: Blob, start: number, end: number): Promise<DataView> =>
+    new DataView(await file.slice(start, end).arrayBuffer());
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+/** Reads one IFD of a TIFF structure into a tag -> value map. */
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean): Map<number, TagValue> => {
+    const tags = new Map<number, TagValue>();
+    const start = tiffStart + ifdOffset;
+    if (start + 2 > view.byteLength) return tags;
+    const count = view.getUint16(start, little);
+
+    for (let i = 0; i < count; i++) {
+        const entry = start + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+        const tag = view.getUint16(entry, little);
+        const type = view.getUint16(entry + 2, little);
+        const components = view.getUint32(entry + 4, little);
+        const size = (TYPE_SIZES[type] ?? 0) * components;
+        if (!size) continue;
+        const valueOffset = size > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+        if (valueOffset + size > view.byteLength) continue;
+
+        if (type === 2) {
+            tags.set(tag, readAscii(view, valueOffset, components).replace(/\0+$/, '').trim());
+            continue;
+        }
+        const values: number[] = [];
+        for (let c = 0; c < components; c++) {
+            switch (type) {
+                case 1: case 7: values.push(view.getUint8(valueOffset + c)); break;
+                case 3: values.push(view.getUint16(valueOffset + c * 2, little)); break;
+                case 4: values.push(view.getUint32(valueOffset + c * 4, little)); break;
+                case 9: values.push(view.getInt32(valueOffset + c * 4, little)); break;
+                case 5: case 10: {
+                    const read = type === 5 ? view.getUint32.bind(view) : view.getInt32.bind(view);
+                    const numerator = read(valueOffset + c * 8, little);
+                    const denominator = read(valueOffset + c * 8 + 4, little);
+                    values.push(denominator ? numerator / denominator : 0);
+                    break;
+                }
+            }
+        }
+        tags.set(tag, values.length === 1 ? values[0] : values);
+    }
+    return tags;
+};
+
+const toDegrees = (value: TagValue | undefined): number | undefined => {
+    if (Array.isArray(value) && value.length >= 3) return value[0] + value[1] / 60 + value[2] / 3600;
+    return typeof value === 'number' ? value : undefined;
+};
+
+// EXIF dates look like "2024:05:17 14:03:22", optionally with an offset such as "+02:00".
+const parseExifDate = (value: TagValue | undefined, offset?: TagValue): string | undefined => {
+    if (typeof value !== 'string') return undefined;
+    const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+    if (!match) return undefined;
+    const [, y, mo, d, h, mi, s] = match;
+    const suffix = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+    return `${y}-${mo}-${d}T${h}:${mi}:${s}${suffix}`;
+};
+
+/** Parses a TIFF/EXIF block starting at `tiffStart` within `view`. */
+const parseTiff = (view: DataView, tiffStart: number): MediaMetadata => {
+    const byteOrder = readAscii(view, tiffStart, 2);
+    if (byteOrder !== 'II' && byteOrder !== 'MM') return {};
+    const little = byteOrder === 'II';
+    if (view.getUint16(tiffStart + 2, little) !== 42) return {};
+
+    const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+    const exifPointer = ifd0.get(TAG_EXIF_IFD);
+    const gpsPointer = ifd0.get(TAG_GPS_IFD);
+    const exif = typeof exifPointer === 'number' ? readIfd(view, tiffStart, exifPointer, little) : new Map<number, TagValue>();
+    const gps = typeof gpsPointer === 'number' ? readIfd(view, tiffStart, gpsPointer, little) : new Map<number, TagValue>();
+
+    const metadata: MediaMetadata = {};
+    const make = ifd0.get(TAG_MAKE);
+    const model = ifd0.get(TAG_MODEL);
+    const orientation = ifd0.get(TAG_ORIENTATION);
+    if (typeof make === 'string' && make) metadata.make = make;
+    if (typeof model === 'string' && model) metadata.model = model;
+    if (typeof orientation === 'number') metadata.orientation = orientation;
+    const capturedAt = parseExifDate(exif.get(TAG_DATE_TIME_ORIGINAL), exif.get(TAG_OFFSET_TIME_ORIGINAL)) ?? parseExifDate(ifd0.get(TAG_DATE_TIME));
+    if (capturedAt) metadata.capturedAt = capturedAt;
+
+    const latitude = toDegrees(gps.get(TAG_GPS_LATITUDE));
+    const longitude = toDegrees(gps.get(TAG_GPS_LONGITUDE));
+    if (latitude !== undefined && longitude !== undefined && (latitude !== 0 || longitude !== 0)) {
+        const altitude = gps.get(TAG_GPS_ALTITUDE);
+        metadata.gps = {
+            latitude: gps.get(TAG_GPS_LATITUDE_REF) === 'S' ? -latitude : latitude,
+            longitude: gps.get(TAG_GPS_LONGITUDE_REF) === 'W' ? -longitude : longitude,
+            ...(typeof altitude === 'number' && { altitude: gps.get(TAG_GPS_ALTITUDE_REF) === 1 ? -altitude : altitude }),
+        };
+    }
+    const heading = gps.get(TAG_GPS_IMG_DIRECTION);
+    if (typeof heading === 'number') metadata.heading = heading;
+
+    return metadata;
+};
+
+const readJpeg = (view: DataView): MediaMetadata => {
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        if (view.getUint8(offset) !== 0xff) break;
+        const marker = view.getUint8(offset + 1);
+        const length = view.getUint16(offset + 2);
+        if (marker === 0xe1 && readAscii(view, offset + 4, 6) === 'Exif\0\0') {
+            return parseTiff(view, offset + 10);
+        }
+        if (marker === 0xda) break; // Start of scan: no more metadata segments.
+        offset += 2 + length;
+    }
+    return {};
+};
+
+const readPng = (view: DataView): MediaMetadata => {
+    let offset = 8;
+    while (offset + 8 <= view.byteLength) {
+        const length = view.getUint32(offset);
+        const type = readAscii(view, offset + 4, 4);
+        if (type === 'eXIf') return parseTiff(view, offset + 8);
+        if (type === 'IEND') break;
+        offset += 12 + length;
+    }
+    return {};
+};
+
+interface Box {
+    type: string;
+    start: number;
+    headerSize: number;
+    size: number;
+}
+
+const listBoxes = (view: DataView, start: number, end: number): Box[] => {
+    const boxes: Box[] = [];
+    let offset = start;
+    while (offset + 8 <= end) {
+        let size = view.getUint32(offset);
+        const type = readAscii(view, offset + 4, 4);
+        let headerSize = 8;
+        if (size === 1 && offset + 16 <= end) {
+            size = Number(view.getBigUint64(offset + 8));
+            headerSize = 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < headerSize) break;
+        boxes.push({ type, start: offset, headerSize, size });
+        offset += size;
+    }
+    return boxes;
+};
+
+const readSizedInt = (view: DataView, offset: number, size: number): number => {
+    if (size === 0) return 0;
+    if (size === 4) return view.getUint32(offset);
+    if (size === 8) return Number(view.getBigUint64(offset));
+    return view.getUint16(offset);
+};
+
+/** Locates the Exif item of a HEIF/HEIC file through its iinf and iloc boxes. */
+const readHeic = async (file: Blob, view: DataView): Promise<MediaMetadata> => {
+    const meta = listBoxes(view, 0, view.byteLength).find(box => box.type === 'meta');
+    if (!meta) return {};
+    // meta is a full box: 4 bytes of version/flags precede the children.
+    const children = listBoxes(view, meta.start + meta.headerSize + 4, meta.start + meta.size);
+
+    let exifItemId: number | undefined;
+    const iinf = children.find(box => box.type === 'iinf');
+    if (iinf) {
+        const version = view.getUint8(iinf.start + iinf.headerSize);
+        const entriesStart = iinf.start + iinf.headerSize + 4 + (version === 0 ? 2 : 4);
+        for (const infe of listBoxes(view, entriesStart, iinf.start + iinf.size)) {
+            const infeVersion = view.getUint8(infe.start + infe.headerSize);
+            if (infe.type !== 'infe' || infeVersion < 2) continue;
+            const body = infe.start + infe.headerSize + 4;
+            const itemId = infeVersion === 2 ? view.getUint16(body) : view.getUint32(body);
+            const typeOffset = body + (infeVersion === 2 ? 2 : 4) + 2;
+            if (readAscii(view, typeOffset, 4) === 'Exif') {
+                exifItemId = itemId;
+                break;
+            }
+        }
+    }
+
+    const iloc = children.find(box => box.type === 'iloc');
+    if (exifItemId === undefined || !iloc) return {};
+    let p = iloc.start + iloc.headerSize;
+    const version = view.getUint8(p);
+    p += 4;
+    const sizes = view.getUint16(p);
+    p += 2;
+    const offsetSize = sizes >> 12;
+    const lengthSize = (sizes >> 8) & 0xf;
+    const baseOffsetSize = (sizes >> 4) & 0xf;
+    const indexSize = version === 1 || version === 2 ? sizes & 0xf : 0;
+    const itemCount = version < 2 ? view.getUint16(p) : view.getUint32(p);
+    p += version < 2 ? 2 : 4;
+
+    for (let i = 0; i < itemCount && p < iloc.start + iloc.size; i++) {
+        const itemId = version < 2 ? view.getUint16(p) : view.getUint32(p);
+        p += version < 2 ? 2 : 4;
+        if (version === 1 || version === 2) p += 2; // construction_method
+        p += 2; // data_reference_index
+        const baseOffset = readSizedInt(view, p, baseOffsetSize);
+        p += baseOffsetSize;
+        const extentCount = view.getUint16(p);
+        p += 2;
+        for (let e = 0; e < extentCount; e++) {
+            p += indexSize;
+            const extentOffset = readSizedInt(view, p, offsetSize);
+            p += offsetSize;
+            const extentLength = readSizedInt(view, p, lengthSize);
+            p += lengthSize;
+            if (itemId === exifItemId && e === 0) {
+                const start = baseOffset + extentOffset;
+                const item = await readFileSlice(file, start, start + (extentLength || IMAGE_HEAD_BYTES));
+                // The Exif item begins with a 4-byte offset to the TIFF header.
+                return parseTiff(item, 4 + item.getUint32(0));
+            }
+        }
+    }
+    return {};
+};
+
+// ISO 6709 strings look like "+48.8584+002.2945+035.000/".
+const parseIso6709 = (text: string): MediaMetadata['gps'] | undefined => {
+    const match = text.match(/([+-]\d{1,2}(?:\.\d+)?)([+-]\d{1,3}(?:\.\d+)?)([+-]\d+(?:\.\d+)?)?\/?/);
+    if (!match) return undefined;
+    const latitude = parseFloat(match[1]);
+    const longitude = parseFloat(match[2]);
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return undefined;
+    return { latitude, longitude, ...(match[3] && { altitude: parseFloat(match[3]) }) };
+};
+
+/** Lists the boxes between two file offsets, reading only each box's header. */
+const listFileBoxes = async (file: Blob, start: number, end: number): Promise<Box[]> => {
+    const boxes: Box[] = [];
+    let offset = start;
+    while (offset + 8 <= end) {
+        const header = await readFileSlice(file, offset, Math.min(offset + 16, end));
+        const box = listBoxes(header, 0, header.byteLength)[0];
+        if (!box) break;
+        // A size of 0 means the box runs to the end of its parent.
+        const size = header.getUint32(0) === 0 ? end - offset : box.size;
+        boxes.push({ ...box, start: offset, size });
+        offset += size;
+    }
+    return boxes;
+};
+
+const readUtf8 = (view: DataView, offset: number, length: number): string =>
+    new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + offset, Math.max(0, Math.min(length, view.byteLength - offset))));
+
+const APPLE_KEYS = {
+    location: 'com.apple.quicktime.location.ISO6709',
+    make: 'com.apple.quicktime.make',
+    model: 'com.apple.quicktime.model',
+};
+
+/**
+ * Reads the text values of a QuickTime metadata box (moov/meta with an mdta
+ * handler): keys names each entry, and ilst holds one item per entry, typed by
+ * its 1-based key index, whose data atom carries the value.
+ */
+const readMetadataKeys = (meta: DataView): Map<string, string> => {
+    const values = new Map<string, string>();
+    const [box] = listBoxes(meta, 0, meta.byteLength);
+    // QuickTime writes meta as a plain box, MP4 as a full box with 4 bytes of version/flags first.
+    const childrenStart = readAscii(meta, box.headerSize + 4, 4) === 'hdlr' ? box.headerSize : box.headerSize + 4;
+    const children = listBoxes(meta, childrenStart, meta.byteLength);
+
+    const keys = children.find(child => child.type === 'keys');
+    const ilst = children.find(child => child.type === 'ilst');
+    if (!keys || !ilst) return values;
+
+    const names: string[] = [];
+    const count = meta.getUint32(keys.start + keys.headerSize + 4);
+    let p = keys.start + keys.headerSize + 8;
+    for (let i = 0; i < count && p + 8 <= keys.start + keys.size; i++) {
+        const keySize = meta.getUint32(p);
+        if (keySize < 8) break;
+        // Each entry is its size, a namespace such as "mdta" and the key name.
+        names.push(readUtf8(meta, p + 8, keySize - 8));
+        p += keySize;
+    }
+
+    for (const item of listBoxes(meta, ilst.start + ilst.headerSize, ilst.start + ilst.size)) {
+        const name = names[meta.getUint32(item.start + 4) - 1];
+        if (!name) continue;
+        const data = listBoxes(meta, item.start + item.headerSize, item.start + item.size).find(child => child.type === 'data');
+        // The data atom starts with a type indicator (1 is UTF-8 text) and a locale before the value.
+        if (!data || meta.getUint32(data.start + data.headerSize) !== 1) continue;
+        const valueStart = data.start + data.headerSize + 8;
+        values.set(name, readUtf8(meta, valueStart, data.start + data.size - valueStart));
+    }
+    return values;
+};
+
+/** Reads creation time, location and camera info from the moov box of an MP4/MOV file. */
+const readQuickTime = async (file: Blob): Promise<MediaMetadata> => {
+    // Only box headers are read while walking, since moov is often at the end and its tracks can be megabytes.
+    const moov = (await listFileBoxes(file, 0, file.size)).find(box => box.type === 'moov');
+    if (!moov) return {};
+    const children = await listFileBoxes(file, moov.start + moov.headerSize, moov.start + moov.size);
+    const readBox = (type: string) => {
+        const box = children.find(child => child.type === type);
+        return box ? readFileSlice(file, box.start, box.start + box.size) : null;
+    };
+
+    const metadata: MediaMetadata = {};
+
+    const mvhd = await readBox('mvhd');
+    if (mvhd) {
+        const body = listBoxes(mvhd, 0, mvhd.byteLength)[0].headerSize;
+        const version = mvhd.getUint8(body);
+        const created = version === 1 ? Number(mvhd.getBigUint64(body + 4)) : mvhd.getUint32(body + 4);
+        if (created > QUICKTIME_EPOCH_OFFSET) {
+            metadata.capturedAt = new Date((created - QUICKTIME_EPOCH_OFFSET) * 1000).toISOString();
+        }
+    }
+
+    // Classic QuickTime user data: moov/udta/©xyz, ©mak, ©mod hold a 16-bit length, a language code and the text.
+    const udta = await readBox('udta');
+    if (udta) {
+        for (const box of listBoxes(udta, listBoxes(udta, 0, udta.byteLength)[0].headerSize, udta.byteLength)) {
+            const body = box.start + box.headerSize;
+            const readUserText = () => readUtf8(udta, body + 4, udta.getUint16(body));
+            if (box.type === '©xyz') metadata.gps = parseIso6709(readUserText());
+            if (box.type === '©mak') metadata.make = readUserText();
+            if (box.type === '©mod') metadata.model = readUserText();
+        }
+    }
+
+    // Apple devices store the same values as com.apple.quicktime.* keys in moov/meta.
+    const meta = await readBox('meta');
+    if (meta) {
+        const values = readMetadataKeys(meta);
+        const location = values.get(APPLE_KEYS.location);
+        if (!metadata.gps && location) metadata.gps = parseIso6709(location);
+        metadata.make ??= values.get(APPLE_KEYS.make);
+        metadata.model ??= values.get(APPLE_KEYS.model);
+    }
+    if (!metadata.gps) delete metadata.gps;
+    if (!metadata.make) delete metadata.make;
+    if (!metadata.model) delete metadata.model;
+
+    return metadata;
+};
+
+/**
+ * Extracts GPS position, capture time, camera and orientation from a photo or
+ * video without uploading it. Unsupported formats and unreadable files yield an
+ * empty object rather than an error.
+ */
+export const readMediaMetadata = async (file: File): Promise<MediaMetadata> => {
+    try {
+        if (file.type.startsWith('video/') || /\.(mp4|mov|m4v)$/i.test(file.name)) {
+            return await readQuickTime(file);
+        }
+        const view = await readFileSlice(file, 0, IMAGE_HEAD_BYTES);
+        if (view.byteLength >= 2 && view.getUint16(0) === 0xffd8) {
+            return readJpeg(view);
+        }
+        if (readAscii(view, 1, 3) === 'PNG') {
+            return readPng(view);
+        }
+        if (readAscii(view, 4, 4) === 'ftyp') {
+            return await readHeic(file, view);
+        }
+    } catch (error) {
+        console.warn("Could not read media metadata:", error);
+    }
+    return {};
+};
+
+export const hasGps = (metadata: MediaMetadata | null | undefined): metadata is MediaMetadata & { gps: NonNullable<MediaMetadata['gps']> } =>
+    !!metadata?.gps;
+
+// Shown instead of a model-written description; typed by Language so a new locale cannot be left out.
+const GPS_DESCRIPTIONS: Record<Language, (position: string) => string> = {
+    en: position => `This location was read from the GPS data embedded in the file: ${position}. AI analysis was skipped.`,
+    ru: position => `Местоположение получено из GPS-данных, встроенных в файл: ${position}. Анализ с помощью ИИ не выполнялся.`,
+    de: position => `Dieser Ort stammt aus den in der Datei eingebetteten GPS-Daten: ${position}. Die KI-Analyse wurde übersprungen.`,
+    es: position => `Esta ubicación se leyó de los datos GPS incrustados en el archivo: ${position}. Se omitió el análisis con IA.`,
+    fr: position => `Ce lieu provient des données GPS intégrées au fichier : ${position}. L'analyse par IA n'a pas été effectuée.`,
+    it: position => `Questa posizione è stata letta dai dati GPS incorporati nel file: ${position}. L'analisi con l'IA è stata saltata.`,
+    pt: position => `Esta localização foi lida dos dados de GPS incorporados no arquivo: ${position}. A análise por IA foi ignorada.`,
+    uk: position => `Місцезнаходження отримано з GPS-даних, вбудованих у файл: ${position}. Аналіз за допомогою ШІ не виконувався.`,
+    kk: position => `Бұл орын файлға енгізілген GPS деректерінен алынды: ${position}. ЖИ талдауы орындалмады.`,
+    tr: position => `Bu konum dosyaya gömülü GPS verilerinden okundu: ${position}. Yapay zekâ analizi atlandı.`,
+    ar: position => `تمت قراءة هذا الموقع من بيانات GPS المضمنة في الملف: ${position}. تم تخطي التحليل بالذكاء الاصطناعي.`,
+    hi: position => `यह स्थान फ़ाइल में मौजूद GPS डेटा से पढ़ा गया: ${position}। AI विश्लेषण नहीं किया गया।`,
+    ja: position => `この位置はファイルに埋め込まれたGPSデータから読み取りました: ${position}。AIによる分析は行っていません。`,
+    ko: position => `이 위치는 파일에 포함된 GPS 데이터에서 읽었습니다: ${position}. AI 분석은 건너뛰었습니다.`,
+    zh: position => `该位置读取自文件中嵌入的 GPS 数据：${position}。未进行 AI 分析。`,
+};
+
+/**
+ * Builds a result straight from embedded GPS data, for when the model call is
+ * skipped. The position is reverse geocoded so the result names a country like
+ * any other; that lookup failing is an error rather than a result without one.
+ */
+export const resultFromMetadata = async (
+    metadata: MediaMetadata & { gps: NonNullable<MediaMetadata['gps']> },
+    languages: Language[] = DEFAULT_RESULT_LANGUAGES,
+    signal?: AbortSignal
+): Promise<AnalysisResult> => {
+    const { latitude, longitude } = metadata.gps;
+    const place = await reverseGeocode(latitude, longitude, signal);
+    const position = `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+    return {
+        descriptions: Object.fromEntries(languages.map(code => [code, GPS_DESCRIPTIONS[code](position)])),
+        location: {
+            landmark: null,
+            ...place,
+            latitude,
+            longitude,
+            confidence: 1,
+            alternates: [],
+        },
+        sources: [],
+        metadata,
+        fromMetadata: true,
+    };
+};
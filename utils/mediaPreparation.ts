@@ -0,0 +1,103 @@
+import type { MediaMetadata, MediaPreparationInfo, PreparedMedia, RegionOfInterest } from '../types';
+import type { MarkedRegion } from '../services/providers';
+import type { ResizeRequest, ResizeResponse } from './imageResize.worker';
+import type { CropRequest, CropResponse } from './regionCrop.worker';
+import { fileToBase64 } from './fileUtils';
+
+interface PrepareOptions {
+    // Longest side of a downscaled image, in pixels.
+    maxDimension?: number;
+    // JPEG quality of a downscaled image, 0..1.
+    quality?: number;
+}
+
+// Inline requests are capped at 20 MB and base64 adds a third on top of the raw bytes.
+export const MAX_INLINE_BYTES = 14 * 1024 * 1024;
+// Smaller, upright images are sent untouched.
+const DOWNSCALE_MIN_BYTES = 1024 * 1024;
+
+// Each worker answers exactly one message; the URL has to stay a literal at the call site for the bundler.
+const runWorker = <Response>(worker: Worker, request: unknown): Promise<Response | { error: string }> => {
+    return new Promise((resolve) => {
+        worker.onmessage = (event: MessageEvent<Response>) => {
+            worker.terminate();
+            resolve(event.data);
+        };
+        worker.onerror = (event) => {
+            worker.terminate();
+            resolve({ error: event.message || "The worker failed to start." });
+        };
+        worker.postMessage(request);
+    });
+};
+
+const resizeInWorker = (request: ResizeRequest) =>
+    runWorker<ResizeResponse>(new Worker(new URL('./imageResize.worker.ts', import.meta.url), { type: 'module' }), request);
+
+const cropInWorker = (request: CropRequest) =>
+    runWorker<CropResponse>(new Worker(new URL('./regionCrop.worker.ts', import.meta.url), { type: 'module' }), request);
+
+const toPrepared = async (blob: Blob, mimeType: string): Promise<PreparedMedia> => {
+    if (blob.size > MAX_INLINE_BYTES) {
+        return { kind: 'file', blob, mimeType };
+    }
+    const { base64 } = await fileToBase64(blob);
+    return { kind: 'inline', base64Data: base64, mimeType };
+};
+
+/**
+ * Picks how a file reaches the model: large or rotated images are downscaled
+ * and re-encoded in a worker, and anything still too big for an inline
+ * request is handed over as a file for a separate upload.
+ */
+export const prepareMedia = async (
+    file: File,
+    metadata?: MediaMetadata | null,
+    { maxDimension = 2048, quality = 0.85 }: PrepareOptions = {}
+): Promise<{ media: PreparedMedia, info: MediaPreparationInfo }> => {
+    const isRotated = (metadata?.orientation ?? 1) > 1;
+    if (file.type.startsWith('image/') && (file.size > DOWNSCALE_MIN_BYTES || isRotated)) {
+        const resized = await resizeInWorker({ file, maxDimension, quality });
+        if ('error' in resized) {
+            // Formats the browser cannot decode (HEIC in most browsers) go through as they are.
+            console.error("Image downscaling failed, sending the original:", resized.error);
+        } else if (resized.blob.size < file.size || isRotated) {
+            return {
+                media: await toPrepared(resized.blob, 'image/jpeg'),
+                info: {
+                    path: 'downscaled',
+                    originalBytes: file.size,
+                    uploadBytes: resized.blob.size,
+                    width: resized.width,
+                    height: resized.height,
+                },
+            };
+        }
+    }
+
+    const media = await toPrepared(file, file.type);
+    return {
+        media,
+        info: { path: media.kind === 'file' ? 'file-upload' : 'original', originalBytes: file.size, uploadBytes: file.size },
+    };
+};
+
+/** Inline media from a base64 data URL, such as a saved history thumbnail. */
+export const dataUrlToMedia = (dataUrl: string): PreparedMedia | null => {
+    const match = /^data:([^;,]+);base64,(.*)$/.exec(dataUrl);
+    return match ? { kind: 'inline', mimeType: match[1], base64Data: match[2] } : null;
+};
+
+/**
+ * Cuts a JPEG close-up of every marked region out of the original image. The
+ * regions still go to the model without close-ups if the image cannot be decoded.
+ */
+export const cropRegions = async (file: File, regions: RegionOfInterest[], maxDimension = 1024): Promise<MarkedRegion[]> => {
+    const response = await cropInWorker({ file, boxes: regions.map(region => region.box), maxDimension, quality: 0.9 });
+    if ('error' in response) {
+        console.error("Region cropping failed, sending the regions without close-ups:", response.error);
+        return regions.map(region => ({ ...region, crop: null }));
+    }
+    const crops = await Promise.all(response.crops.map(crop => fileToBase64(crop)));
+    return regions.map((region, index) => ({ ...region, crop: crops[index].base64 }));
+};
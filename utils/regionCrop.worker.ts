@@ -0,0 +1,43 @@
+import type { RegionBox } from '../types';
+
+// Cuts marked regions out of the full-resolution image without blocking the UI.
+
+export interface CropRequest {
+    file: Blob;
+    boxes: RegionBox[];
+    // Longest side of each close-up, in pixels; smaller regions keep their native size.
+    maxDimension: number;
+    // JPEG quality, 0..1.
+    quality: number;
+}
+
+export type CropResponse =
+    | { crops: Blob[] }
+    | { error: string };
+
+self.addEventListener('message', async (event: MessageEvent<CropRequest>) => {
+    const { file, boxes, maxDimension, quality } = event.data;
+    try {
+        // Boxes are drawn on the upright preview, so crop from the upright image too.
+        const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+        const crops: Blob[] = [];
+        for (const box of boxes) {
+            const sx = Math.round(box.x * bitmap.width);
+            const sy = Math.round(box.y * bitmap.height);
+            const sw = Math.max(1, Math.round(box.width * bitmap.width));
+            const sh = Math.max(1, Math.round(box.height * bitmap.height));
+            const scale = Math.min(1, maxDimension / Math.max(sw, sh));
+            const canvas = new OffscreenCanvas(Math.max(1, Math.round(sw * scale)), Math.max(1, Math.round(sh * scale)));
+            const context = canvas.getContext('2d');
+            if (!context) {
+                throw new Error("2D canvas is not available in this worker.");
+            }
+            context.drawImage(bitmap, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+            crops.push(await canvas.convertToBlob({ type: 'image/jpeg', quality }));
+        }
+        bitmap.close();
+        self.postMessage({ crops } satisfies CropResponse);
+    } catch (error) {
+        self.postMessage({ error: error instanceof Error ? error.message : String(error) } satisfies CropResponse);
+    }
+});
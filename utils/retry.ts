@@ -0,0 +1,49 @@
+interface BackoffOptions {
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal;
+    shouldRetry: (error: unknown) => boolean;
+    // A wait the server asked for; the backoff never retries sooner than this.
+    retryAfterMs?: (error: unknown) => number | undefined;
+    onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Aborted', 'AbortError'));
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+/**
+ * Runs `task`, retrying with exponential backoff and jitter while `shouldRetry`
+ * accepts the error. The last error is rethrown once retries are exhausted.
+ */
+export const withBackoff = async <T>(task: () => Promise<T>, options: BackoffOptions): Promise<T> => {
+    const { retries = 5, baseDelayMs = 2000, maxDelayMs = 60000, signal, shouldRetry, retryAfterMs, onRetry } = options;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await task();
+        } catch (error) {
+            if (attempt > retries || signal?.aborted || !shouldRetry(error)) {
+                throw error;
+            }
+            const backoffMs = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)) * (0.75 + Math.random() * 0.5);
+            const delayMs = Math.max(backoffMs, retryAfterMs?.(error) ?? 0);
+            onRetry?.(attempt, delayMs, error);
+            await sleep(delayMs, signal);
+        }
+    }
+};
@@ -0,0 +1,35 @@
+export interface TileSource {
+    // URL template with {z}, {x} and {y} placeholders, and optionally {s} for subdomains.
+    urlTemplate: string;
+    attribution: string;
+    maxZoom: number;
+    subdomains?: string[];
+}
+
+export const OSM_TILE_SOURCE: TileSource = {
+    urlTemplate: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '© OpenStreetMap contributors',
+    maxZoom: 19,
+};
+
+/**
+ * The tile source used by the map. Set MAP_TILE_URL (e.g. to a local tile server
+ * such as http://localhost:8080/{z}/{x}/{y}.png) to run without internet access.
+ */
+export const getDefaultTileSource = (): TileSource => {
+    const customUrl = process.env.MAP_TILE_URL;
+    if (customUrl) {
+        return { urlTemplate: customUrl, attribution: process.env.MAP_TILE_ATTRIBUTION || '', maxZoom: 19 };
+    }
+    return OSM_TILE_SOURCE;
+};
+
+export const getTileUrl = (source: TileSource, z: number, x: number, y: number): string => {
+    const subdomains = source.subdomains ?? [];
+    const subdomain = subdomains.length > 0 ? subdomains[Math.abs(x + y) % subdomains.length] : '';
+    return source.urlTemplate
+        .replace('{s}', subdomain)
+        .replace('{z}', String(z))
+        .replace('{x}', String(x))
+        .replace('{y}', String(y));
+};
@@ -0,0 +1,127 @@
+export interface SampledFrame {
+    // Seconds from the start of the video.
+    time: number;
+    // JPEG at analysis resolution, base64 without the data URL prefix.
+    base64: string;
+    // Small JPEG data URL for the timeline.
+    thumbnail: string;
+}
+
+interface FrameSamplingOptions {
+    maxFrames?: number;
+    // Candidate frames are taken this often and kept only when the scene changed.
+    intervalSeconds?: number;
+    // Mean luminance difference (0..1) between candidates that counts as a new scene.
+    sceneThreshold?: number;
+    signal?: AbortSignal;
+}
+
+const FRAME_SIZE = 768;
+const THUMBNAIL_SIZE = 160;
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 18;
+const MAX_CANDIDATES = 60;
+
+const loadVideo = (src: string): Promise<HTMLVideoElement> => {
+    return new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        video.muted = true;
+        video.preload = 'auto';
+        video.onloadeddata = () => resolve(video);
+        video.onerror = () => reject(new Error("Could not load the video to sample frames."));
+        video.src = src;
+    });
+};
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        video.onseeked = () => resolve();
+        video.onerror = () => reject(new Error(`Could not seek the video to ${time.toFixed(1)}s.`));
+        video.currentTime = time;
+    });
+};
+
+const drawScaled = (video: HTMLVideoElement, width: number, height: number): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(video, 0, 0, width, height);
+    return canvas;
+};
+
+const fitWithin = (video: HTMLVideoElement, size: number): { width: number, height: number } => {
+    const scale = Math.min(1, size / Math.max(video.videoWidth, video.videoHeight));
+    return {
+        width: Math.max(1, Math.round(video.videoWidth * scale)),
+        height: Math.max(1, Math.round(video.videoHeight * scale)),
+    };
+};
+
+// A tiny grayscale copy of the frame, compared between candidates to spot cuts.
+const frameSignature = (video: HTMLVideoElement): Float32Array => {
+    const canvas = drawScaled(video, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+    const pixels = canvas.getContext('2d')?.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT).data;
+    const signature = new Float32Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+    if (!pixels) return signature;
+    for (let i = 0; i < signature.length; i++) {
+        signature[i] = (0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2]) / 255;
+    }
+    return signature;
+};
+
+const signatureDistance = (a: Float32Array, b: Float32Array): number => {
+    let total = 0;
+    for (let i = 0; i < a.length; i++) {
+        total += Math.abs(a[i] - b[i]);
+    }
+    return total / a.length;
+};
+
+// Keeps the first and last picks and spreads the rest evenly.
+const thinOut = <T,>(items: T[], max: number): T[] => {
+    if (items.length <= max) return items;
+    if (max <= 1) return items.slice(0, max);
+    return Array.from({ length: max }, (_, i) => items[Math.round(i * (items.length - 1) / (max - 1))]);
+};
+
+/**
+ * Samples a video at a fixed interval and keeps the frames where the scene
+ * changes, so a long static shot costs one model call rather than dozens.
+ */
+export const sampleVideoFrames = async (
+    src: string,
+    { maxFrames = 8, intervalSeconds, sceneThreshold = 0.12, signal }: FrameSamplingOptions = {}
+): Promise<{ duration: number, frames: SampledFrame[] }> => {
+    const video = await loadVideo(src);
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+    const step = intervalSeconds ?? Math.max(1, duration / MAX_CANDIDATES);
+
+    const sceneStarts: number[] = [];
+    let previous: Float32Array | null = null;
+    for (let time = 0; time < Math.max(duration, 0.001); time += step) {
+        signal?.throwIfAborted();
+        await seekTo(video, time);
+        const signature = frameSignature(video);
+        if (!previous || signatureDistance(signature, previous) >= sceneThreshold) {
+            sceneStarts.push(time);
+        }
+        previous = signature;
+    }
+
+    const frames: SampledFrame[] = [];
+    for (const time of thinOut(sceneStarts, maxFrames)) {
+        signal?.throwIfAborted();
+        await seekTo(video, time);
+        const full = fitWithin(video, FRAME_SIZE);
+        const small = fitWithin(video, THUMBNAIL_SIZE);
+        frames.push({
+            time,
+            base64: drawScaled(video, full.width, full.height).toDataURL('image/jpeg', 0.85).split(',')[1],
+            thumbnail: drawScaled(video, small.width, small.height).toDataURL('image/jpeg', 0.7),
+        });
+    }
+    video.removeAttribute('src');
+    video.load();
+    return { duration, frames };
+};
+